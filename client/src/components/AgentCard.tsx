@@ -2,23 +2,33 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Play, Pause, Check, Loader2, LucideIcon } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Play, Pause, Check, Loader2, PenLine, AlertTriangle, Wrench, FlaskConical, LucideIcon } from "lucide-react";
 import { useState } from "react";
 import architectAvatar from "@assets/generated_images/architect_agent_avatar_icon.png";
 import backendAvatar from "@assets/generated_images/backend_agent_avatar_icon.png";
 import frontendAvatar from "@assets/generated_images/frontend_agent_avatar_icon.png";
 import qaAvatar from "@assets/generated_images/qa_agent_avatar_icon.png";
+import type { AgentColor, CodeCheck, CodeRepairAttempt, TestRun } from "@shared/schema";
 
-export type AgentStatus = 'idle' | 'thinking' | 'speaking' | 'complete';
-export type AgentType = 'architect' | 'backend' | 'frontend' | 'qa';
+export type AgentStatus = 'idle' | 'thinking' | 'streaming' | 'speaking' | 'complete';
+export type AgentType = string;
 
 interface AgentCardProps {
   agentType: AgentType;
   name: string;
   role: string;
   icon: LucideIcon;
+  color?: AgentColor;
+  avatar?: string;
   message?: string;
   status: AgentStatus;
+  // Server-side type check of the agent's generated files
+  codeCheck?: CodeCheck;
+  // Self-repair turns that ran on the code before it was shown
+  repairs?: CodeRepairAttempt[];
+  // Result of running the agent's generated tests in the sandbox
+  testRun?: TestRun;
   audioUrl?: string;
   isPlaying?: boolean;
   onPlayAudio?: () => void;
@@ -30,8 +40,13 @@ export default function AgentCard({
   name, 
   role, 
   icon: Icon, 
+  color = 'slate',
+  avatar,
   message, 
   status,
+  codeCheck,
+  repairs = [],
+  testRun,
   audioUrl,
   isPlaying = false,
   onPlayAudio,
@@ -51,6 +66,8 @@ export default function AgentCard({
     switch (status) {
       case 'thinking':
         return <Badge variant="secondary" className="gap-1"><Loader2 className="w-3 h-3 animate-spin" />Thinking</Badge>;
+      case 'streaming':
+        return <Badge variant="secondary" className="gap-1"><PenLine className="w-3 h-3 animate-pulse" />Writing</Badge>;
       case 'complete':
         return <Badge variant="outline" className="gap-1"><Check className="w-3 h-3" />Complete</Badge>;
       default:
@@ -58,20 +75,44 @@ export default function AgentCard({
     }
   };
 
-  const agentColors = {
-    architect: 'text-blue-600 dark:text-blue-400',
-    backend: 'text-purple-600 dark:text-purple-400',
-    frontend: 'text-pink-600 dark:text-pink-400',
-    qa: 'text-green-600 dark:text-green-400',
+  const codeErrors = codeCheck?.diagnostics.filter(diagnostic => diagnostic.severity === 'error') ?? [];
+  const repaired = repairs.some(repair => repair.accepted);
+
+  const getTestRunLabel = (run: TestRun) => {
+    switch (run.status) {
+      case 'passed':
+        return `${run.passed} test${run.passed === 1 ? '' : 's'} passed`;
+      case 'failed':
+        return `${run.failed} of ${run.passed + run.failed} tests failed`;
+      case 'timeout':
+        return 'Tests timed out';
+      default:
+        return 'Tests did not run';
+    }
+  };
+
+  const agentColors: Record<AgentColor, string> = {
+    blue: 'text-blue-600 dark:text-blue-400',
+    purple: 'text-purple-600 dark:text-purple-400',
+    pink: 'text-pink-600 dark:text-pink-400',
+    green: 'text-green-600 dark:text-green-400',
+    orange: 'text-orange-600 dark:text-orange-400',
+    red: 'text-red-600 dark:text-red-400',
+    teal: 'text-teal-600 dark:text-teal-400',
+    yellow: 'text-yellow-600 dark:text-yellow-400',
+    slate: 'text-slate-600 dark:text-slate-400',
   };
 
-  const agentAvatars = {
+  const agentAvatars: Record<string, string> = {
     architect: architectAvatar,
     backend: backendAvatar,
     frontend: frontendAvatar,
     qa: qaAvatar,
   };
 
+  // Custom agents can use an image URL or a short emoji/initials as their avatar
+  const avatarImage = avatar && /^(https?:|\/|data:)/.test(avatar) ? avatar : agentAvatars[agentType];
+
   return (
     <Card 
       className="h-80 flex flex-col transition-all duration-300"
@@ -80,12 +121,20 @@ export default function AgentCard({
       <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-3 shrink-0">
         <div className="flex items-center gap-3">
           <div className="w-12 h-12 rounded-lg overflow-hidden bg-muted flex items-center justify-center shrink-0">
-            <img 
-              src={agentAvatars[agentType]} 
-              alt={`${name} avatar`}
-              className="w-full h-full object-cover"
-              data-testid={`img-avatar-${agentType}`}
-            />
+            {avatarImage ? (
+              <img 
+                src={avatarImage} 
+                alt={`${name} avatar`}
+                className="w-full h-full object-cover"
+                data-testid={`img-avatar-${agentType}`}
+              />
+            ) : avatar ? (
+              <span className={`text-xl font-semibold ${agentColors[color]}`} data-testid={`img-avatar-${agentType}`}>
+                {avatar}
+              </span>
+            ) : (
+              <Icon className={`w-6 h-6 ${agentColors[color]}`} data-testid={`img-avatar-${agentType}`} />
+            )}
           </div>
           <div className="flex-1">
             <h3 className="text-lg font-semibold" data-testid={`text-agent-name-${agentType}`}>{name}</h3>
@@ -114,6 +163,78 @@ export default function AgentCard({
               )}
             </Button>
           )}
+          {codeErrors.length > 0 && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="destructive" className="gap-1 cursor-default" data-testid={`badge-type-errors-${agentType}`}>
+                  <AlertTriangle className="w-3 h-3" />
+                  {codeErrors.length} type error{codeErrors.length === 1 ? '' : 's'}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-sm space-y-1">
+                {codeErrors.slice(0, 5).map((diagnostic, idx) => (
+                  <p key={idx} className="text-xs font-mono">
+                    {diagnostic.file}:{diagnostic.line}:{diagnostic.column} {diagnostic.message}
+                  </p>
+                ))}
+                {codeErrors.length > 5 && (
+                  <p className="text-xs text-muted-foreground">and {codeErrors.length - 5} more</p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          )}
+          {repaired && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="outline" className="gap-1 cursor-default" data-testid={`badge-repaired-${agentType}`}>
+                  <Wrench className="w-3 h-3" />
+                  Repaired
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-sm space-y-1">
+                {repairs.map(repair => (
+                  <p key={repair.attempt} className="text-xs">
+                    Attempt {repair.attempt}: {repair.accepted
+                      ? `fixed ${repair.diagnostics.length - repair.remainingErrors} of ${repair.diagnostics.length} errors`
+                      : 'discarded, no improvement'}
+                    {repair.files.length > 0 && <> in <span className="font-mono">{repair.files.join(', ')}</span></>}
+                    {repair.summary && ` - ${repair.summary}`}
+                  </p>
+                ))}
+              </TooltipContent>
+            </Tooltip>
+          )}
+          {testRun && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge
+                  variant={testRun.status === 'passed' ? 'outline' : 'destructive'}
+                  className="gap-1 cursor-default"
+                  data-testid={`badge-tests-${agentType}`}
+                >
+                  <FlaskConical className="w-3 h-3" />
+                  {getTestRunLabel(testRun)}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-md space-y-1">
+                <p className="text-xs">
+                  {testRun.passed} passed, {testRun.failed} failed, {testRun.skipped} skipped in {testRun.testFiles.length} file{testRun.testFiles.length === 1 ? '' : 's'} ({(testRun.durationMs / 1000).toFixed(1)}s)
+                </p>
+                {testRun.failures.slice(0, 5).map((failure, idx) => (
+                  <div key={idx} className="text-xs">
+                    <p className="font-semibold">{failure.file} - {failure.name}</p>
+                    <p className="font-mono whitespace-pre-wrap">{failure.message}</p>
+                  </div>
+                ))}
+                {testRun.failures.length > 5 && (
+                  <p className="text-xs text-muted-foreground">and {testRun.failures.length - 5} more</p>
+                )}
+                {testRun.failures.length === 0 && testRun.status !== 'passed' && testRun.output && (
+                  <p className="text-xs font-mono whitespace-pre-wrap line-clamp-6">{testRun.output}</p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          )}
           {getStatusBadge()}
         </div>
       </CardHeader>
@@ -123,6 +244,9 @@ export default function AgentCard({
           <ScrollArea className="flex-1 rounded-lg bg-muted p-4">
             <p className="text-sm leading-relaxed pr-4" data-testid={`text-agent-message-${agentType}`}>
               {message}
+              {status === 'streaming' && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" />
+              )}
             </p>
           </ScrollArea>
         </CardContent>
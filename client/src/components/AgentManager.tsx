@@ -0,0 +1,456 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAgents, usePipeline, getAgentIcon } from "@/hooks/use-agents";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { validatePipeline } from "@shared/pipeline";
+import type { AgentColor, AgentDefinition, Pipeline } from "@shared/schema";
+
+interface AgentManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type AgentEmotion = NonNullable<AgentDefinition['voice']['emotion']>;
+const EMOTIONS: AgentEmotion[] = ['neutral', 'happy', 'sad', 'angry', 'fearful', 'disgusted', 'surprised'];
+const COLORS: AgentColor[] = ['blue', 'purple', 'pink', 'green', 'orange', 'red', 'teal', 'yellow', 'slate'];
+
+interface AgentFormState {
+  name: string;
+  role: string;
+  systemPrompt: string;
+  demoPrompt: string;
+  voiceId: string;
+  // "es=voice-id, ja=voice-id"
+  languageVoices: string;
+  emotion: AgentEmotion;
+  speed: string;
+  color: AgentColor;
+  avatar: string;
+  position: string;
+}
+
+const EMPTY_FORM: AgentFormState = {
+  name: '',
+  role: '',
+  systemPrompt: '',
+  demoPrompt: '',
+  voiceId: '',
+  languageVoices: '',
+  emotion: 'neutral',
+  speed: '1',
+  color: 'slate',
+  avatar: '',
+  position: '2',
+};
+
+function toFormState(agent: AgentDefinition): AgentFormState {
+  return {
+    name: agent.name,
+    role: agent.role,
+    systemPrompt: agent.systemPrompt,
+    demoPrompt: agent.demoPrompt,
+    voiceId: agent.voice.voiceId || '',
+    languageVoices: Object.entries(agent.voice.languageVoiceIds || {}).map(([language, voiceId]) => `${language}=${voiceId}`).join(', '),
+    emotion: agent.voice.emotion || 'neutral',
+    speed: String(agent.voice.speed ?? 1),
+    color: agent.color,
+    avatar: agent.avatar || '',
+    position: String(agent.position),
+  };
+}
+
+function parseLanguageVoices(text: string): Record<string, string> | undefined {
+  const entries = text
+    .split(',')
+    .map(pair => pair.split('=').map(part => part.trim()))
+    .filter(([language, voiceId]) => language && voiceId)
+    .map(([language, voiceId]) => [language.toLowerCase(), voiceId]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function toPayload(form: AgentFormState) {
+  return {
+    name: form.name.trim(),
+    role: form.role.trim(),
+    systemPrompt: form.systemPrompt,
+    demoPrompt: form.demoPrompt,
+    voice: {
+      voiceId: form.voiceId.trim() || undefined,
+      languageVoiceIds: parseLanguageVoices(form.languageVoices),
+      emotion: form.emotion,
+      speed: parseFloat(form.speed) || 1,
+    },
+    color: form.color,
+    avatar: form.avatar.trim() || undefined,
+    position: parseInt(form.position) || 0,
+  };
+}
+
+export default function AgentManager({ open, onOpenChange }: AgentManagerProps) {
+  const { toast } = useToast();
+  const { agents } = useAgents();
+  const { pipeline } = usePipeline();
+  // null = creating a new agent
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<AgentFormState>(EMPTY_FORM);
+
+  const selectedAgent = agents.find(agent => agent.id === selectedId);
+
+  const selectAgent = (agent: AgentDefinition | null) => {
+    setSelectedId(agent?.id ?? null);
+    setForm(agent ? toFormState(agent) : EMPTY_FORM);
+  };
+
+  const updateField = <K extends keyof AgentFormState>(field: K, value: AgentFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = selectedId
+        ? await apiRequest('PUT', `/api/agents/${selectedId}`, toPayload(form))
+        : await apiRequest('POST', '/api/agents', toPayload(form));
+      return res.json() as Promise<AgentDefinition>;
+    },
+    onSuccess: (agent) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/agents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/pipeline'] });
+      selectAgent(agent);
+      toast({
+        title: "Agent Saved",
+        description: `${agent.name} will join the next discussion.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save agent",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/agents/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/agents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/pipeline'] });
+      selectAgent(null);
+      toast({ title: "Agent Deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete agent",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Saving an edited pipeline (or null to reset to the position-derived default)
+  const pipelineMutation = useMutation({
+    mutationFn: async (next: Pipeline | null) => {
+      const res = next
+        ? await apiRequest('PUT', '/api/pipeline', next)
+        : await apiRequest('DELETE', '/api/pipeline');
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pipeline'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update pipeline",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const withDependency = (from: string, to: string, enabled: boolean): Pipeline => ({
+    nodes: pipeline.nodes,
+    edges: enabled
+      ? [...pipeline.edges, { from, to }]
+      : pipeline.edges.filter(edge => !(edge.from === from && edge.to === to)),
+  });
+
+  const dependsOn = (from: string, to: string) =>
+    pipeline.edges.some(edge => edge.from === from && edge.to === to);
+
+  const canSave = form.name.trim() && form.role.trim() && form.systemPrompt.trim() && form.demoPrompt.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl" data-testid="dialog-agent-manager">
+        <DialogHeader>
+          <DialogTitle>Manage Agents</DialogTitle>
+          <DialogDescription>
+            Add agents to the squad or tune the built-in ones. Each agent starts as soon as the agents it depends on have finished.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[14rem_1fr] gap-4 min-h-0">
+          <div className="space-y-2">
+            <Button
+              variant={selectedId === null ? "default" : "outline"}
+              size="sm"
+              className="w-full gap-2"
+              onClick={() => selectAgent(null)}
+              data-testid="button-new-agent"
+            >
+              <Plus className="w-4 h-4" />
+              New Agent
+            </Button>
+            <ScrollArea className="h-[28rem]">
+              <div className="space-y-1 pr-2">
+                {agents.map(agent => {
+                  const Icon = getAgentIcon(agent.id);
+                  return (
+                    <button
+                      key={agent.id}
+                      onClick={() => selectAgent(agent)}
+                      className={`w-full flex items-center gap-2 p-2 rounded-md text-left text-sm hover-elevate ${
+                        selectedId === agent.id ? 'bg-muted' : ''
+                      }`}
+                      data-testid={`button-select-agent-${agent.id}`}
+                    >
+                      <Icon className="w-4 h-4 shrink-0" />
+                      <span className="flex-1 truncate">{agent.name}</span>
+                      <Badge variant="outline" className="text-xs">{agent.position}</Badge>
+                    </button>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <ScrollArea className="h-[31rem]">
+            <div className="space-y-3 pr-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="agent-name">Name</Label>
+                  <Input
+                    id="agent-name"
+                    value={form.name}
+                    onChange={(e) => updateField('name', e.target.value)}
+                    placeholder="DevOps Agent"
+                    data-testid="input-agent-name"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="agent-role">Role</Label>
+                  <Input
+                    id="agent-role"
+                    value={form.role}
+                    onChange={(e) => updateField('role', e.target.value)}
+                    placeholder="CI/CD & Infrastructure"
+                    data-testid="input-agent-role"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="agent-system-prompt">System Prompt</Label>
+                <Textarea
+                  id="agent-system-prompt"
+                  value={form.systemPrompt}
+                  onChange={(e) => updateField('systemPrompt', e.target.value)}
+                  rows={6}
+                  data-testid="input-agent-system-prompt"
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="agent-demo-prompt">Demo Mode Prompt</Label>
+                <Textarea
+                  id="agent-demo-prompt"
+                  value={form.demoPrompt}
+                  onChange={(e) => updateField('demoPrompt', e.target.value)}
+                  rows={3}
+                  data-testid="input-agent-demo-prompt"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="agent-voice">Voice ID</Label>
+                  <Input
+                    id="agent-voice"
+                    value={form.voiceId}
+                    onChange={(e) => updateField('voiceId', e.target.value)}
+                    placeholder="male-qn-qingse"
+                    data-testid="input-agent-voice"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Emotion</Label>
+                  <Select value={form.emotion} onValueChange={(value) => updateField('emotion', value as AgentEmotion)}>
+                    <SelectTrigger data-testid="select-agent-emotion">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EMOTIONS.map(emotion => (
+                        <SelectItem key={emotion} value={emotion}>{emotion}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="agent-speed">Speed</Label>
+                  <Input
+                    id="agent-speed"
+                    type="number"
+                    step="0.05"
+                    min="0.5"
+                    max="2"
+                    value={form.speed}
+                    onChange={(e) => updateField('speed', e.target.value)}
+                    data-testid="input-agent-speed"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="agent-language-voices">Voices per language</Label>
+                <Input
+                  id="agent-language-voices"
+                  value={form.languageVoices}
+                  onChange={(e) => updateField('languageVoices', e.target.value)}
+                  placeholder="es=voice-id, ja=voice-id"
+                  data-testid="input-agent-language-voices"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Used instead of the voice ID when the squad speaks that language.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label>Color</Label>
+                  <Select value={form.color} onValueChange={(value) => updateField('color', value as AgentColor)}>
+                    <SelectTrigger data-testid="select-agent-color">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLORS.map(color => (
+                        <SelectItem key={color} value={color}>{color}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="agent-avatar">Avatar</Label>
+                  <Input
+                    id="agent-avatar"
+                    value={form.avatar}
+                    onChange={(e) => updateField('avatar', e.target.value)}
+                    placeholder="🚀 or image URL"
+                    data-testid="input-agent-avatar"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="agent-position">Pipeline Position</Label>
+                  <Input
+                    id="agent-position"
+                    type="number"
+                    min="0"
+                    value={form.position}
+                    onChange={(e) => updateField('position', e.target.value)}
+                    data-testid="input-agent-position"
+                  />
+                </div>
+              </div>
+
+              {selectedAgent && (
+                <div className="space-y-2" data-testid="section-agent-dependencies">
+                  <div className="flex items-center justify-between">
+                    <Label>Depends On</Label>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2 h-7"
+                      onClick={() => pipelineMutation.mutate(null)}
+                      disabled={pipeline.isDefault || pipelineMutation.isPending}
+                      data-testid="button-reset-pipeline"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      Reset Pipeline
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {pipeline.isDefault
+                      ? 'Default pipeline: each agent depends on all agents at lower positions.'
+                      : 'Custom pipeline: new agents are attached by position.'}
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {agents.filter(agent => agent.id !== selectedAgent.id).map(agent => {
+                      const checked = dependsOn(agent.id, selectedAgent.id);
+                      // Disable dependencies that would create a cycle
+                      const allowed = checked || !validatePipeline(withDependency(agent.id, selectedAgent.id, true));
+                      return (
+                        <label key={agent.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={checked}
+                            disabled={!allowed || pipelineMutation.isPending}
+                            onCheckedChange={(value) =>
+                              pipelineMutation.mutate(withDependency(agent.id, selectedAgent.id, value === true))
+                            }
+                            data-testid={`checkbox-depends-on-${agent.id}`}
+                          />
+                          <span className={allowed ? '' : 'text-muted-foreground'}>{agent.name}</span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between pt-2">
+                {selectedAgent && !selectedAgent.builtIn ? (
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => deleteMutation.mutate(selectedAgent.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid="button-delete-agent"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </Button>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {selectedAgent ? 'Built-in agents can be edited but not deleted.' : ''}
+                  </span>
+                )}
+                <Button
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => saveMutation.mutate()}
+                  disabled={!canSave || saveMutation.isPending}
+                  data-testid="button-save-agent"
+                >
+                  <Save className="w-4 h-4" />
+                  {selectedId ? 'Save Changes' : 'Create Agent'}
+                </Button>
+              </div>
+            </div>
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
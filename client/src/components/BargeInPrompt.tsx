@@ -0,0 +1,68 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MessageSquareReply, Mic, X } from "lucide-react";
+import type { BargeInStatus } from "@/hooks/use-barge-in";
+
+interface BargeInPromptProps {
+  status: BargeInStatus;
+  // What the user said over the agent, waiting for confirmation
+  utterance: string | null;
+  isProcessing: boolean;
+  onSend: (text: string) => void;
+  onDismiss: () => void;
+}
+
+export default function BargeInPrompt({ status, utterance, isProcessing, onSend, onDismiss }: BargeInPromptProps) {
+  if (!utterance) {
+    if (status !== 'hearing' && status !== 'transcribing') return null;
+    return (
+      <Card className="border-primary/50 bg-primary/5" data-testid="card-barge-in-listening">
+        <CardContent className="py-3 px-4 flex items-center gap-3">
+          <Mic className="w-5 h-5 text-primary animate-pulse" />
+          <p className="text-sm text-muted-foreground">
+            {status === 'hearing' ? "Listening - the agent's audio is lowered..." : 'Transcribing what you said...'}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="border-primary/50 bg-primary/5" data-testid="card-barge-in">
+      <CardContent className="py-3 px-4 space-y-3">
+        <div className="flex items-start gap-3">
+          <MessageSquareReply className="w-5 h-5 text-primary mt-0.5 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium">You interrupted with:</p>
+            <p className="text-sm text-muted-foreground italic break-words" data-testid="text-barge-in-utterance">
+              "{utterance}"
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="shrink-0"
+            onClick={onDismiss}
+            title="Dismiss"
+            data-testid="button-barge-in-dismiss"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex items-center justify-end gap-3">
+          {isProcessing && (
+            <p className="text-xs text-muted-foreground">The squad is still working - send once it finishes.</p>
+          )}
+          <Button
+            size="sm"
+            onClick={() => onSend(utterance)}
+            disabled={isProcessing}
+            data-testid="button-barge-in-send"
+          >
+            Send as follow-up
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,17 +1,53 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Copy, Check } from "lucide-react";
-import { useState } from "react";
+import { Copy, Check, GitCompare } from "lucide-react";
+import { useMemo, useState } from "react";
+import { highlightLines, type HighlightedLine } from "@/lib/highlight";
+import { sideBySideDiff, type DiffCell } from "@/lib/code-diff";
 
 interface CodeDisplayProps {
   code: string;
   language: string;
   filename?: string;
+  // The version from the previous turn or run - enables the side-by-side diff when it differs
+  previousCode?: string;
 }
 
-export default function CodeDisplay({ code, language, filename }: CodeDisplayProps) {
+function CodeLine({ line }: { line: HighlightedLine | undefined }) {
+  if (!line || line.length === 0) return <>{' '}</>;
+  return (
+    <>
+      {line.map((segment, idx) => (
+        <span key={idx} className={segment.className}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
+
+function DiffSide({ cell, lines, change }: { cell?: DiffCell; lines: HighlightedLine[]; change?: 'added' | 'removed' }) {
+  const background = change === 'added' ? 'bg-green-500/15' : change === 'removed' ? 'bg-red-500/15' : '';
+  return (
+    <>
+      <td className={`select-none px-2 text-right align-top text-gray-500 ${background}`}>{cell?.number}</td>
+      <td className={`px-2 align-top whitespace-pre-wrap break-all ${cell ? background : 'bg-gray-800/40'}`}>
+        {cell && <CodeLine line={lines[cell.number - 1]} />}
+      </td>
+    </>
+  );
+}
+
+export default function CodeDisplay({ code, language, filename, previousCode }: CodeDisplayProps) {
   const [copied, setCopied] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const changed = previousCode !== undefined && previousCode !== code;
+
+  const lines = useMemo(() => highlightLines(code, language), [code, language]);
+  const previousLines = useMemo(
+    () => (changed ? highlightLines(previousCode!, language) : []),
+    [changed, previousCode, language]
+  );
+  const diff = useMemo(() => (changed ? sideBySideDiff(previousCode!, code) : null), [changed, previousCode, code]);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(code);
@@ -23,29 +59,79 @@ export default function CodeDisplay({ code, language, filename }: CodeDisplayPro
   return (
     <Card className="overflow-hidden" data-testid="card-code-display">
       <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 py-3 px-4 bg-muted/50">
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2 min-w-0">
           <Badge variant="secondary" className="text-xs font-mono">
             {language}
           </Badge>
           {filename && (
-            <span className="text-xs text-muted-foreground font-mono">{filename}</span>
+            <span className="text-xs text-muted-foreground font-mono truncate">{filename}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {diff && (
+            <Button
+              size="sm"
+              variant={showDiff ? "secondary" : "ghost"}
+              className="gap-1 h-8 font-mono text-xs"
+              onClick={() => setShowDiff(!showDiff)}
+              title={showDiff ? "Show the current version" : "Compare with the previous version"}
+              data-testid="button-toggle-diff"
+            >
+              <GitCompare className="w-4 h-4" />
+              <span className="text-green-600 dark:text-green-400">+{diff.added}</span>
+              <span className="text-red-600 dark:text-red-400">-{diff.removed}</span>
+            </Button>
           )}
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={handleCopy}
+            data-testid="button-copy-code"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          </Button>
         </div>
-        <Button
-          size="icon"
-          variant="ghost"
-          onClick={handleCopy}
-          data-testid="button-copy-code"
-        >
-          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-        </Button>
       </CardHeader>
       <CardContent className="p-0">
-        <pre className="p-4 overflow-x-auto bg-gray-950 dark:bg-gray-900">
-          <code className="text-sm font-mono text-gray-100" data-testid="text-code-content">
-            {code}
-          </code>
-        </pre>
+        {showDiff && diff ? (
+          <div className="max-h-[32rem] overflow-auto py-2 bg-gray-950 dark:bg-gray-900" data-testid="diff-code-content">
+            <table className="w-full table-fixed border-collapse text-sm font-mono text-gray-100">
+              <colgroup>
+                <col className="w-10" />
+                <col />
+                <col className="w-10" />
+                <col />
+              </colgroup>
+              <tbody>
+                {diff.rows.map((row, idx) => (
+                  <tr key={idx}>
+                    <DiffSide
+                      cell={row.left}
+                      lines={previousLines}
+                      change={row.kind === 'removed' || row.kind === 'changed' ? 'removed' : undefined}
+                    />
+                    <DiffSide
+                      cell={row.right}
+                      lines={lines}
+                      change={row.kind === 'added' || row.kind === 'changed' ? 'added' : undefined}
+                    />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <pre className="max-h-[32rem] py-4 overflow-auto bg-gray-950 dark:bg-gray-900">
+            <code className="table min-w-full text-sm font-mono text-gray-100" data-testid="text-code-content">
+              {lines.map((line, idx) => (
+                <span key={idx} className="table-row">
+                  <span className="table-cell select-none pl-4 pr-4 text-right text-gray-500 w-px">{idx + 1}</span>
+                  <span className="table-cell pr-4 whitespace-pre"><CodeLine line={line} /></span>
+                </span>
+              ))}
+            </code>
+          </pre>
+        )}
       </CardContent>
     </Card>
   );
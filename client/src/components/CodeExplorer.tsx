@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { FileCode, Folder } from "lucide-react";
+import CodeDisplay from "@/components/CodeDisplay";
+import type { CodeFile } from "@shared/code-files";
+
+interface CodeExplorerProps {
+  files: CodeFile[];
+  // Files from the previous turn or run - regenerated files get a diff against them
+  previousFiles?: CodeFile[];
+  // Narrow layout for the sidebar: tree above the viewer instead of beside it
+  compact?: boolean;
+}
+
+type FileStatus = 'new' | 'changed' | undefined;
+
+interface AgentGroup {
+  agentId: string;
+  agentName: string;
+  // Files by directory ('' for the project root), directories sorted
+  directories: Array<{ directory: string; files: CodeFile[] }>;
+}
+
+const splitPath = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  return { directory: slash >= 0 ? path.slice(0, slash + 1) : '', name: path.slice(slash + 1) };
+};
+
+// Group by the agent whose version is shown, then by directory, in pipeline order
+function groupFiles(files: CodeFile[]): AgentGroup[] {
+  const groups = new Map<string, AgentGroup & { byDirectory: Map<string, CodeFile[]> }>();
+  for (const file of files) {
+    let group = groups.get(file.agentId);
+    if (!group) {
+      group = { agentId: file.agentId, agentName: file.agentName, directories: [], byDirectory: new Map() };
+      groups.set(file.agentId, group);
+    }
+    const { directory } = splitPath(file.path);
+    group.byDirectory.set(directory, [...(group.byDirectory.get(directory) || []), file]);
+  }
+
+  return Array.from(groups.values()).map(({ byDirectory, ...group }) => ({
+    ...group,
+    directories: Array.from(byDirectory.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([directory, directoryFiles]) => ({
+        directory,
+        files: [...directoryFiles].sort((a, b) => a.path.localeCompare(b.path)),
+      })),
+  }));
+}
+
+export default function CodeExplorer({ files, previousFiles = [], compact = false }: CodeExplorerProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(files[0]?.path ?? null);
+  const groups = useMemo(() => groupFiles(files), [files]);
+  const previousByPath = useMemo(() => new Map(previousFiles.map(file => [file.path, file])), [previousFiles]);
+
+  // Keep the selection valid when a new turn produces a different set of files
+  useEffect(() => {
+    if (!files.some(file => file.path === selectedPath)) {
+      setSelectedPath(files[0]?.path ?? null);
+    }
+  }, [files, selectedPath]);
+
+  const statusOf = (file: CodeFile): FileStatus => {
+    if (previousFiles.length === 0) return undefined;
+    const previous = previousByPath.get(file.path);
+    if (!previous) return 'new';
+    return previous.code !== file.code ? 'changed' : undefined;
+  };
+
+  const selected = files.find(file => file.path === selectedPath);
+
+  return (
+    <div className={compact ? 'space-y-4' : 'grid grid-cols-[15rem_1fr] gap-4 items-start'} data-testid="code-explorer">
+      <nav
+        className={`rounded-md border p-2 text-sm space-y-3 overflow-y-auto ${compact ? 'max-h-60' : 'max-h-[36rem]'}`}
+        data-testid="code-file-tree"
+      >
+        {groups.map(group => (
+          <div key={group.agentId} className="space-y-1">
+            <div className="px-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              {group.agentName}
+            </div>
+            {group.directories.map(({ directory, files: directoryFiles }) => (
+              <div key={directory || '/'}>
+                {directory && (
+                  <div className="flex items-center gap-1 px-2 py-0.5 text-xs text-muted-foreground font-mono">
+                    <Folder className="w-3 h-3 shrink-0" />
+                    <span className="truncate">{directory}</span>
+                  </div>
+                )}
+                {directoryFiles.map(file => {
+                  const status = statusOf(file);
+                  const others = file.contributors.filter(name => name !== file.agentName);
+                  return (
+                    <button
+                      key={file.path}
+                      type="button"
+                      onClick={() => setSelectedPath(file.path)}
+                      title={others.length > 0 ? `${file.path} (also: ${others.join(', ')})` : file.path}
+                      className={`flex w-full items-center gap-1.5 rounded px-2 py-1 text-left font-mono text-xs hover-elevate ${
+                        directory ? 'pl-5' : ''
+                      } ${file.path === selectedPath ? 'bg-accent text-accent-foreground' : ''}`}
+                      data-testid={`button-code-file-${file.path}`}
+                    >
+                      <FileCode className="w-3.5 h-3.5 shrink-0" />
+                      <span className="truncate flex-1">{splitPath(file.path).name}</span>
+                      {status && (
+                        <Badge variant={status === 'new' ? 'secondary' : 'outline'} className="px-1 py-0 text-[10px]">
+                          {status}
+                        </Badge>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        ))}
+      </nav>
+
+      {selected && (
+        <CodeDisplay
+          key={selected.path}
+          code={selected.code}
+          language={selected.language}
+          filename={selected.path}
+          previousCode={previousByPath.get(selected.path)?.code}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, Loader2, MessagesSquare, PenLine, Scale } from "lucide-react";
+import { getAgentIcon } from "@/hooks/use-agents";
+import type { AgentStatus } from "@/components/AgentCard";
+import type { AgentColor, AgentDefinition } from "@shared/schema";
+
+export interface DebateTimelineEntry {
+  agentId: string;
+  status: AgentStatus;
+  message: string;
+}
+
+export interface DebateTimelineRound {
+  round: number;
+  entries: DebateTimelineEntry[];
+}
+
+interface DebateTimelineProps {
+  agents: AgentDefinition[];
+  rounds: DebateTimelineRound[];
+  consensus?: string | null;
+  consensusStatus?: 'idle' | 'thinking' | 'complete';
+}
+
+const borderColors: Record<AgentColor, string> = {
+  blue: 'border-blue-500',
+  purple: 'border-purple-500',
+  pink: 'border-pink-500',
+  green: 'border-green-500',
+  orange: 'border-orange-500',
+  red: 'border-red-500',
+  teal: 'border-teal-500',
+  yellow: 'border-yellow-500',
+  slate: 'border-slate-500',
+};
+
+const textColors: Record<AgentColor, string> = {
+  blue: 'text-blue-600 dark:text-blue-400',
+  purple: 'text-purple-600 dark:text-purple-400',
+  pink: 'text-pink-600 dark:text-pink-400',
+  green: 'text-green-600 dark:text-green-400',
+  orange: 'text-orange-600 dark:text-orange-400',
+  red: 'text-red-600 dark:text-red-400',
+  teal: 'text-teal-600 dark:text-teal-400',
+  yellow: 'text-yellow-600 dark:text-yellow-400',
+  slate: 'text-slate-600 dark:text-slate-400',
+};
+
+// Long turns are collapsed to keep the thread scannable
+const PREVIEW_LENGTH = 400;
+
+function TimelineEntry({ entry, agent, round }: { entry: DebateTimelineEntry; agent?: AgentDefinition; round: number }) {
+  const [expanded, setExpanded] = useState(false);
+  const Icon = getAgentIcon(entry.agentId);
+  const color = agent?.color || 'slate';
+  const isLong = entry.message.length > PREVIEW_LENGTH;
+  const text = expanded || !isLong ? entry.message : entry.message.slice(0, PREVIEW_LENGTH) + '…';
+
+  return (
+    <div
+      className={`border-l-2 pl-4 py-1 space-y-1 ${borderColors[color]}`}
+      data-testid={`debate-entry-${round}-${entry.agentId}`}
+    >
+      <div className="flex items-center gap-2">
+        <Icon className={`w-4 h-4 ${textColors[color]}`} />
+        <span className="text-sm font-medium">{agent?.name || entry.agentId}</span>
+        {entry.status === 'thinking' && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+        {entry.status === 'streaming' && <PenLine className="w-3 h-3 animate-pulse text-muted-foreground" />}
+      </div>
+      {text && (
+        <p className="text-sm leading-relaxed whitespace-pre-wrap text-muted-foreground">{text}</p>
+      )}
+      {isLong && entry.status === 'complete' && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => setExpanded(!expanded)}
+          data-testid={`button-expand-debate-${round}-${entry.agentId}`}
+        >
+          {expanded ? 'Show less' : 'Show more'}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default function DebateTimeline({ agents, rounds, consensus, consensusStatus = 'idle' }: DebateTimelineProps) {
+  const agentsById = new Map(agents.map(agent => [agent.id, agent]));
+
+  return (
+    <div className="space-y-4" data-testid="debate-timeline">
+      <h3 className="text-2xl font-semibold flex items-center gap-2">
+        <MessagesSquare className="w-6 h-6" />
+        Debate
+      </h3>
+
+      <div className="space-y-6">
+        {rounds.map(round => (
+          <div key={round.round} className="space-y-3" data-testid={`debate-round-${round.round}`}>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">Round {round.round}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {round.round === 1 ? 'First pass' : 'Critique & revision'}
+              </span>
+              {round.entries.every(entry => entry.status === 'complete') && (
+                <Check className="w-3 h-3 text-muted-foreground" />
+              )}
+            </div>
+            <div className="space-y-3 ml-2">
+              {round.entries.map(entry => (
+                <TimelineEntry
+                  key={entry.agentId}
+                  entry={entry}
+                  agent={agentsById.get(entry.agentId)}
+                  round={round.round}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {consensusStatus !== 'idle' && (
+        <Card className="border-primary/50 bg-primary/5" data-testid="card-debate-consensus">
+          <CardHeader className="flex flex-row items-center gap-2 space-y-0 pb-2">
+            <Scale className="w-5 h-5 text-primary" />
+            <h4 className="font-semibold">Consensus</h4>
+            {consensusStatus === 'thinking' && (
+              <Badge variant="secondary" className="gap-1"><Loader2 className="w-3 h-3 animate-spin" />Summarizing</Badge>
+            )}
+          </CardHeader>
+          {consensus && (
+            <CardContent>
+              <p className="text-sm leading-relaxed whitespace-pre-wrap" data-testid="text-debate-consensus">{consensus}</p>
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
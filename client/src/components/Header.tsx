@@ -1,16 +1,44 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { Plus, Settings, Video } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye, LogOut, Plus, Settings, User, Users, Video } from "lucide-react";
+import type { WorkspaceRole } from "@shared/schema";
 
 interface HeaderProps {
   onNewConversation?: () => void;
   onSettings?: () => void;
   demoMode?: boolean;
   onDemoModeToggle?: (enabled: boolean) => void;
+  // Critique rounds after the first pass (0 = debate off)
+  debateRounds?: number;
+  maxDebateRounds?: number;
+  onDebateRoundsChange?: (rounds: number) => void;
+  username?: string;
+  onLogout?: () => void;
+  workspaces?: Array<{ id: string; name: string; role: WorkspaceRole }>;
+  activeWorkspaceId?: string;
+  onWorkspaceChange?: (workspaceId: string) => void;
+  onManageWorkspaces?: () => void;
 }
 
-export default function Header({ onNewConversation, onSettings, demoMode = false, onDemoModeToggle }: HeaderProps) {
+export default function Header({
+  onNewConversation,
+  onSettings,
+  demoMode = false,
+  onDemoModeToggle,
+  debateRounds = 0,
+  maxDebateRounds = 3,
+  onDebateRoundsChange,
+  username,
+  onLogout,
+  workspaces = [],
+  activeWorkspaceId,
+  onWorkspaceChange,
+  onManageWorkspaces
+}: HeaderProps) {
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId);
+
   return (
     <header className="h-16 border-b flex items-center justify-between px-6" data-testid="header-main">
       <div className="flex items-center gap-3">
@@ -20,6 +48,37 @@ export default function Header({ onNewConversation, onSettings, demoMode = false
         <h1 className="text-xl font-semibold tracking-tight" data-testid="text-app-title">
           Cerebral-Voice Squad
         </h1>
+        {workspaces.length > 0 && (
+          <div className="flex items-center gap-1 ml-2">
+            <Select value={activeWorkspaceId} onValueChange={onWorkspaceChange}>
+              <SelectTrigger className="w-48 h-8" data-testid="select-workspace">
+                <SelectValue placeholder="Workspace" />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces.map(workspace => (
+                  <SelectItem key={workspace.id} value={workspace.id}>
+                    {workspace.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onManageWorkspaces}
+              title="Manage workspaces"
+              data-testid="button-manage-workspaces"
+            >
+              <Users className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {activeWorkspace?.role === 'viewer' && (
+          <Badge variant="outline" className="gap-1" data-testid="badge-viewer">
+            <Eye className="w-3 h-3" />
+            View only
+          </Badge>
+        )}
         {demoMode && (
           <Badge variant="secondary" className="gap-1">
             <Video className="w-3 h-3" />
@@ -29,6 +88,25 @@ export default function Header({ onNewConversation, onSettings, demoMode = false
       </div>
       
       <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">🗣️ Debate</span>
+          <Select
+            value={String(debateRounds)}
+            onValueChange={(value) => onDebateRoundsChange?.(parseInt(value))}
+          >
+            <SelectTrigger className="w-28 h-8" data-testid="select-debate-rounds">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="0">Off</SelectItem>
+              {Array.from({ length: maxDebateRounds }, (_, idx) => idx + 1).map(rounds => (
+                <SelectItem key={rounds} value={String(rounds)}>
+                  {rounds} round{rounds > 1 ? 's' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <div className="flex items-center gap-2">
           <label htmlFor="demo-mode" className="text-sm text-muted-foreground cursor-pointer">
             🎬 Demo Mode
@@ -58,6 +136,23 @@ export default function Header({ onNewConversation, onSettings, demoMode = false
         >
           <Settings className="w-4 h-4" />
         </Button>
+        {username && (
+          <div className="flex items-center gap-2 border-l pl-4">
+            <span className="text-sm text-muted-foreground flex items-center gap-1" data-testid="text-username">
+              <User className="w-4 h-4" />
+              {username}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onLogout}
+              title="Log out"
+              data-testid="button-logout"
+            >
+              <LogOut className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
       </div>
     </header>
   );
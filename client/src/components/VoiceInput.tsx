@@ -1,12 +1,45 @@
-import { Mic, Square, AlertCircle, Volume2 } from "lucide-react";
+import { Mic, Square, AlertCircle, Volume2, Ear } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { useHandsFree, type HandsFreeStatus } from "@/hooks/use-hands-free";
+import { DEFAULT_VOICE_SETTINGS, type VoiceSettings } from "@/hooks/use-voice-settings";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SQUAD_LANGUAGES } from "@shared/languages";
+import { recordingMimeType, supportsRecording, transcribeRecording } from "@/lib/speechToText";
+import type { CaptureMode } from "@/lib/utteranceListener";
 
 interface VoiceInputProps {
   onTranscript: (text: string) => void;
   isProcessing?: boolean;
+  voiceSettings?: VoiceSettings;
+  onVoiceSettingsChange?: (update: Partial<VoiceSettings>) => void;
+  // Hands-free listening pauses while the agents talk and resumes when they finish
+  isAgentSpeaking?: boolean;
+}
+
+function handsFreeStatusText(status: HandsFreeStatus, wakePhrase: string): string {
+  const phrase = wakePhrase.trim();
+  switch (status) {
+    case 'starting':
+      return 'Starting hands-free listening...';
+    case 'waiting':
+      return phrase ? `Say "${phrase}" followed by your request` : 'Listening - just say your request';
+    case 'awake':
+      return "I'm listening - what should the squad do?";
+    case 'hearing':
+      return 'Hearing you...';
+    case 'transcribing':
+      return 'Got it, transcribing...';
+    case 'paused':
+      return 'Paused while the squad works - listening resumes automatically';
+    default:
+      return '';
+  }
 }
 
 declare global {
@@ -16,7 +49,13 @@ declare global {
   }
 }
 
-export default function VoiceInput({ onTranscript, isProcessing = false }: VoiceInputProps) {
+export default function VoiceInput({
+  onTranscript,
+  isProcessing = false,
+  voiceSettings = DEFAULT_VOICE_SETTINGS,
+  onVoiceSettingsChange,
+  isAgentSpeaking = false,
+}: VoiceInputProps) {
   const [isListening, setIsListening] = useState(false);
   const [isAutoRestarting, setIsAutoRestarting] = useState(false);
   const [interimTranscript, setInterimTranscript] = useState("");
@@ -24,7 +63,14 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
   const [errorMessage, setErrorMessage] = useState("");
   const [audioLevel, setAudioLevel] = useState(0);
   const [showMicTest, setShowMicTest] = useState(false);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('speech-recognition');
+  const [isTranscribing, setIsTranscribing] = useState(false);
   const recognitionRef = useRef<any>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const recordedChunksRef = useRef<Blob[]>([]);
+  // Transcription finishes after the recording stops - always call the latest callback
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const fullTranscriptRef = useRef<string>("");
@@ -35,6 +81,15 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const { toast } = useToast();
+  const handsFreeOn = isSupported && voiceSettings.handsFree;
+  const handsFree = useHandsFree({
+    enabled: handsFreeOn,
+    paused: isProcessing || isAgentSpeaking || isListening || showMicTest || isTranscribing,
+    wakePhrase: voiceSettings.wakePhrase,
+    mode: captureMode,
+    language: voiceSettings.language,
+    onCommand: (text) => onTranscriptRef.current(text),
+  });
 
   useEffect(() => {
     // Check for secure context (HTTPS or localhost)
@@ -51,7 +106,8 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
     if (!SpeechRecognition) {
       console.log("No SpeechRecognition support");
       setIsSupported(false);
-      setErrorMessage("Browser not supported");
+      // Recording + server-side transcription is checked in the effect below
+      setErrorMessage(supportsRecording() ? "Checking server speech-to-text..." : "Browser not supported");
       return;
     }
 
@@ -61,7 +117,7 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
     const recognition = new SpeechRecognition();
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    recognition.lang = voiceSettings.language;
 
     recognition.onstart = () => {
       console.log("Recognition started");
@@ -288,7 +344,46 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [onTranscript, toast]);
+  }, [onTranscript, toast, voiceSettings.language]);
+
+  // Without the Web Speech API, fall back to recording + /api/stt if the server has a provider
+  useEffect(() => {
+    const hasSpeechRecognition = !!(window.SpeechRecognition || window.webkitSpeechRecognition);
+    if (!window.isSecureContext || hasSpeechRecognition || !supportsRecording()) return;
+
+    let cancelled = false;
+    fetch('/api/health')
+      .then(res => res.json())
+      .then((health) => {
+        if (cancelled) return;
+        if (health.sttConfigured) {
+          console.log(`Using server speech-to-text (${health.sttProvider})`);
+          setCaptureMode('recorder');
+          setIsSupported(true);
+          setErrorMessage("");
+        } else {
+          setErrorMessage("Browser not supported and server speech-to-text is not configured");
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setErrorMessage("Browser not supported");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // A recording in progress is dropped (not transcribed) when the component unmounts
+  useEffect(() => {
+    return () => {
+      const recorder = mediaRecorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+    };
+  }, []);
 
   const startAudioLevelMonitoring = (stream: MediaStream) => {
     try {
@@ -331,8 +426,78 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
     setAudioLevel(0);
   };
 
+  // Upload the finished recording and hand the transcript to the parent like a recognition result
+  const transcribe = async (recording: Blob) => {
+    setIsTranscribing(true);
+    try {
+      const { text } = await transcribeRecording(recording, voiceSettings.language);
+      const transcript = text.trim();
+      if (transcript) {
+        console.log("Server transcript:", transcript);
+        onTranscriptRef.current(transcript);
+      } else {
+        toast({
+          title: "No Speech Detected",
+          description: "Nothing was recognised in the recording. Try again a little closer to the microphone.",
+          variant: "destructive",
+        });
+      }
+    } catch (error: any) {
+      console.error("Transcription failed:", error);
+      toast({
+        title: "Transcription Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const startRecording = (stream: MediaStream) => {
+    const mimeType = recordingMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    recordedChunksRef.current = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        recordedChunksRef.current.push(event.data);
+      }
+    };
+    recorder.onstop = () => {
+      console.log("Recording stopped");
+      const recording = new Blob(recordedChunksRef.current, { type: recorder.mimeType || mimeType });
+      recordedChunksRef.current = [];
+      mediaRecorderRef.current = null;
+      setIsListening(false);
+      if (mediaStreamRef.current) {
+        mediaStreamRef.current.getTracks().forEach(track => track.stop());
+        mediaStreamRef.current = null;
+      }
+      if (recording.size > 0) {
+        transcribe(recording);
+      }
+    };
+
+    mediaRecorderRef.current = recorder;
+    // Collect the audio in one-second chunks so a long request never sits in a single buffer
+    recorder.start(1000);
+    setIsListening(true);
+    console.log(`Recording started (${recorder.mimeType || 'default format'})`);
+  };
+
+  const stopCapture = () => {
+    if (captureMode === 'recorder') {
+      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+        mediaRecorderRef.current.stop();
+      }
+    } else {
+      recognitionRef.current?.stop();
+    }
+  };
+
   const handleStart = async () => {
-    if (isProcessing || !isSupported) return;
+    if (isProcessing || !isSupported || isTranscribing) return;
 
     try {
       console.log("Requesting microphone access...");
@@ -349,17 +514,19 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
       isStoppedByUserRef.current = false;
       restartCountRef.current = 0;
       
-      // Start speech recognition
-      console.log("Starting recognition...");
-      recognitionRef.current?.start();
+      if (captureMode === 'recorder') {
+        startRecording(stream);
+      } else {
+        // Start speech recognition
+        console.log("Starting recognition...");
+        recognitionRef.current?.start();
+      }
       
       // Auto-stop after 60 seconds max (increased to allow longer complex requests)
       timeoutRef.current = setTimeout(() => {
         console.log("60 second timeout - stopping");
         isStoppedByUserRef.current = true;
-        if (recognitionRef.current) {
-          recognitionRef.current.stop();
-        }
+        stopCapture();
         stopAudioLevelMonitoring();
       }, 60000);
     } catch (error: any) {
@@ -388,7 +555,7 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
       clearTimeout(timeoutRef.current);
       timeoutRef.current = null;
     }
-    recognitionRef.current?.stop();
+    stopCapture();
     stopAudioLevelMonitoring();
   };
 
@@ -427,14 +594,17 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
   return (
     <div className="flex flex-col items-center gap-4 w-full max-w-md" data-testid="voice-input-container">
       <button
-        onClick={isListening ? handleStop : handleStart}
-        disabled={isProcessing || !isSupported || showMicTest}
+        onClick={handsFreeOn ? () => onVoiceSettingsChange?.({ handsFree: false }) : isListening ? handleStop : handleStart}
+        disabled={handsFreeOn ? !onVoiceSettingsChange : isProcessing || !isSupported || showMicTest || isTranscribing}
+        title={handsFreeOn ? 'Turn off hands-free mode' : undefined}
         className={`
           relative w-20 h-20 rounded-full flex items-center justify-center
           transition-all duration-300
           ${isListening 
             ? 'bg-destructive text-destructive-foreground shadow-lg shadow-destructive/30 animate-pulse scale-105' 
-            : isProcessing || !isSupported || showMicTest
+            : handsFreeOn
+            ? 'bg-primary text-primary-foreground shadow-md hover-elevate active-elevate-2'
+            : isProcessing || !isSupported || showMicTest || isTranscribing
             ? 'bg-muted text-muted-foreground cursor-not-allowed'
             : 'bg-primary text-primary-foreground hover-elevate active-elevate-2 shadow-md'
           }
@@ -443,6 +613,8 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
       >
         {!isSupported ? (
           <AlertCircle className="w-8 h-8" />
+        ) : handsFreeOn ? (
+          <Ear className="w-8 h-8" />
         ) : isListening ? (
           <Square className="w-8 h-8" />
         ) : (
@@ -452,6 +624,9 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
         {isListening && (
           <span className="absolute -inset-1 rounded-full border-4 border-destructive animate-ping opacity-75" />
         )}
+        {handsFreeOn && (handsFree.status === 'awake' || handsFree.status === 'hearing') && (
+          <span className="absolute -inset-1 rounded-full border-4 border-primary animate-ping opacity-75" />
+        )}
       </button>
       
       <div className="text-center min-h-[3rem] w-full px-4">
@@ -459,6 +634,38 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
           <p className="text-sm text-destructive" data-testid="text-voice-status">
             {errorMessage}
           </p>
+        ) : handsFreeOn ? (
+          <div className="space-y-1">
+            <p
+              className={`text-sm ${handsFree.status === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}
+              data-testid="text-voice-status"
+            >
+              {handsFree.status === 'error' ? handsFree.error : handsFreeStatusText(handsFree.status, voiceSettings.wakePhrase)}
+            </p>
+            {handsFree.heard && (
+              <p className="text-xs text-muted-foreground italic" data-testid="text-hands-free-heard">
+                Heard: "{handsFree.heard}"
+              </p>
+            )}
+          </div>
+        ) : isTranscribing ? (
+          <p className="text-sm text-muted-foreground animate-pulse" data-testid="text-voice-status">
+            Transcribing...
+          </p>
+        ) : captureMode === 'recorder' && isListening ? (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground" data-testid="text-voice-status">
+              Recording... Speak now, then click Done.
+            </p>
+            <Button 
+              size="sm" 
+              variant="outline" 
+              onClick={handleStop}
+              data-testid="button-done"
+            >
+              Done Speaking
+            </Button>
+          </div>
         ) : isAutoRestarting ? (
           <div className="space-y-2">
             <p className="text-sm font-semibold text-primary animate-pulse" data-testid="text-auto-restart">
@@ -492,17 +699,17 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
       </div>
 
       {/* Audio Level Meter */}
-      {(isListening || showMicTest) && (
+      {(isListening || showMicTest || (handsFreeOn && handsFree.status !== 'paused' && handsFree.status !== 'error')) && (
         <div className="w-full px-4">
           <div className="space-y-2">
             <div className="flex items-center justify-between text-xs text-muted-foreground">
               <span>Audio Level</span>
-              <span>{Math.round(audioLevel)}%</span>
+              <span>{Math.round(isListening || showMicTest ? audioLevel : handsFree.level)}%</span>
             </div>
             <div className="h-2 bg-muted rounded-full overflow-hidden">
               <div 
                 className="h-full bg-primary transition-all duration-100"
-                style={{ width: `${audioLevel}%` }}
+                style={{ width: `${isListening || showMicTest ? audioLevel : handsFree.level}%` }}
               />
             </div>
             {audioLevel < 2 && (isListening || showMicTest) && (
@@ -514,12 +721,70 @@ export default function VoiceInput({ onTranscript, isProcessing = false }: Voice
         </div>
       )}
 
+      {/* Language, hands-free mode and barge-in */}
+      {isSupported && onVoiceSettingsChange && (
+        <div className="w-full px-4 space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-sm">Language</Label>
+            <Select
+              value={voiceSettings.language}
+              onValueChange={(language) => onVoiceSettingsChange({ language })}
+              disabled={isListening || isTranscribing}
+            >
+              <SelectTrigger className="w-48 h-8" data-testid="select-language">
+                <SelectValue placeholder="Language" />
+              </SelectTrigger>
+              <SelectContent>
+                {SQUAD_LANGUAGES.map(language => (
+                  <SelectItem key={language.code} value={language.code}>
+                    {language.nativeName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="switch-barge-in" className="text-sm">Interrupt agents by talking</Label>
+            <Switch
+              id="switch-barge-in"
+              checked={voiceSettings.bargeIn}
+              onCheckedChange={(checked) => onVoiceSettingsChange({ bargeIn: checked })}
+              data-testid="switch-barge-in"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="switch-hands-free" className="text-sm">Hands-free</Label>
+            <Switch
+              id="switch-hands-free"
+              checked={voiceSettings.handsFree}
+              onCheckedChange={(checked) => onVoiceSettingsChange({ handsFree: checked })}
+              disabled={isListening || isTranscribing}
+              data-testid="switch-hands-free"
+            />
+          </div>
+          {voiceSettings.handsFree && (
+            <div className="space-y-1">
+              <Input
+                value={voiceSettings.wakePhrase}
+                onChange={(e) => onVoiceSettingsChange({ wakePhrase: e.target.value })}
+                placeholder="Wake phrase"
+                className="h-8 text-sm"
+                data-testid="input-wake-phrase"
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to treat everything you say as a request.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Mic Test Button */}
       <Button
         variant="outline"
         size="sm"
         onClick={handleMicTest}
-        disabled={isListening || isProcessing || !isSupported}
+        disabled={isListening || isProcessing || !isSupported || handsFreeOn}
         className="gap-2"
         data-testid="button-mic-test"
       >
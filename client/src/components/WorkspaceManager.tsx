@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LogOut, Plus, Save, Trash2, UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { refetchWorkspaceData, useWorkspaces } from "@/hooks/use-workspaces";
+import { apiRequest } from "@/lib/queryClient";
+import type { Workspace, WorkspaceRole } from "@shared/schema";
+
+interface WorkspaceManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+export default function WorkspaceManager({ open, onOpenChange }: WorkspaceManagerProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { activeWorkspace } = useWorkspaces();
+  const [name, setName] = useState('');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [inviteUsername, setInviteUsername] = useState('');
+  const [inviteRole, setInviteRole] = useState<'editor' | 'viewer'>('editor');
+
+  const isOwner = activeWorkspace?.role === 'owner';
+
+  useEffect(() => {
+    setName(activeWorkspace?.name ?? '');
+  }, [activeWorkspace?.id, activeWorkspace?.name]);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/workspaces', { name: newWorkspaceName.trim() });
+      return res.json() as Promise<Workspace>;
+    },
+    onSuccess: (workspace) => {
+      setNewWorkspaceName('');
+      refetchWorkspaceData();
+      toast({ title: "Workspace Created", description: `Switched to ${workspace.name}` });
+    },
+    onError: onError("Failed to create workspace"),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('PATCH', `/api/workspaces/${activeWorkspace!.id}`, { name: name.trim() });
+    },
+    onSuccess: () => refetchWorkspaceData(),
+    onError: onError("Failed to rename workspace"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/workspaces/${activeWorkspace!.id}/members`, {
+        username: inviteUsername.trim(),
+        role: inviteRole,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Member Added", description: `${inviteUsername.trim()} can now open this workspace.` });
+      setInviteUsername('');
+      refetchWorkspaceData();
+    },
+    onError: onError("Failed to invite member"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: WorkspaceRole }) => {
+      await apiRequest('PATCH', `/api/workspaces/${activeWorkspace!.id}/members/${userId}`, { role });
+    },
+    onSuccess: () => refetchWorkspaceData(),
+    onError: onError("Failed to change role"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest('DELETE', `/api/workspaces/${activeWorkspace!.id}/members/${userId}`);
+    },
+    onSuccess: (_data, userId) => {
+      if (userId === user?.id) {
+        toast({ title: "Left Workspace" });
+        onOpenChange(false);
+      }
+      refetchWorkspaceData();
+    },
+    onError: onError("Failed to remove member"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/workspaces/${activeWorkspace!.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Workspace Deleted" });
+      onOpenChange(false);
+      refetchWorkspaceData();
+    },
+    onError: onError("Failed to delete workspace"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-workspace-manager">
+        <DialogHeader>
+          <DialogTitle>Workspaces</DialogTitle>
+          <DialogDescription>
+            Command history, sessions, research and custom agents are shared by everyone in a workspace.
+          </DialogDescription>
+        </DialogHeader>
+
+        {activeWorkspace && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="workspace-name">Name</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="workspace-name"
+                  value={name}
+                  disabled={!isOwner}
+                  onChange={(e) => setName(e.target.value)}
+                  data-testid="input-workspace-name"
+                />
+                {isOwner && (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    disabled={!name.trim() || name.trim() === activeWorkspace.name || renameMutation.isPending}
+                    onClick={() => renameMutation.mutate()}
+                    data-testid="button-rename-workspace"
+                  >
+                    <Save className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Members</Label>
+              <div className="space-y-2" data-testid="list-workspace-members">
+                {activeWorkspace.members.map(member => (
+                  <div key={member.userId} className="flex items-center gap-2" data-testid={`member-${member.username}`}>
+                    <span className="flex-1 text-sm">
+                      {member.username}
+                      {member.userId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                    </span>
+                    {isOwner ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => roleMutation.mutate({ userId: member.userId, role: role as WorkspaceRole })}
+                      >
+                        <SelectTrigger className="w-28 h-8" data-testid={`select-role-${member.username}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{role}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{member.role}</Badge>
+                    )}
+                    {(isOwner || member.userId === user?.id) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={member.userId === user?.id ? 'Leave workspace' : 'Remove member'}
+                        disabled={removeMutation.isPending}
+                        onClick={() => removeMutation.mutate(member.userId)}
+                        data-testid={`button-remove-${member.username}`}
+                      >
+                        {member.userId === user?.id ? <LogOut className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {isOwner && (
+              <div className="space-y-2">
+                <Label htmlFor="invite-username">Invite by username</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="invite-username"
+                    placeholder="teammate"
+                    value={inviteUsername}
+                    onChange={(e) => setInviteUsername(e.target.value)}
+                    data-testid="input-invite-username"
+                  />
+                  <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as 'editor' | 'viewer')}>
+                    <SelectTrigger className="w-28" data-testid="select-invite-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="editor">editor</SelectItem>
+                      <SelectItem value="viewer">viewer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    className="gap-2"
+                    disabled={!inviteUsername.trim() || inviteMutation.isPending}
+                    onClick={() => inviteMutation.mutate()}
+                    data-testid="button-invite-member"
+                  >
+                    <UserPlus className="w-4 h-4" />
+                    Invite
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {isOwner && (
+              <Button
+                variant="destructive"
+                size="sm"
+                className="gap-2"
+                disabled={deleteMutation.isPending}
+                onClick={() => {
+                  if (window.confirm(`Delete "${activeWorkspace.name}" with all its history, sessions and agents?`)) {
+                    deleteMutation.mutate();
+                  }
+                }}
+                data-testid="button-delete-workspace"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete Workspace
+              </Button>
+            )}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label htmlFor="new-workspace-name">New workspace</Label>
+          <div className="flex gap-2">
+            <Input
+              id="new-workspace-name"
+              placeholder="Team name"
+              value={newWorkspaceName}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+              data-testid="input-new-workspace"
+            />
+            <Button
+              className="gap-2"
+              disabled={!newWorkspaceName.trim() || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+              data-testid="button-create-workspace"
+            >
+              <Plus className="w-4 h-4" />
+              Create
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
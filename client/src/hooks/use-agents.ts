@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bot, Compass, Database, Palette, Shield, type LucideIcon } from "lucide-react";
+import { derivePipeline } from "@shared/pipeline";
+import type { AgentDefinition, Pipeline } from "@shared/schema";
+
+const BUILT_IN_ICONS: Record<string, LucideIcon> = {
+  architect: Compass,
+  backend: Database,
+  frontend: Palette,
+  qa: Shield,
+};
+
+export function getAgentIcon(agentId: string): LucideIcon {
+  return BUILT_IN_ICONS[agentId] || Bot;
+}
+
+// Built-in and custom agents from the registry, ordered by pipeline position
+export function useAgents() {
+  const { data, isLoading } = useQuery<AgentDefinition[]>({
+    queryKey: ['/api/agents'],
+  });
+
+  return { agents: data ?? [], isLoading };
+}
+
+export interface ActivePipeline extends Pipeline {
+  isDefault: boolean;
+}
+
+// The squad's dependency graph. Until it loads, fall back to the position-derived default
+// so a request can still run.
+export function usePipeline() {
+  const { agents } = useAgents();
+  const { data, isLoading } = useQuery<ActivePipeline>({
+    queryKey: ['/api/pipeline'],
+  });
+
+  const pipeline: ActivePipeline = data ?? { ...derivePipeline(agents), isDefault: true };
+  return { pipeline, isLoading };
+}
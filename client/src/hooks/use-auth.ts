@@ -0,0 +1,50 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { LoginUser, PublicUser, RegisterUser } from "@shared/schema";
+
+// apiRequest errors look like `401: {"error":"..."}` - show just the server's message
+export function authErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
+// The logged-in user (null when logged out) plus login/register/logout actions
+export function useAuth() {
+  const { data, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginUser): Promise<PublicUser> => {
+      const res = await apiRequest('POST', '/api/login', credentials);
+      return res.json();
+    },
+    onSuccess: (user) => queryClient.setQueryData(['/api/user'], user),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: RegisterUser): Promise<PublicUser> => {
+      const res = await apiRequest('POST', '/api/register', credentials);
+      return res.json();
+    },
+    onSuccess: (user) => queryClient.setQueryData(['/api/user'], user),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      // Drop the previous user's history, sessions and agents from the cache
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+    },
+  });
+
+  return { user: data ?? null, isLoading, loginMutation, registerMutation, logoutMutation };
+}
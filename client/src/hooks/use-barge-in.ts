@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from "react";
+import { supportsRecording } from "@/lib/speechToText";
+import { startUtteranceListener, type CaptureMode } from "@/lib/utteranceListener";
+
+export type BargeInStatus = 'off' | 'listening' | 'hearing' | 'transcribing';
+
+interface BargeInOptions {
+  // Listen while an agent is speaking
+  enabled: boolean;
+  language: string;
+  // The user started talking over the agent - duck its audio
+  onSpeechStart: () => void;
+  // What they said; empty if nothing was recognised
+  onUtterance: (text: string) => void;
+  // The sound was too short to be speech - restore the agent's audio
+  onDiscard: () => void;
+}
+
+// Playback leaks into the microphone even with echo cancellation, so interrupting takes a
+// clearly louder and longer sound than hands-free listening does
+const BARGE_IN_DETECTOR = { silenceMs: 900, minSpeechMs: 400, minThreshold: 12 };
+
+function captureMode(): CaptureMode | null {
+  if (window.SpeechRecognition || window.webkitSpeechRecognition) return 'speech-recognition';
+  return supportsRecording() ? 'recorder' : null;
+}
+
+// Voice activity detection while agents speak. Once the user starts talking the microphone stays
+// open until the utterance is finished, even if the agent's audio ends in the meantime.
+export function useBargeIn({ enabled, language, onSpeechStart, onUtterance, onDiscard }: BargeInOptions) {
+  const [status, setStatus] = useState<BargeInStatus>('off');
+  const handlersRef = useRef({ onSpeechStart, onUtterance, onDiscard });
+  handlersRef.current = { onSpeechStart, onUtterance, onDiscard };
+  const capturing = status === 'hearing' || status === 'transcribing';
+  const active = enabled || capturing;
+
+  useEffect(() => {
+    const mode = window.isSecureContext ? captureMode() : null;
+    if (!active || !mode) {
+      setStatus('off');
+      return;
+    }
+
+    const stop = startUtteranceListener({
+      mode,
+      language,
+      detector: BARGE_IN_DETECTOR,
+      onReady: () => setStatus('listening'),
+      onSpeechStart: () => {
+        setStatus('hearing');
+        handlersRef.current.onSpeechStart();
+      },
+      onSpeechEnd: () => setStatus('transcribing'),
+      onDiscard: () => {
+        setStatus('listening');
+        handlersRef.current.onDiscard();
+      },
+      onUtterance: (text) => {
+        setStatus('listening');
+        handlersRef.current.onUtterance(text);
+      },
+      onError: (message) => {
+        console.log("Barge-in listening unavailable:", message);
+        setStatus('off');
+      },
+    });
+
+    return () => {
+      stop();
+    };
+  }, [active, language]);
+
+  return { status };
+}
@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from "react";
+import { matchWakePhrase } from "@/lib/handsFree";
+import { startUtteranceListener, type CaptureMode } from "@/lib/utteranceListener";
+
+export type HandsFreeStatus =
+  | 'off'
+  | 'starting'
+  // Listening for the wake phrase
+  | 'waiting'
+  // Wake phrase heard on its own - the next utterance is the request
+  | 'awake'
+  // Speech in progress
+  | 'hearing'
+  | 'transcribing'
+  // Agents are working or speaking
+  | 'paused'
+  | 'error';
+
+interface HandsFreeOptions {
+  enabled: boolean;
+  // Stop listening so the agents' own voices aren't picked up; listening resumes afterwards
+  paused: boolean;
+  wakePhrase: string;
+  mode: CaptureMode;
+  language: string;
+  onCommand: (text: string) => void;
+}
+
+// After the wake phrase on its own, the next utterance within this window is the request
+const AWAKE_WINDOW_MS = 10000;
+// Let the last agent's audio die away before the microphone opens again
+const RESUME_DELAY_MS = 800;
+
+// Always-on listening: each utterance is checked for the wake phrase and what follows it is
+// passed to onCommand. Unlike click-to-talk there is no restart limit - the session runs until
+// disabled.
+export function useHandsFree({ enabled, paused, wakePhrase, mode, language, onCommand }: HandsFreeOptions) {
+  const [status, setStatus] = useState<HandsFreeStatus>('off');
+  const [level, setLevel] = useState(0);
+  const [heard, setHeard] = useState('');
+  const [error, setError] = useState('');
+  // Read at utterance time so editing the phrase or re-rendering the parent doesn't restart the mic
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+  const wakePhraseRef = useRef(wakePhrase);
+  wakePhraseRef.current = wakePhrase;
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('off');
+      setHeard('');
+      return;
+    }
+    if (paused) {
+      setStatus('paused');
+      return;
+    }
+
+    let stopped = false;
+    let stopListener: (() => void) | null = null;
+    let awakeTimer: ReturnType<typeof setTimeout> | null = null;
+    let awakeUntil = 0;
+
+    const idleStatus = (): HandsFreeStatus => (Date.now() < awakeUntil ? 'awake' : 'waiting');
+
+    // Wake phrase + request, wake phrase alone, a request while awake, or background talk
+    const handleUtterance = (transcript: string) => {
+      if (!transcript) {
+        setStatus(idleStatus());
+        return;
+      }
+      setHeard(transcript);
+
+      const awake = Date.now() < awakeUntil;
+      const match = matchWakePhrase(transcript, wakePhraseRef.current);
+      const command = match.matched ? match.remainder : awake ? transcript : '';
+      if (command) {
+        console.log("Hands-free request:", command);
+        awakeUntil = 0;
+        setStatus('waiting');
+        onCommandRef.current(command);
+      } else if (match.matched) {
+        console.log("Wake phrase heard - waiting for the request");
+        awakeUntil = Date.now() + AWAKE_WINDOW_MS;
+        if (awakeTimer) clearTimeout(awakeTimer);
+        awakeTimer = setTimeout(() => {
+          setStatus(status => (status === 'awake' ? 'waiting' : status));
+        }, AWAKE_WINDOW_MS);
+        setStatus('awake');
+      } else {
+        setStatus(idleStatus());
+      }
+    };
+
+    const timer = setTimeout(() => {
+      setStatus('starting');
+      setError('');
+      stopListener = startUtteranceListener({
+        mode,
+        language,
+        onReady: () => setStatus('waiting'),
+        onSpeechStart: () => setStatus('hearing'),
+        onSpeechEnd: () => setStatus('transcribing'),
+        onDiscard: () => setStatus(idleStatus()),
+        onUtterance: handleUtterance,
+        onLevel: setLevel,
+        onError: (message) => {
+          if (stopped) return;
+          setStatus('error');
+          setError(message);
+        },
+      });
+    }, RESUME_DELAY_MS);
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      if (awakeTimer) clearTimeout(awakeTimer);
+      stopListener?.();
+      setLevel(0);
+    };
+  }, [enabled, paused, mode, language]);
+
+  return { status, level, heard, error };
+}
@@ -0,0 +1,50 @@
+import { useCallback, useState } from "react";
+import { DEFAULT_LANGUAGE } from "@shared/languages";
+
+// Microphone preferences, kept in localStorage so they survive reloads
+export interface VoiceSettings {
+  // Listen continuously for the wake phrase instead of click-to-talk
+  handsFree: boolean;
+  // Said before a request in hands-free mode; empty means every utterance is a request
+  wakePhrase: string;
+  // Talking while an agent speaks lowers its audio and captures a follow-up
+  bargeIn: boolean;
+  // BCP 47 tag for speech recognition, agent responses, research and voices
+  language: string;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  handsFree: false,
+  wakePhrase: 'Hey squad',
+  bargeIn: true,
+  language: DEFAULT_LANGUAGE,
+};
+
+const STORAGE_KEY = 'voice-settings';
+
+function loadVoiceSettings(): VoiceSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...DEFAULT_VOICE_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+}
+
+export function useVoiceSettings() {
+  const [settings, setSettings] = useState<VoiceSettings>(loadVoiceSettings);
+
+  const updateSettings = useCallback((update: Partial<VoiceSettings>) => {
+    setSettings(current => {
+      const next = { ...current, ...update };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Private browsing or storage full - the setting still applies for this session
+      }
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Workspace, WorkspaceRole } from "@shared/schema";
+
+export interface WorkspaceSummary extends Workspace {
+  // The current user's role in this workspace
+  role: WorkspaceRole;
+}
+
+interface WorkspaceList {
+  activeWorkspaceId: string;
+  workspaces: WorkspaceSummary[];
+}
+
+// Everything cached except the login and workspace list belongs to a workspace
+export function refetchWorkspaceData() {
+  return queryClient.invalidateQueries({
+    predicate: (query) => query.queryKey[0] !== '/api/user',
+  });
+}
+
+// Workspaces the user belongs to and the active one. Viewers can read but not run or edit.
+export function useWorkspaces() {
+  const { data, isLoading } = useQuery<WorkspaceList>({
+    queryKey: ['/api/workspaces'],
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: async (workspaceId: string) => {
+      await apiRequest('POST', `/api/workspaces/${workspaceId}/switch`);
+    },
+    onSuccess: () => refetchWorkspaceData(),
+  });
+
+  const workspaces = data?.workspaces ?? [];
+  const activeWorkspace = workspaces.find(workspace => workspace.id === data?.activeWorkspaceId);
+  const canEdit = !!activeWorkspace && activeWorkspace.role !== 'viewer';
+
+  return { workspaces, activeWorkspace, canEdit, isLoading, switchMutation };
+}
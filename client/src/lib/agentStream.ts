@@ -0,0 +1,100 @@
+import type { CodeCheck, CodeRepairAttempt, StructuredAgentOutput, StructuredOutputSource, TestRun } from "@shared/schema";
+
+export interface AgentDiscussResponse {
+  message: string;
+  warning?: string;
+  truncated?: boolean;
+  researchData?: any;
+  audioData?: string; // Base64 encoded MP3 audio
+  tokenInfo?: {
+    promptTokens: number;
+    allocatedOutputTokens: number;
+    finishReason?: string;
+    model?: string;
+  };
+  durationMs?: number;
+  // Typed version of the message (summary, decisions, files, open questions, risks)
+  structured?: StructuredAgentOutput;
+  structuredSource?: StructuredOutputSource;
+  // Type errors and parse errors in the agent's TypeScript/TSX/JSON files
+  codeCheck?: CodeCheck;
+  // Repair turns run on the code before it was returned
+  repairs?: CodeRepairAttempt[];
+  // Sandbox run of the tests the agent wrote (TEST_SANDBOX=true on the server)
+  testRun?: TestRun;
+}
+
+export interface AgentStreamHandlers {
+  onChunk?: (text: string) => void;
+  onFinish?: (info: { finishReason?: string; truncated: boolean; warning?: string }) => void;
+}
+
+// POST to /api/agents/discuss/stream and read the Server-Sent Events it returns.
+// EventSource only supports GET, so the stream is parsed from the fetch body instead.
+export async function streamAgentDiscussion(
+  body: Record<string, unknown>,
+  handlers: AgentStreamHandlers = {},
+): Promise<AgentDiscussResponse> {
+  const res = await fetch("/api/agents/discuss/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: AgentDiscussResponse | null = null;
+
+  const handleEvent = (rawEvent: string) => {
+    let event = "message";
+    let data = "";
+    for (const line of rawEvent.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data += line.slice(5).trim();
+      }
+    }
+    if (!data) return;
+
+    const payload = JSON.parse(data);
+    switch (event) {
+      case "chunk":
+        handlers.onChunk?.(payload.text);
+        break;
+      case "finish":
+        handlers.onFinish?.(payload);
+        break;
+      case "done":
+        result = payload;
+        break;
+      case "error":
+        throw new Error(payload.details || payload.error);
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let separatorIndex;
+    while ((separatorIndex = buffer.indexOf("\n\n")) !== -1) {
+      const rawEvent = buffer.slice(0, separatorIndex);
+      buffer = buffer.slice(separatorIndex + 2);
+      handleEvent(rawEvent);
+    }
+  }
+
+  if (!result) {
+    throw new Error("Agent stream ended before a response was received");
+  }
+  return result;
+}
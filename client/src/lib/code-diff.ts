@@ -0,0 +1,61 @@
+import { diffLines } from "diff";
+
+export interface DiffCell {
+  // 1-based line number in its version of the file
+  number: number;
+  text: string;
+}
+
+// One row of a side-by-side diff. Changed rows pair a removed line with the line that replaced it.
+export interface DiffRow {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  left?: DiffCell;
+  right?: DiffCell;
+}
+
+export interface SideBySideDiff {
+  rows: DiffRow[];
+  added: number;
+  removed: number;
+}
+
+const toLines = (value: string) => value.replace(/\n$/, '').split('\n');
+
+export function sideBySideDiff(before: string, after: string): SideBySideDiff {
+  const rows: DiffRow[] = [];
+  let leftNumber = 0;
+  let rightNumber = 0;
+  let added = 0;
+  let removed = 0;
+  // Removed lines wait here so the additions that follow can be paired with them
+  let pending: DiffCell[] = [];
+
+  const flushRemoved = () => {
+    pending.forEach(left => rows.push({ kind: 'removed', left }));
+    pending = [];
+  };
+
+  for (const change of diffLines(before, after)) {
+    const lines = toLines(change.value);
+    if (change.removed) {
+      removed += lines.length;
+      pending.push(...lines.map(text => ({ number: ++leftNumber, text })));
+    } else if (change.added) {
+      added += lines.length;
+      for (const text of lines) {
+        const right = { number: ++rightNumber, text };
+        const left = pending.shift();
+        rows.push(left ? { kind: 'changed', left, right } : { kind: 'added', right });
+      }
+      flushRemoved();
+    } else {
+      flushRemoved();
+      for (const text of lines) {
+        rows.push({ kind: 'same', left: { number: ++leftNumber, text }, right: { number: ++rightNumber, text } });
+      }
+    }
+  }
+  flushRemoved();
+
+  return { rows, added, removed };
+}
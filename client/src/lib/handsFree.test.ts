@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createUtteranceDetector, matchWakePhrase } from "./handsFree";
+
+describe('matchWakePhrase', () => {
+  it('returns what was said after the phrase', () => {
+    assert.deepEqual(matchWakePhrase('Hey squad, build a todo app', 'hey squad'), { matched: true, remainder: 'build a todo app' });
+    assert.deepEqual(matchWakePhrase('okay hey squad add tests', 'Hey Squad'), { matched: true, remainder: 'add tests' });
+  });
+
+  it('accepts words misheard by one letter', () => {
+    assert.equal(matchWakePhrase('hey squat build it', 'hey squad').matched, true);
+    assert.equal(matchWakePhrase('hay squad build it', 'hey squad').matched, true);
+    assert.equal(matchWakePhrase('hey squads build it', 'hey squad').matched, true);
+    assert.equal(matchWakePhrase('hey squid build it', 'hey squad').matched, true);
+  });
+
+  it('rejects words further off, and short words must match exactly', () => {
+    assert.equal(matchWakePhrase('hey sport build it', 'hey squad').matched, false);
+    assert.equal(matchWakePhrase('go team', 'ok team').matched, false);
+    assert.equal(matchWakePhrase('build a todo app', 'hey squad').matched, false);
+  });
+
+  it('matches everything when the phrase is empty', () => {
+    assert.deepEqual(matchWakePhrase('  build a todo app ', ''), { matched: true, remainder: 'build a todo app' });
+  });
+});
+
+describe('createUtteranceDetector', () => {
+  // Feed [level, duration in ms] steps at 50ms intervals and collect the events
+  function run(steps: Array<[number, number]>, options = {}) {
+    const detector = createUtteranceDetector(options);
+    const events: string[] = [];
+    let now = 0;
+    for (const [level, duration] of steps) {
+      for (let end = now + duration; now < end; now += 50) {
+        const event = detector.update(level, now);
+        if (event) events.push(event);
+      }
+    }
+    return events;
+  }
+
+  it('ends an utterance after enough silence', () => {
+    assert.deepEqual(run([[2, 500], [40, 800], [2, 1300]]), ['start', 'end']);
+  });
+
+  it('waits out short pauses inside an utterance', () => {
+    assert.deepEqual(run([[40, 500], [2, 600], [40, 500], [2, 1300]]), ['start', 'end']);
+  });
+
+  it('discards short bursts', () => {
+    assert.deepEqual(run([[40, 100], [2, 1300]]), ['start', 'discard']);
+  });
+
+  it('raises the threshold over background noise', () => {
+    assert.deepEqual(run([[8, 500]]), ['start']);
+    // After a steady hum at 5 the same level no longer counts as speech
+    assert.deepEqual(run([[5, 20000], [8, 500]]), []);
+  });
+});
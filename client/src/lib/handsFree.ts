@@ -0,0 +1,113 @@
+// Pure pieces of hands-free mode: end-of-utterance detection from the microphone level and
+// wake phrase matching on transcripts.
+
+// Levels are the 0-100 averages VoiceInput's meter shows (mean AnalyserNode frequency bin)
+export interface UtteranceDetectorOptions {
+  // Quiet needed after speech before the utterance counts as finished
+  silenceMs?: number;
+  // Shorter bursts (a cough, a door) are discarded instead of transcribed
+  minSpeechMs?: number;
+  // Speech must be this far above the background noise
+  minThreshold?: number;
+}
+
+export type UtteranceEvent = 'start' | 'end' | 'discard';
+
+export interface UtteranceDetector {
+  // Feed one level sample; returns an event when speech starts or finishes
+  update(level: number, now: number): UtteranceEvent | null;
+  readonly speaking: boolean;
+  reset(): void;
+}
+
+export function createUtteranceDetector({
+  silenceMs = 1200,
+  minSpeechMs = 300,
+  minThreshold = 6,
+}: UtteranceDetectorOptions = {}): UtteranceDetector {
+  let noiseFloor = 0;
+  let speechStartedAt: number | null = null;
+  let lastVoiceAt = 0;
+
+  return {
+    update(level, now) {
+      const threshold = Math.max(minThreshold, noiseFloor * 1.5 + 3);
+      if (level >= threshold) {
+        lastVoiceAt = now;
+        if (speechStartedAt === null) {
+          speechStartedAt = now;
+          return 'start';
+        }
+        return null;
+      }
+
+      if (speechStartedAt === null) {
+        // Slowly track background noise (fans, hum) while nobody is talking
+        noiseFloor = noiseFloor * 0.98 + level * 0.02;
+        return null;
+      }
+      if (now - lastVoiceAt >= silenceMs) {
+        const spokeFor = lastVoiceAt - speechStartedAt;
+        speechStartedAt = null;
+        return spokeFor >= minSpeechMs ? 'end' : 'discard';
+      }
+      return null;
+    },
+    get speaking() {
+      return speechStartedAt !== null;
+    },
+    reset() {
+      speechStartedAt = null;
+      lastVoiceAt = 0;
+    },
+  };
+}
+
+const PUNCTUATION = /[.,!?;:"“”‘’¡¿()[\]{}-]/g;
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(PUNCTUATION, '');
+}
+
+// Recognisers often mishear a letter ("hey squat", "hay squad"), so words of three or more
+// letters match within one edit
+function similarWords(heard: string, expected: string): boolean {
+  if (heard === expected) return true;
+  if (expected.length < 3 || Math.abs(heard.length - expected.length) > 1) return false;
+
+  let previous = Array.from({ length: expected.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= heard.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= expected.length; j++) {
+      const cost = heard[i - 1] === expected[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[expected.length] <= 1;
+}
+
+export interface WakePhraseMatch {
+  matched: boolean;
+  // What was said after the wake phrase ("Hey squad, build a todo app" -> "build a todo app")
+  remainder: string;
+}
+
+// Find the wake phrase anywhere in a transcript. An empty phrase matches everything, so every
+// utterance becomes a request.
+export function matchWakePhrase(transcript: string, wakePhrase: string): WakePhraseMatch {
+  const phrase = wakePhrase.split(/\s+/).map(normalizeWord).filter(Boolean);
+  const words = transcript.trim().split(/\s+/).filter(Boolean);
+  if (phrase.length === 0) {
+    return { matched: true, remainder: words.join(' ') };
+  }
+
+  const normalized = words.map(normalizeWord);
+  for (let start = 0; start + phrase.length <= words.length; start++) {
+    if (phrase.every((expected, offset) => similarWords(normalized[start + offset], expected))) {
+      const remainder = words.slice(start + phrase.length).join(' ').replace(/^[\s.,!?;:-]+/, '');
+      return { matched: true, remainder };
+    }
+  }
+  return { matched: false, remainder: '' };
+}
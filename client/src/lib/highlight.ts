@@ -0,0 +1,93 @@
+import Prism from "prismjs";
+import "prismjs/components/prism-markup-templating";
+import "prismjs/components/prism-typescript";
+import "prismjs/components/prism-jsx";
+import "prismjs/components/prism-tsx";
+import "prismjs/components/prism-json";
+import "prismjs/components/prism-markdown";
+import "prismjs/components/prism-scss";
+import "prismjs/components/prism-less";
+import "prismjs/components/prism-python";
+import "prismjs/components/prism-ruby";
+import "prismjs/components/prism-go";
+import "prismjs/components/prism-rust";
+import "prismjs/components/prism-java";
+import "prismjs/components/prism-kotlin";
+import "prismjs/components/prism-swift";
+import "prismjs/components/prism-c";
+import "prismjs/components/prism-cpp";
+import "prismjs/components/prism-csharp";
+import "prismjs/components/prism-php";
+import "prismjs/components/prism-dart";
+import "prismjs/components/prism-scala";
+import "prismjs/components/prism-elixir";
+import "prismjs/components/prism-lua";
+import "prismjs/components/prism-r";
+import "prismjs/components/prism-bash";
+import "prismjs/components/prism-powershell";
+import "prismjs/components/prism-sql";
+import "prismjs/components/prism-graphql";
+import "prismjs/components/prism-protobuf";
+import "prismjs/components/prism-yaml";
+import "prismjs/components/prism-toml";
+import "prismjs/components/prism-ini";
+import "prismjs/components/prism-docker";
+import "prismjs/components/prism-makefile";
+import "prismjs/components/prism-hcl";
+import "prismjs/themes/prism-tomorrow.css";
+
+export interface HighlightedSegment {
+  text: string;
+  // Prism token classes ("token keyword"), styled by the theme
+  className?: string;
+}
+
+export type HighlightedLine = HighlightedSegment[];
+
+// Language names from shared/code-files.ts that Prism knows under another name
+const PRISM_ALIASES: Record<string, string> = {
+  html: 'markup',
+  xml: 'markup',
+  vue: 'markup',
+  svelte: 'markup',
+  astro: 'markup',
+  mdx: 'markdown',
+  sass: 'scss',
+  dockerfile: 'docker',
+  dotenv: 'bash',
+  shell: 'bash',
+  prisma: 'graphql',
+};
+
+function grammarFor(language: string): Prism.Grammar | undefined {
+  const name = language.toLowerCase();
+  return Prism.languages[PRISM_ALIASES[name] || name];
+}
+
+// Tokenize code and split the tokens into lines, so line numbers and diffs can render
+// one row per line even when a token (a block comment, a template string) spans several
+export function highlightLines(code: string, language: string): HighlightedLine[] {
+  const grammar = grammarFor(language);
+  const tokens = grammar ? Prism.tokenize(code, grammar) : [code];
+  const lines: HighlightedLine[] = [[]];
+
+  const walk = (stream: Prism.TokenStream, classes: string[]) => {
+    if (typeof stream === 'string') {
+      const className = classes.length > 0 ? Array.from(new Set(classes)).join(' ') : undefined;
+      stream.split('\n').forEach((text, idx) => {
+        if (idx > 0) lines.push([]);
+        if (text) lines[lines.length - 1].push({ text, className });
+      });
+      return;
+    }
+    if (Array.isArray(stream)) {
+      stream.forEach(item => walk(item, classes));
+      return;
+    }
+    const alias = stream.alias ? ([] as string[]).concat(stream.alias) : [];
+    walk(stream.content, [...classes, 'token', stream.type, ...alias]);
+  };
+
+  walk(tokens, []);
+  return lines;
+}
@@ -0,0 +1,96 @@
+// Agent speech streamed from /api/tts/stream. The MP3 chunks are appended to a MediaSource as
+// they arrive, so playback starts after the first sentence and continues without gaps while the
+// rest is synthesized. Browsers without MediaSource MP3 support download the whole clip first.
+
+export interface SpeechStreamRequest {
+  agentRole: string;
+  text: string;
+  language?: string;
+}
+
+export interface SpeechStream {
+  // Object URL for an <audio> element
+  url: string;
+  // Stop downloading (the server stops synthesizing)
+  abort: () => void;
+}
+
+const MP3_TYPE = "audio/mpeg";
+
+function supportsStreamingPlayback(): boolean {
+  return typeof window !== "undefined" &&
+    typeof window.MediaSource !== "undefined" &&
+    MediaSource.isTypeSupported(MP3_TYPE);
+}
+
+async function fetchSpeech(request: SpeechStreamRequest, signal: AbortSignal): Promise<Response> {
+  const res = await fetch("/api/tts/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    credentials: "include",
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return res;
+}
+
+export async function openSpeechStream(request: SpeechStreamRequest): Promise<SpeechStream> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+
+  if (!supportsStreamingPlayback()) {
+    const res = await fetchSpeech(request, controller.signal);
+    const blob = new Blob([await res.arrayBuffer()], { type: MP3_TYPE });
+    return { url: URL.createObjectURL(blob), abort };
+  }
+
+  const mediaSource = new MediaSource();
+  const url = URL.createObjectURL(mediaSource);
+
+  // Fires once the URL is attached to an <audio> element
+  mediaSource.addEventListener("sourceopen", async () => {
+    const sourceBuffer = mediaSource.addSourceBuffer(MP3_TYPE);
+    // Each sentence is encoded separately - play the pieces back to back instead of by timestamp
+    sourceBuffer.mode = "sequence";
+    const queue: Uint8Array[] = [];
+    let downloaded = false;
+
+    const appendNext = () => {
+      if (sourceBuffer.updating || mediaSource.readyState !== "open") return;
+      const chunk = queue.shift();
+      if (chunk) {
+        sourceBuffer.appendBuffer(chunk);
+      } else if (downloaded) {
+        mediaSource.endOfStream();
+      }
+    };
+    sourceBuffer.addEventListener("updateend", appendNext);
+
+    try {
+      const res = await fetchSpeech(request, controller.signal);
+      const reader = res.body!.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        queue.push(value);
+        appendNext();
+      }
+      downloaded = true;
+      appendNext();
+    } catch (error: any) {
+      if (controller.signal.aborted) return;
+      console.warn("Speech stream failed:", error.message);
+      // Whatever already arrived still plays; with nothing buffered the <audio> element errors out
+      downloaded = true;
+      if (queue.length === 0 && !sourceBuffer.updating && mediaSource.readyState === "open") {
+        mediaSource.endOfStream(sourceBuffer.buffered.length > 0 ? undefined : "network");
+      }
+    }
+  }, { once: true });
+
+  return { url, abort };
+}
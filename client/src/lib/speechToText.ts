@@ -0,0 +1,103 @@
+// Recording-based voice input for browsers without the Web Speech API (Firefox, many mobile
+// browsers): MediaRecorder captures the microphone, the recording is converted to 16 kHz mono
+// WAV (readable by every STT provider, including the offline whisper.cpp engine) and uploaded
+// to /api/stt.
+//
+// The recording is uploaded once, after the user stops: none of the providers transcribe
+// incrementally, and the WAV conversion needs the whole recording. Utterances are spoken
+// commands, well below the 25mb upload limit (about 13 minutes of 16 kHz WAV).
+
+const SAMPLE_RATE = 16000;
+
+export function supportsRecording(): boolean {
+  return typeof window !== "undefined" &&
+    typeof window.MediaRecorder !== "undefined" &&
+    !!navigator.mediaDevices?.getUserMedia;
+}
+
+// First container the browser can record, e.g. audio/webm;codecs=opus or audio/mp4 on Safari
+export function recordingMimeType(): string | undefined {
+  const candidates = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+// Decode the compressed recording and resample it to 16 kHz mono
+export async function recordingToWav(recording: Blob): Promise<Blob> {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContextClass();
+  try {
+    const decoded = await context.decodeAudioData(await recording.arrayBuffer());
+    const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * SAMPLE_RATE)), SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return encodeWav(rendered.getChannelData(0), SAMPLE_RATE);
+  } finally {
+    context.close().catch(() => {});
+  }
+}
+
+export interface TranscriptionResult {
+  text: string;
+  provider: string;
+  durationMs: number;
+}
+
+// Upload a recording to /api/stt. If the browser can't decode its own recording the original
+// file is sent; providers that only read WAV (local) answer 415 with an explanation.
+export async function transcribeRecording(recording: Blob, language?: string): Promise<TranscriptionResult> {
+  const audio = await recordingToWav(recording).catch((error) => {
+    console.log("Could not convert recording to WAV, uploading it as recorded:", error);
+    return recording;
+  });
+
+  const query = language ? `?language=${encodeURIComponent(language)}` : "";
+  const res = await fetch(`/api/stt${query}`, {
+    method: "POST",
+    headers: { "Content-Type": audio.type || "application/octet-stream" },
+    body: audio,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    let message = text || res.statusText;
+    try {
+      message = JSON.parse(text).error || message;
+    } catch {
+      // Not JSON - keep the raw text
+    }
+    throw new Error(message);
+  }
+  return res.json();
+}
@@ -0,0 +1,199 @@
+import { createUtteranceDetector, type UtteranceDetectorOptions } from "@/lib/handsFree";
+import { recordingMimeType, transcribeRecording } from "@/lib/speechToText";
+
+// 'recorder' records the microphone and transcribes on the server (/api/stt) for browsers
+// without the Web Speech API
+export type CaptureMode = 'speech-recognition' | 'recorder';
+
+export interface UtteranceListenerOptions {
+  mode: CaptureMode;
+  language: string;
+  detector?: UtteranceDetectorOptions;
+  // Microphone open and listening
+  onReady?: () => void;
+  onSpeechStart?: () => void;
+  // Speech finished - the utterance is being transcribed
+  onSpeechEnd?: () => void;
+  // A burst too short to be speech (cough, click) was ignored
+  onDiscard?: () => void;
+  // Transcript of a finished utterance; empty if nothing was recognised
+  onUtterance: (text: string) => void;
+  onLevel?: (level: number) => void;
+  onError?: (message: string) => void;
+}
+
+// Recordings that never contained speech are dropped after this long
+const MAX_SILENT_SEGMENT_MS = 20000;
+const LEVEL_INTERVAL_MS = 50;
+
+interface RecordingSegment {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  // Transcribe when stopped (false for silence and noise)
+  keep: boolean;
+}
+
+// Open the microphone and report each utterance until the returned function is called. The
+// AnalyserNode level marks where utterances start and end; the words come from the Web Speech
+// API or from recordings transcribed by /api/stt.
+export function startUtteranceListener(options: UtteranceListenerOptions): () => void {
+  const { mode, language } = options;
+  let stopped = false;
+  let stream: MediaStream | null = null;
+  let audioContext: AudioContext | null = null;
+  let interval: ReturnType<typeof setInterval> | null = null;
+  let recognition: any = null;
+  let segment: RecordingSegment | null = null;
+  let recognisedText = '';
+  const detector = createUtteranceDetector(options.detector);
+
+  const deliver = (text: string) => {
+    if (!stopped) options.onUtterance(text.trim());
+  };
+
+  const startRecognition = () => {
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = language;
+
+    recognition.onresult = (event: any) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        if (event.results[i].isFinal) {
+          recognisedText += ' ' + event.results[i][0].transcript;
+        }
+      }
+    };
+    recognition.onerror = (event: any) => {
+      // no-speech, aborted and network errors just end the session, which restarts below
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed' || event.error === 'audio-capture') {
+        stop();
+        options.onError?.("Microphone access denied. Please enable microphone permissions.");
+      }
+    };
+    // Stopped at the end of each utterance (stop() flushes the final result first), or ended by
+    // the browser after a long silence - either way, hand over what was said and listen again
+    recognition.onend = () => {
+      const text = recognisedText;
+      recognisedText = '';
+      if (text.trim() || !detector.speaking) deliver(text);
+      if (!stopped) {
+        try {
+          recognition.start();
+        } catch (e) {
+          console.log("Could not restart recognition:", e);
+        }
+      }
+    };
+    recognition.start();
+  };
+
+  const startSegment = () => {
+    const mimeType = recordingMimeType();
+    const next: RecordingSegment = {
+      recorder: new MediaRecorder(stream!, mimeType ? { mimeType } : undefined),
+      chunks: [],
+      startedAt: Date.now(),
+      keep: false,
+    };
+    next.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) next.chunks.push(event.data);
+    };
+    next.recorder.onstop = () => {
+      if (!next.keep || stopped) return;
+      const recording = new Blob(next.chunks, { type: next.recorder.mimeType || mimeType });
+      transcribeRecording(recording, language)
+        .then(({ text }) => deliver(text))
+        .catch((error) => {
+          console.log("Transcription failed:", error.message);
+          deliver('');
+        });
+    };
+    next.recorder.start(1000);
+    segment = next;
+  };
+
+  // Close the current recording (transcribing it if it held speech) and start the next one
+  const finishSegment = (keep: boolean) => {
+    if (!segment) return;
+    segment.keep = keep;
+    if (segment.recorder.state !== 'inactive') segment.recorder.stop();
+    segment = null;
+    if (!stopped) startSegment();
+  };
+
+  const start = async () => {
+    try {
+      // Echo cancellation keeps the agents' own voices (played by this page) out of the signal
+      stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (e) {
+      console.error("Microphone error:", e);
+      if (!stopped) options.onError?.("Could not access the microphone.");
+      return;
+    }
+    if (stopped) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    audioContext = new AudioContextClass();
+    audioContext.resume().catch(() => {});
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 256;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const data = new Uint8Array(analyser.frequencyBinCount);
+
+    if (mode === 'recorder') {
+      startSegment();
+    } else {
+      startRecognition();
+    }
+    options.onReady?.();
+
+    // An interval rather than requestAnimationFrame keeps detection running in background tabs
+    interval = setInterval(() => {
+      analyser.getByteFrequencyData(data);
+      const level = Math.min(100, data.reduce((a, b) => a + b, 0) / data.length);
+      options.onLevel?.(level);
+
+      const event = detector.update(level, Date.now());
+      if (event === 'start') {
+        // Anything recognised before the speech started (e.g. leaked playback) isn't part of it
+        recognisedText = '';
+        options.onSpeechStart?.();
+      } else if (event === 'end') {
+        options.onSpeechEnd?.();
+        if (mode === 'recorder') finishSegment(true);
+        else recognition?.stop();
+      } else if (event === 'discard') {
+        if (mode === 'recorder') finishSegment(false);
+        options.onDiscard?.();
+      } else if (!detector.speaking && segment && Date.now() - segment.startedAt > MAX_SILENT_SEGMENT_MS) {
+        finishSegment(false);
+      }
+    }, LEVEL_INTERVAL_MS);
+  };
+
+  function stop() {
+    if (stopped) return;
+    stopped = true;
+    if (interval) clearInterval(interval);
+    if (recognition) {
+      recognition.onend = null;
+      recognition.abort();
+    }
+    if (segment && segment.recorder.state !== 'inactive') {
+      segment.recorder.stop();
+    }
+    stream?.getTracks().forEach(track => track.stop());
+    if (audioContext && audioContext.state !== 'closed') {
+      audioContext.close().catch(() => {});
+    }
+  }
+
+  start();
+  return stop;
+}
@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AgentDefinition } from "@shared/schema";
+import { parseVoiceCommand } from "./voiceCommands";
+
+const agent = (id: string, name: string): AgentDefinition => ({
+  id,
+  name,
+  role: name,
+  systemPrompt: '-',
+  demoPrompt: '-',
+  voice: {},
+  color: 'slate',
+  position: 0,
+  builtIn: true,
+});
+const agents = [agent('architect', 'Architect'), agent('backend', 'Backend Engineer'), agent('qa', 'QA Agent')];
+const parse = (text: string, language = 'en-US') => parseVoiceCommand(text, agents, language);
+
+describe('parseVoiceCommand', () => {
+  it('recognises controls with polite padding and punctuation', () => {
+    assert.deepEqual(parse('Stop talking.'), { type: 'stop-audio' });
+    assert.deepEqual(parse('okay, could you download the code please'), { type: 'download-code' });
+    assert.deepEqual(parse("Let's start a new conversation"), { type: 'new-conversation' });
+  });
+
+  it('resolves agents by id, name or the name without "agent"', () => {
+    assert.deepEqual(parse('replay the architect'), { type: 'replay-agent', agentId: 'architect' });
+    assert.deepEqual(parse('play the backend engineer again'), { type: 'replay-agent', agentId: 'backend' });
+    assert.deepEqual(parse('what did QA say?'), { type: 'replay-agent', agentId: 'qa' });
+    assert.deepEqual(parse('repeat the qa agent'), { type: 'replay-agent', agentId: 'qa' });
+  });
+
+  it('ignores replays of agents that do not exist', () => {
+    assert.equal(parse('replay the designer'), null);
+  });
+
+  it('toggles research and demo mode both ways', () => {
+    assert.deepEqual(parse('apply research'), { type: 'apply-research', enabled: true });
+    assert.deepEqual(parse("don't use the research"), { type: 'apply-research', enabled: false });
+    assert.deepEqual(parse('switch to demo mode'), { type: 'demo-mode', enabled: true });
+    assert.deepEqual(parse('turn off demo mode'), { type: 'demo-mode', enabled: false });
+  });
+
+  it('leaves requests for the agents', () => {
+    assert.equal(parse('build an app that lets users download the code'), null);
+    assert.equal(parse('add a stop button'), null);
+  });
+
+  it('only parses English speech', () => {
+    assert.deepEqual(parse('stop', 'en-GB'), { type: 'stop-audio' });
+    assert.equal(parse('stop', 'es-ES'), null);
+    assert.equal(parse('download the code', 'de-DE'), null);
+  });
+});
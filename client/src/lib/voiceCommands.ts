@@ -0,0 +1,102 @@
+import type { AgentDefinition } from "@shared/schema";
+import { getSquadLanguage, isEnglish } from "@shared/languages";
+
+// Spoken app controls ("replay the backend agent", "download the code") that are handled in the
+// UI instead of being sent to the agents as a coding request.
+export type VoiceCommand =
+  | { type: 'replay-agent'; agentId: string }
+  | { type: 'stop-audio' }
+  | { type: 'apply-research'; enabled: boolean }
+  | { type: 'download-code' }
+  | { type: 'demo-mode'; enabled: boolean }
+  | { type: 'new-conversation' };
+
+// Controls are short imperatives - anything longer is treated as a request, so "build an app
+// that lets users download the code" still goes to the agents
+const MAX_COMMAND_WORDS = 8;
+
+const POLITE_PREFIX = /^(?:(?:ok(?:ay)?|hey|so|now|and|then|please|can you|could you|would you|will you|go ahead and|i want to|i'd like to|let's|lets)\s+)+/;
+const POLITE_SUFFIX = /(?:\s+(?:please|now|thanks|thank you|for me))+$/;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[.,!?;:"“”]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(POLITE_PREFIX, '')
+    .replace(POLITE_SUFFIX, '');
+}
+
+// "the backend agent", "backend", "the QA" -> agent id, by id, name or first word of the name
+function findAgent(spoken: string, agents: AgentDefinition[]): AgentDefinition | undefined {
+  const target = spoken.replace(/^the\s+/, '').replace(/\s+(?:agent|agent's|one)$/, '').replace(/'s$/, '').trim();
+  if (!target) return undefined;
+  return agents.find(agent => {
+    const name = agent.name.toLowerCase();
+    return agent.id === target.replace(/\s+/g, '-') ||
+      name === target ||
+      name.replace(/\s+agent$/, '') === target;
+  });
+}
+
+const PATTERNS: Array<{ pattern: RegExp; parse: (match: RegExpMatchArray, agents: AgentDefinition[]) => VoiceCommand | null }> = [
+  {
+    pattern: /^(?:stop|stop talking|stop speaking|stop the audio|stop playback|be quiet|quiet|shut up|silence|pause|pause the audio|mute)$/,
+    parse: () => ({ type: 'stop-audio' }),
+  },
+  {
+    pattern: /^(?:replay|play|play back|repeat|read)(?: again)? (.+?)(?: again| response| answer| message)*$/,
+    parse: (match, agents) => {
+      const agent = findAgent(match[1], agents);
+      return agent ? { type: 'replay-agent', agentId: agent.id } : null;
+    },
+  },
+  {
+    pattern: /^what did (.+?) say$/,
+    parse: (match, agents) => {
+      const agent = findAgent(match[1], agents);
+      return agent ? { type: 'replay-agent', agentId: agent.id } : null;
+    },
+  },
+  {
+    pattern: /^(?:apply|use) (?:the )?research(?: to the next (?:request|one))?$/,
+    parse: () => ({ type: 'apply-research', enabled: true }),
+  },
+  {
+    pattern: /^(?:don't|do not|stop) (?:apply|applying|use|using) (?:the )?research$/,
+    parse: () => ({ type: 'apply-research', enabled: false }),
+  },
+  {
+    pattern: /^(?:download|export|save) (?:the |all the |all )?(?:code|files|project|zip)(?: as a zip)?$/,
+    parse: () => ({ type: 'download-code' }),
+  },
+  {
+    pattern: /^(?:switch to|turn on|enable|use|go to) demo mode$/,
+    parse: () => ({ type: 'demo-mode', enabled: true }),
+  },
+  {
+    pattern: /^(?:(?:turn off|disable|exit|leave) demo mode|switch to (?:production|pro|quality) mode)$/,
+    parse: () => ({ type: 'demo-mode', enabled: false }),
+  },
+  {
+    pattern: /^(?:start (?:a )?new conversation|new conversation|start over|start a new (?:chat|session)|clear (?:the )?conversation)$/,
+    parse: () => ({ type: 'new-conversation' }),
+  },
+];
+
+// The phrases are English; in any other speech language every utterance goes to the agents
+export function parseVoiceCommand(transcript: string, agents: AgentDefinition[], language: string): VoiceCommand | null {
+  if (!isEnglish(getSquadLanguage(language))) return null;
+  const text = normalize(transcript);
+  if (!text || text.split(' ').length > MAX_COMMAND_WORDS) return null;
+
+  for (const { pattern, parse } of PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const command = parse(match, agents);
+      if (command) return command;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { authErrorMessage, useAuth } from "@/hooks/use-auth";
+
+type AuthMode = 'login' | 'register';
+
+export default function AuthPage() {
+  const { loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const mutation = mode === 'login' ? loginMutation : registerMutation;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    mutation.mutate({ username, password });
+  };
+
+  const switchMode = (next: string) => {
+    setMode(next as AuthMode);
+    loginMutation.reset();
+    registerMutation.reset();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md" data-testid="card-auth">
+        <CardHeader className="items-center text-center">
+          <div className="w-10 h-10 rounded-lg bg-primary flex items-center justify-center mb-2">
+            <span className="text-primary-foreground font-bold">CV</span>
+          </div>
+          <CardTitle>Cerebral-Voice Squad</CardTitle>
+          <CardDescription>Sign in to see your own command history and sessions</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={switchMode}>
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">Log In</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+            </TabsList>
+
+            {/* Both tabs share one form - only the action differs */}
+            <TabsContent value={mode} forceMount>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="auth-username">Username</Label>
+                  <Input
+                    id="auth-username"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    data-testid="input-username"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="auth-password">Password</Label>
+                  <Input
+                    id="auth-password"
+                    type="password"
+                    autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    data-testid="input-password"
+                  />
+                  {mode === 'register' && (
+                    <p className="text-xs text-muted-foreground">At least 8 characters</p>
+                  )}
+                </div>
+
+                {mutation.error && (
+                  <p className="text-sm text-destructive" data-testid="text-auth-error">
+                    {authErrorMessage(mutation.error)}
+                  </p>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full gap-2"
+                  disabled={mutation.isPending || !username || !password}
+                  data-testid="button-auth-submit"
+                >
+                  {mutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {mode === 'login' ? 'Log In' : 'Create Account'}
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
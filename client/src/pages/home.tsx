@@ -1,24 +1,43 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import Header from "@/components/Header";
 import VoiceInput from "@/components/VoiceInput";
 import AgentCard, { type AgentStatus } from "@/components/AgentCard";
-import CodeDisplay from "@/components/CodeDisplay";
+import CodeExplorer from "@/components/CodeExplorer";
 import ConversationHistory from "@/components/ConversationHistory";
 import ResearchSources from "@/components/ResearchSources";
 import CommandHistory from "@/components/CommandHistory";
-import { Compass, Database, Palette, Shield, ChevronLeft, ChevronRight, Code2, Download, Lightbulb } from "lucide-react";
+import AgentManager from "@/components/AgentManager";
+import WorkspaceManager from "@/components/WorkspaceManager";
+import BargeInPrompt from "@/components/BargeInPrompt";
+import DebateTimeline, { type DebateTimelineEntry, type DebateTimelineRound } from "@/components/DebateTimeline";
+import { ChevronLeft, ChevronRight, Code2, Download, Lightbulb } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { useVoiceSettings } from "@/hooks/use-voice-settings";
+import { useBargeIn } from "@/hooks/use-barge-in";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { streamAgentDiscussion, type AgentDiscussResponse } from "@/lib/agentStream";
+import { openSpeechStream } from "@/lib/speechStream";
+import { parseVoiceCommand, type VoiceCommand } from "@/lib/voiceCommands";
+import { useAgents, usePipeline, getAgentIcon } from "@/hooks/use-agents";
+import { executePipeline, getDependencies } from "@shared/pipeline";
+import { extractCodeFiles, type AgentOutput, type CodeFile } from "@shared/code-files";
+import type { AgentDefinition, CodeCheck, CodeRepairAttempt, DebateRound, InsertSession, Session, TestRun } from "@shared/schema";
 
 interface AgentState {
   status: AgentStatus;
   message: string;
   audioData?: string; // Base64 encoded MP3 audio
+  codeCheck?: CodeCheck;
+  repairs?: CodeRepairAttempt[];
+  testRun?: TestRun;
 }
 
 interface SearchResult {
@@ -42,10 +61,56 @@ interface Conversation {
   status: 'completed' | 'in-progress' | 'failed';
   agentStates?: Record<string, AgentState>;
   researchData?: ResearchData | null;
+  debate?: DebateState;
+  threadId?: string;
+  turn?: number;
+}
+
+interface DebateState {
+  rounds: DebateTimelineRound[];
+  consensus: string | null;
+  consensusStatus: 'idle' | 'thinking' | 'complete';
+}
+
+const EMPTY_DEBATE: DebateState = { rounds: [], consensus: null, consensusStatus: 'idle' };
+
+// Rebuild a conversation view from a session saved in MongoDB
+function sessionToConversation(session: Session): Conversation {
+  const agentStates: Record<string, AgentState> = {};
+  for (const agent of session.agents) {
+    agentStates[agent.agentId] = {
+      status: 'complete',
+      message: agent.message,
+      audioData: agent.audioData,
+      codeCheck: agent.codeCheck,
+      repairs: agent.repairs,
+      testRun: agent.testRun
+    };
+  }
+
+  return {
+    id: session._id!,
+    timestamp: new Date(session.createdAt),
+    command: session.transcript,
+    status: session.status === 'failed' ? 'failed' : 'completed',
+    agentStates,
+    researchData: session.researchData,
+    debate: session.debate && {
+      rounds: session.debate.rounds.map(round => ({
+        round: round.round,
+        entries: round.entries.map(entry => ({ agentId: entry.agentId, status: 'complete', message: entry.message }))
+      })),
+      consensus: session.debate.consensus,
+      consensusStatus: session.debate.consensus ? 'complete' : 'idle'
+    },
+    threadId: session.threadId,
+    turn: session.turn
+  };
 }
 
 // Per-agent audio management for pause/resume support
-const agentAudioMap = new Map<string, { audio: HTMLAudioElement; url: string }>();
+// (abort stops a streamed clip that is still downloading)
+const agentAudioMap = new Map<string, { audio: HTMLAudioElement; url: string; abort?: () => void }>();
 
 // Stop and cleanup audio for a specific agent
 function stopAgentAudio(agentType: string) {
@@ -53,11 +118,24 @@ function stopAgentAudio(agentType: string) {
   if (audioData) {
     audioData.audio.pause();
     audioData.audio.currentTime = 0;
+    audioData.abort?.();
     URL.revokeObjectURL(audioData.url);
     agentAudioMap.delete(agentType);
   }
 }
 
+// Stop every agent's audio, e.g. before showing a different session
+function stopAllAgentAudio() {
+  Array.from(agentAudioMap.keys()).forEach(stopAgentAudio);
+}
+
+// Lower every playing agent while the user talks over them (barge-in), or restore the volume
+function duckAgentAudio(ducked: boolean) {
+  agentAudioMap.forEach(({ audio }) => {
+    audio.volume = ducked ? 0.2 : 1;
+  });
+}
+
 // Pause audio for a specific agent (keeps position)
 function pauseAgentAudio(agentType: string) {
   const audioData = agentAudioMap.get(agentType);
@@ -76,10 +154,29 @@ function resumeAgentAudio(agentType: string) {
   }
 }
 
+// Speech for an agent: the MP3 returned with its response, or streamed from /api/tts/stream
+type AgentAudioSource =
+  | { kind: 'clip'; base64Audio: string }
+  | { kind: 'stream'; text: string; language: string };
+
+async function openAgentAudio(agentType: string, source: AgentAudioSource): Promise<{ url: string; abort?: () => void }> {
+  if (source.kind === 'stream') {
+    return openSpeechStream({ agentRole: agentType, text: source.text, language: source.language });
+  }
+  // Convert base64 to blob
+  const binaryString = atob(source.base64Audio);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  const blob = new Blob([bytes], { type: 'audio/mp3' });
+  return { url: URL.createObjectURL(blob) };
+}
+
 // Play or resume audio for a specific agent
 function playOrResumeAudio(
   agentType: string,
-  base64Audio: string, 
+  source: AgentAudioSource,
   onStart?: () => void, 
   onEnd?: () => void
 ): Promise<void> {
@@ -94,21 +191,10 @@ function playOrResumeAudio(
     }
     
     // Create new audio
-    let url: string | null = null;
-    
-    try {
-      // Convert base64 to blob
-      const binaryString = atob(base64Audio);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      const blob = new Blob([bytes], { type: 'audio/mp3' });
-      url = URL.createObjectURL(blob);
-      
+    openAgentAudio(agentType, source).then(({ url, abort }) => {
       // Create and play audio element
       const audio = new Audio(url);
-      agentAudioMap.set(agentType, { audio, url });
+      agentAudioMap.set(agentType, { audio, url, abort });
       
       if (onStart) onStart();
       
@@ -134,43 +220,30 @@ function playOrResumeAudio(
         cleanup();
         resolve();
       });
-    } catch (error) {
+    }).catch((error) => {
       console.warn('Audio processing error - continuing without audio:', error);
-      if (url) {
-        URL.revokeObjectURL(url);
-      }
       if (onEnd) onEnd();
       resolve();
-    }
+    });
   });
 }
 
-// Extract code blocks from agent responses
-function extractCodeFromResponses(agentStates: Record<string, AgentState>): Array<{ code: string; language: string; filename: string }> {
-  const codeBlocks: Array<{ code: string; language: string; filename: string }> = [];
-  const allMessages = Object.values(agentStates).map(state => state.message).join('\n\n');
-  
-  // Match code blocks with language identifier
-  const codeBlockRegex = /```(\w+)?\s*\n([\s\S]*?)```/g;
-  let match;
-  
-  while ((match = codeBlockRegex.exec(allMessages)) !== null) {
-    const language = match[1] || 'typescript';
-    const code = match[2].trim();
-    
-    // Try to extract filename from preceding text
-    const beforeBlock = allMessages.substring(Math.max(0, match.index - 200), match.index);
-    const filenameMatch = beforeBlock.match(/(?:file|create|in|as)\s*[:`]?([a-zA-Z0-9_/.-]+\.(tsx?|jsx?|css|json|md))[`]?/i);
-    const filename = filenameMatch ? filenameMatch[1] : `code.${language}`;
-    
-    codeBlocks.push({ code, language, filename });
-  }
-  
-  return codeBlocks;
+const IDLE_AGENT_STATE: AgentState = { status: 'idle', message: '' };
+
+function createAgentStates(agents: AgentDefinition[]): Record<string, AgentState> {
+  return Object.fromEntries(agents.map(agent => [agent.id, IDLE_AGENT_STATE]));
+}
+
+// Agent outputs in pipeline order, for the shared code-file parser and the ZIP export
+function toAgentOutputs(agents: AgentDefinition[], agentStates: Record<string, AgentState>): AgentOutput[] {
+  return agents
+    .filter(agent => agentStates[agent.id]?.message)
+    .map(agent => ({ agentId: agent.id, agentName: agent.name, message: agentStates[agent.id].message }));
 }
 
 export default function Home() {
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
   const [transcript, setTranscript] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [showHistory, setShowHistory] = useState(true);
@@ -181,7 +254,41 @@ export default function Home() {
   const [demoMode, setDemoMode] = useState(false);
   const [researchData, setResearchData] = useState<ResearchData | null>(null);
   const [applyResearchToNext, setApplyResearchToNext] = useState(false);
-  const [playingAgent, setPlayingAgent] = useState<'architect' | 'backend' | 'frontend' | 'qa' | null>(null);
+  const [playingAgent, setPlayingAgent] = useState<string | null>(null);
+  const { agents } = useAgents();
+  const { pipeline } = usePipeline();
+  const [showAgentManager, setShowAgentManager] = useState(false);
+  const { workspaces, activeWorkspace, canEdit, switchMutation } = useWorkspaces();
+  const [showWorkspaceManager, setShowWorkspaceManager] = useState(false);
+  const [debateRounds, setDebateRounds] = useState(0);
+  const [debate, setDebate] = useState<DebateState>(EMPTY_DEBATE);
+  // Multi-turn conversation: follow-ups in the same thread get the earlier turns as memory
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [threadTurn, setThreadTurn] = useState(0);
+  const { settings: voiceSettings, updateSettings: updateVoiceSettings } = useVoiceSettings();
+  // Said over an agent's audio - offered as a follow-up instead of being sent straight away
+  const [bargeInUtterance, setBargeInUtterance] = useState<string | null>(null);
+  
+  // Saved sessions hydrate the history sidebar; local entries cover unsaved runs
+  const { data: savedSessions = [] } = useQuery<Session[]>({
+    queryKey: ['/api/sessions'],
+  });
+  // With TTS configured, responses come back without audio and speech is streamed on playback
+  const { data: health } = useQuery<{ ttsConfigured?: boolean }>({
+    queryKey: ['/api/health'],
+  });
+  const streamSpeech = !!health?.ttsConfigured;
+  const historyConversations: Conversation[] = [
+    ...conversations,
+    ...savedSessions
+      .filter(session => !conversations.some(c => c.id === session._id))
+      .map(session => ({
+        id: session._id!,
+        timestamp: new Date(session.createdAt),
+        command: session.transcript,
+        status: session.status === 'failed' ? 'failed' as const : 'completed' as const
+      }))
+  ];
   
   // Reset toggle when research is cleared (ensures fresh state)
   const handleToggleChange = (enabled: boolean) => {
@@ -191,23 +298,46 @@ export default function Home() {
     }
   };
 
-  // Agent states
-  const [agentStates, setAgentStates] = useState<Record<string, AgentState>>({
-    architect: { status: 'idle', message: '' },
-    backend: { status: 'idle', message: '' },
-    frontend: { status: 'idle', message: '' },
-    qa: { status: 'idle', message: '' },
-  });
+  // Agent states, keyed by agent id (built-in and custom agents)
+  const [agentStates, setAgentStates] = useState<Record<string, AgentState>>({});
+  const getAgentState = (agentId: string) => agentStates[agentId] || IDLE_AGENT_STATE;
+  const allAgentsComplete = agents.length > 0 && agents.every(agent => getAgentState(agent.id).status === 'complete');
+  const codeFiles = useMemo(() => extractCodeFiles(toAgentOutputs(agents, agentStates)), [agents, agentStates]);
+  // Code from the turn shown before the current one, so regenerated files can be diffed
+  const [previousCodeFiles, setPreviousCodeFiles] = useState<CodeFile[]>([]);
+
+  // What to play for an agent, if it has anything to say
+  const getAgentAudioSource = (state: AgentState): AgentAudioSource | null => {
+    if (state.audioData) return { kind: 'clip', base64Audio: state.audioData };
+    if (streamSpeech && state.status === 'complete' && state.message) {
+      return { kind: 'stream', text: state.message, language: voiceSettings.language };
+    }
+    return null;
+  };
+
+  // Auto-play an agent's audio as soon as its response arrives
+  const handleAutoPlay = (agentType: string, source: AgentAudioSource) => {
+    setPlayingAgent(agentType);
+    playOrResumeAudio(
+      agentType,
+      source,
+      () => setIsAudioPlaying(true),
+      () => {
+        setIsAudioPlaying(false);
+        setPlayingAgent(null);
+      }
+    );
+  };
 
   // Individual agent audio handlers with pause/resume support
-  const handlePlayAgent = (agentType: 'architect' | 'backend' | 'frontend' | 'qa') => {
-    const audioData = agentStates[agentType].audioData;
-    if (!audioData) return;
+  const handlePlayAgent = (agentType: string) => {
+    const source = getAgentAudioSource(getAgentState(agentType));
+    if (!source) return;
     
     setPlayingAgent(agentType);
     playOrResumeAudio(
       agentType,
-      audioData,
+      source,
       () => setIsAudioPlaying(true),
       () => {
         setIsAudioPlaying(false);
@@ -216,6 +346,18 @@ export default function Home() {
     );
   };
 
+  // Replays always start from the beginning, even if the agent was paused part-way
+  const handleReplayAgent = (agentType: string) => {
+    stopAllAgentAudio();
+    handlePlayAgent(agentType);
+  };
+
+  const handleStopAudio = () => {
+    stopAllAgentAudio();
+    setIsAudioPlaying(false);
+    setPlayingAgent(null);
+  };
+
   const handlePauseAgent = () => {
     if (playingAgent) {
       pauseAgentAudio(playingAgent);
@@ -224,15 +366,21 @@ export default function Home() {
     }
   };
 
-  const handleSelectConversation = (conversationId: string) => {
-    const conversation = conversations.find(c => c.id === conversationId);
-    if (!conversation || !conversation.agentStates) return;
-    
-    // Load the previous conversation's data
-    setActiveConversation(conversationId);
+  const showConversation = (conversation: Conversation) => {
+    stopAllAgentAudio();
+    setPlayingAgent(null);
+    setActiveConversation(conversation.id);
     setTranscript(conversation.command);
-    setAgentStates(conversation.agentStates);
+    setAgentStates(conversation.agentStates || {});
     setResearchData(conversation.researchData || null);
+    setDebate(conversation.debate || EMPTY_DEBATE);
+    // Follow-ups continue the loaded conversation
+    setThreadId(conversation.threadId || null);
+    setThreadTurn(conversation.turn || 0);
+    const previousTurn = conversation.threadId && conversation.turn
+      ? conversations.find(c => c.threadId === conversation.threadId && c.turn === conversation.turn! - 1)
+      : undefined;
+    setPreviousCodeFiles(previousTurn?.agentStates ? extractCodeFiles(toAgentOutputs(agents, previousTurn.agentStates)) : []);
     
     toast({
       title: "Conversation Loaded",
@@ -240,10 +388,35 @@ export default function Home() {
     });
   };
 
-  const handleDownloadAllCode = () => {
-    const codeBlocks = extractCodeFromResponses(agentStates);
-    
-    if (codeBlocks.length === 0) {
+  const handleSelectConversation = async (conversationId: string) => {
+    const conversation = conversations.find(c => c.id === conversationId);
+    if (conversation?.agentStates) {
+      showConversation(conversation);
+      return;
+    }
+    // Failed runs that never reached the database have nothing to show
+    if (conversation && !savedSessions.some(session => session._id === conversationId)) {
+      return;
+    }
+
+    // Not in memory (e.g. after a page refresh) - load the full session from MongoDB
+    try {
+      const session = await queryClient.fetchQuery<Session>({ queryKey: ['/api/sessions', conversationId] });
+      showConversation(sessionToConversation(session));
+    } catch (error: any) {
+      console.error('Failed to load session:', error);
+      toast({
+        title: "Failed to load conversation",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDownloadAllCode = async () => {
+    const outputs = toAgentOutputs(agents, agentStates);
+
+    if (codeFiles.length === 0) {
       toast({
         title: "No Code Found",
         description: "No code blocks were generated in this conversation.",
@@ -252,41 +425,228 @@ export default function Home() {
       return;
     }
 
-    // Create a combined text file with all code blocks
-    let combinedContent = `# Generated Code - ${new Date().toLocaleString()}\n`;
-    combinedContent += `# Command: ${transcript}\n\n`;
-    combinedContent += `${'='.repeat(80)}\n\n`;
-
-    codeBlocks.forEach((block, index) => {
-      combinedContent += `File: ${block.filename}\n`;
-      combinedContent += `Language: ${block.language}\n`;
-      combinedContent += `${'-'.repeat(80)}\n\n`;
-      combinedContent += block.code;
-      combinedContent += `\n\n${'='.repeat(80)}\n\n`;
-    });
+    // The server builds the project tree and README and packs the ZIP
+    try {
+      const res = await apiRequest('POST', '/api/export', { transcript, agents: outputs });
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'squad-project.zip';
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
 
-    // Download as a single file
-    const blob = new Blob([combinedContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `generated-code-${Date.now()}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+      toast({
+        title: "Project Downloaded",
+        description: `Downloaded ${codeFiles.length} file${codeFiles.length > 1 ? 's' : ''} as ${filename}.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Download Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
 
-    toast({
-      title: "Code Downloaded",
-      description: `Downloaded ${codeBlocks.length} code block${codeBlocks.length > 1 ? 's' : ''} as a single file.`,
+  // Stream one agent's response into its card as the LLM generates it
+  const discussAgent = (
+    agent: AgentDefinition,
+    text: string,
+    context: { role: string; message: string }[],
+    previousResearch: ResearchData | null,
+    turnOptions: { debateRound?: number; threadId?: string } = {}
+  ) => {
+    const agentRole = agent.id;
+    const { debateRound, threadId } = turnOptions;
+    return streamAgentDiscussion(
+      {
+        transcript: text,
+        agentRole,
+        context,
+        demoMode,
+        previousResearch,
+        debateRound,
+        threadId,
+        language: voiceSettings.language,
+        // Skip the up-front MP3 - playback streams it instead
+        streamAudio: streamSpeech
+      },
+      {
+        onChunk: (chunk) => {
+          // Debate turns stream into the timeline, first-pass turns into the agent card
+          if (debateRound) {
+            updateDebateEntry(debateRound, agentRole, entry => ({
+              ...entry,
+              status: 'streaming',
+              message: entry.message + chunk
+            }));
+            return;
+          }
+          setAgentStates(prev => ({
+            ...prev,
+            [agentRole]: {
+              ...(prev[agentRole] || IDLE_AGENT_STATE),
+              status: 'streaming',
+              message: (prev[agentRole]?.message || '') + chunk
+            }
+          }));
+        }
+      }
+    ).catch((error: Error) => {
+      throw new Error(`${agent.name} API error: ${error.message}`);
     });
   };
 
+  const updateDebateEntry = (
+    round: number,
+    agentId: string,
+    update: (entry: DebateTimelineEntry) => DebateTimelineEntry
+  ) => {
+    setDebate(prev => ({
+      ...prev,
+      rounds: prev.rounds.map(r => r.round !== round ? r : {
+        ...r,
+        entries: r.entries.map(entry => entry.agentId === agentId ? update(entry) : entry)
+      })
+    }));
+  };
+
+  // Debate mode: after the first pass every agent gets all agents' full output, critiques
+  // and revises for the configured number of rounds, then a moderator writes the consensus
+  const runDebate = async (
+    text: string,
+    firstPass: Record<string, AgentDiscussResponse>,
+    previousResearch: ResearchData | null
+  ): Promise<DebateState> => {
+    const participants = agents.filter(agent => firstPass[agent.id]);
+    const rounds: DebateRound[] = [{
+      round: 1,
+      entries: participants.map(agent => ({ agentId: agent.id, agentName: agent.name, message: firstPass[agent.id].message }))
+    }];
+    const timeline: DebateTimelineRound[] = [{
+      round: 1,
+      entries: participants.map(agent => ({ agentId: agent.id, status: 'complete', message: firstPass[agent.id].message }))
+    }];
+    setDebate({ rounds: timeline, consensus: null, consensusStatus: 'idle' });
+
+    for (let round = 2; round <= debateRounds + 1; round++) {
+      setDebate(prev => ({
+        ...prev,
+        rounds: [...prev.rounds, {
+          round,
+          entries: participants.map(agent => ({ agentId: agent.id, status: 'thinking', message: '' }))
+        }]
+      }));
+
+      const previous = rounds[rounds.length - 1];
+      const context = previous.entries.map(entry => ({ role: entry.agentName, message: entry.message }));
+      const results = await Promise.all(participants.map(async agent => {
+        const data = await discussAgent(agent, text, context, previousResearch, { debateRound: round });
+        updateDebateEntry(round, agent.id, entry => ({ ...entry, status: 'complete', message: data.message }));
+        return data;
+      }));
+
+      rounds.push({
+        round,
+        entries: participants.map((agent, idx) => ({ agentId: agent.id, agentName: agent.name, message: results[idx].message }))
+      });
+      timeline.push({
+        round,
+        entries: participants.map((agent, idx) => ({ agentId: agent.id, status: 'complete', message: results[idx].message }))
+      });
+    }
+
+    setDebate(prev => ({ ...prev, consensusStatus: 'thinking' }));
+    const response = await apiRequest('POST', '/api/debate/consensus', { transcript: text, rounds, demoMode, language: voiceSettings.language });
+    const { summary } = await response.json() as { summary: string };
+
+    const finished: DebateState = { rounds: timeline, consensus: summary, consensusStatus: 'complete' };
+    setDebate(finished);
+    return finished;
+  };
+
+  const showAgentWarning = (data: AgentDiscussResponse) => {
+    // Show warning if prompt was too large or truncated (unless in Demo Mode)
+    if (data.warning && !demoMode) {
+      toast({
+        title: data.truncated ? "⚠️ Response Truncated" : "⚠️ Complex Request",
+        description: data.warning,
+        variant: "destructive",
+        duration: 8000,
+      });
+    }
+  };
+
+  // Persist the full session (also recorded in command history when completed)
+  const saveSession = async (session: InsertSession): Promise<Session | null> => {
+    try {
+      const response = await apiRequest('POST', '/api/sessions', session);
+      const saved = await response.json() as Session;
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/commands/recent/10'] });
+      return saved;
+    } catch (saveError) {
+      console.error('Failed to save session to MongoDB:', saveError);
+      toast({
+        title: "Failed to save session",
+        description: "This conversation could not be saved to the database",
+        variant: "destructive"
+      });
+      return null;
+    }
+  };
+
+  const startNewConversation = () => {
+    setTranscript("");
+    setBargeInUtterance(null);
+    setResearchData(null);
+    setAgentStates(createAgentStates(agents));
+    setDebate(EMPTY_DEBATE);
+    setThreadId(null);
+    setThreadTurn(0);
+    setPreviousCodeFiles([]);
+  };
+
+  // A different workspace has its own history and agents - don't carry the current run over
+  const workspaceIdRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    const workspaceId = activeWorkspace?.id;
+    if (workspaceIdRef.current && workspaceId && workspaceIdRef.current !== workspaceId) {
+      stopAllAgentAudio();
+      startNewConversation();
+      setConversations([]);
+      setActiveConversation(null);
+    }
+    workspaceIdRef.current = workspaceId;
+  }, [activeWorkspace?.id]);
+
   const handleTranscript = async (text: string) => {
+    if (!canEdit) {
+      toast({
+        title: "View Only",
+        description: "Ask a workspace owner for the editor role to run the squad here.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setTranscript(text);
     setIsProcessing(true);
+    // A follow-up or re-run regenerates files - keep what was shown to diff against
+    setPreviousCodeFiles(codeFiles);
     
-    const context: { role: string; message: string }[] = [];
+    const startedAt = Date.now();
+    const isFollowUpTurn = threadId !== null;
+    const activeThreadId = threadId || crypto.randomUUID();
+    const turn = isFollowUpTurn ? threadTurn + 1 : 1;
+    setThreadId(activeThreadId);
+    setThreadTurn(turn);
+    const results: Record<string, AgentDiscussResponse> = {};
+    const agentsById = new Map(agents.map(agent => [agent.id, agent]));
     
     // Explicit UI toggle approach - no regex guessing!
     // If user clicked "Apply Research" toggle, pass research context to agents
@@ -300,277 +660,197 @@ export default function Home() {
       console.log('ℹ️ Research exists but "Apply Research" not enabled - starting fresh conversation');
     }
 
+    // Session document for MongoDB from the results gathered so far
+    const buildSession = (status: InsertSession['status'], extra: Partial<InsertSession> = {}): InsertSession => ({
+      transcript: text,
+      status,
+      demoMode,
+      language: voiceSettings.language,
+      model: Object.values(results).find(data => data.tokenInfo?.model)?.tokenInfo?.model,
+      createdAt: new Date(startedAt),
+      durationMs: Date.now() - startedAt,
+      agents: agents
+        .filter(agent => results[agent.id])
+        .map(agent => ({
+          agentId: agent.id,
+          agentName: agent.name,
+          message: results[agent.id].message,
+          warning: results[agent.id].warning,
+          truncated: results[agent.id].truncated,
+          finishReason: results[agent.id].tokenInfo?.finishReason,
+          tokenInfo: results[agent.id].tokenInfo,
+          durationMs: results[agent.id].durationMs,
+          structured: results[agent.id].structured,
+          structuredSource: results[agent.id].structuredSource,
+          codeCheck: results[agent.id].codeCheck,
+          repairs: results[agent.id].repairs,
+          testRun: results[agent.id].testRun,
+          audioData: results[agent.id].audioData
+        })),
+      researchData: Object.values(results).find(data => data.researchData)?.researchData || null,
+      previousResearchApplied: isFollowUpImplementation,
+      threadId: activeThreadId,
+      turn,
+      ...extra
+    });
+
     try {
-      // Architect Agent
-      setAgentStates(prev => ({
-        ...prev,
-        architect: { status: 'thinking', message: '' }
-      }));
+      setAgentStates(createAgentStates(agents));
+      setDebate(EMPTY_DEBATE);
+
+      // Run the pipeline graph: each agent starts as soon as the agents it depends on finish
+      // (Architect first, then Backend + Frontend in parallel, then QA for the built-in squad).
+      // Each agent sees only its dependencies' output as context.
+      let hasAutoPlayed = false;
+      let hasResearch = false;
+
+      const execution = await executePipeline<AgentDiscussResponse>(
+        pipeline,
+        async (agentId, dependencies) => {
+          const agent = agentsById.get(agentId)!;
+          setAgentStates(prev => ({ ...prev, [agentId]: { status: 'thinking', message: '' } }));
+
+          const data = await discussAgent(
+            agent,
+            text,
+            dependencies.map(dep => ({ role: agentsById.get(dep.id)!.name, message: dep.result.message })),
+            previousResearch,
+            // Follow-ups carry the thread so agents see the earlier turns
+            { threadId: isFollowUpTurn ? activeThreadId : undefined }
+          );
+          results[agentId] = data;
+
+          // Store research data if available
+          if (data.researchData && !hasResearch) {
+            hasResearch = true;
+            setResearchData(data.researchData);
+
+            if (isFollowUpImplementation) {
+              toast({
+                title: "🔍 Implementing Research",
+                description: `Using ${data.researchData.results.length} sources to implement your request`,
+                duration: 4000,
+              });
+            }
+          }
+
+          if (!data.researchData || isFollowUpImplementation) {
+            showAgentWarning(data);
+          }
 
-      const architectResponse = await fetch('/api/agents/discuss', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          transcript: text, 
-          agentRole: 'architect',
-          context,
-          demoMode,
-          previousResearch // Include research from Step 2 if available
-        })
-      });
-      
-      if (!architectResponse.ok) {
-        throw new Error(`Architect API error: ${architectResponse.status}`);
-      }
-      
-      const architectData = await architectResponse.json();
-      context.push({ role: 'Architect', message: architectData.message });
-      
-      // Store research data if available
-      if (architectData.researchData) {
-        setResearchData(architectData.researchData);
-        
-        // If this is JUST research (not a follow-up implementation), STOP HERE
-        if (!isFollowUpImplementation) {
           setAgentStates(prev => ({
             ...prev,
-            architect: { 
-              status: 'complete', 
-              message: architectData.message || "Error generating response",
-              audioData: architectData.audioData
+            [agentId]: {
+              status: 'complete',
+              message: data.message || "Error generating response",
+              audioData: data.audioData,
+              codeCheck: data.codeCheck,
+              repairs: data.repairs,
+              testRun: data.testRun
             }
           }));
-          
-          toast({
-            title: "🔍 Research Completed",
-            description: `Found ${architectData.researchData.results.length} relevant sources. Enable "Apply Research" and send another request to implement.`,
-            duration: 6000,
-          });
-          
-          setIsProcessing(false);
-          
-          // Auto-play architect audio for research results
-          if (architectData.audioData) {
-            setPlayingAgent('architect');
-            playOrResumeAudio(
-              'architect',
-              architectData.audioData,
-              () => setIsAudioPlaying(true),
-              () => {
-                setIsAudioPlaying(false);
-                setPlayingAgent(null);
-              }
-            );
-          }
-          
-          return; // STOP - don't process other agents yet
-        }
-        
-        // If we reach here, it's a follow-up implementation request
-        toast({
-          title: "🔍 Implementing Research",
-          description: `Using ${architectData.researchData.results.length} sources to implement your request`,
-          duration: 4000,
-        });
-      }
-      
-      // Show warning if prompt was too large or truncated (unless in Demo Mode)
-      if (architectData.warning && !demoMode) {
-        toast({
-          title: architectData.truncated ? "⚠️ Response Truncated" : "⚠️ Complex Request",
-          description: architectData.warning,
-          variant: "destructive",
-          duration: 8000,
-        });
-      }
-      
-      // Update architect UI and show message immediately
-      setAgentStates(prev => ({
-        ...prev,
-        architect: { 
-          status: 'complete', 
-          message: architectData.message || "Error generating response",
-          audioData: architectData.audioData
-        },
-        backend: { status: 'thinking', message: '' },
-        frontend: { status: 'thinking', message: '' },
-        qa: { status: 'thinking', message: '' }
-      }));
 
-      // Auto-play architect audio (NON-BLOCKING - don't await!)
-      if (architectData.audioData) {
-        setPlayingAgent('architect');
-        playOrResumeAudio(
-          'architect',
-          architectData.audioData,
-          () => setIsAudioPlaying(true),
-          () => {
-            setIsAudioPlaying(false);
-            setPlayingAgent(null);
-            // Mark architect complete after audio finishes
-            setAgentStates(prev => ({
-              ...prev,
-              architect: { ...prev.architect, status: 'complete' }
-            }));
+          // Auto-play the first root agent's audio (NON-BLOCKING - don't await!)
+          // Dependent agents start immediately while it is still speaking
+          // (research-only answers have never been spoken)
+          const autoPlaySource = data.audioData
+            ? { kind: 'clip' as const, base64Audio: data.audioData }
+            : streamSpeech && data.message && (!data.researchData || isFollowUpImplementation)
+              ? { kind: 'stream' as const, text: data.message, language: voiceSettings.language }
+              : null;
+          if (!hasAutoPlayed && autoPlaySource && getDependencies(pipeline, agentId).length === 0) {
+            hasAutoPlayed = true;
+            handleAutoPlay(agentId, autoPlaySource);
           }
-        );
-      }
 
-      // START ALL REMAINING AGENTS IMMEDIATELY (while Architect is still speaking!)
-      // Backend/Frontend/QA all run in parallel
-      const [backendResponse, frontendResponse, qaResponse] = await Promise.all([
-        fetch('/api/agents/discuss', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            transcript: text, 
-            agentRole: 'backend',
-            context,
-            demoMode,
-            previousResearch
-          })
-        }),
-        fetch('/api/agents/discuss', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            transcript: text, 
-            agentRole: 'frontend',
-            context,
-            demoMode,
-            previousResearch
-          })
-        }),
-        fetch('/api/agents/discuss', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            transcript: text, 
-            agentRole: 'qa',
-            context,
-            demoMode,
-            previousResearch
-          })
-        })
-      ]);
-      
-      // Check all responses
-      if (!backendResponse.ok) throw new Error(`Backend API error: ${backendResponse.status}`);
-      if (!frontendResponse.ok) throw new Error(`Frontend API error: ${frontendResponse.status}`);
-      if (!qaResponse.ok) throw new Error(`QA API error: ${qaResponse.status}`);
-      
-      // Parse all responses in parallel
-      const [backendData, frontendData, qaData] = await Promise.all([
-        backendResponse.json(),
-        frontendResponse.json(),
-        qaResponse.json()
-      ]);
-      
-      // Update context
-      context.push({ role: 'Backend', message: backendData.message });
-      context.push({ role: 'Frontend', message: frontendData.message });
-      
-      // Show warnings (unless Demo Mode)
-      if (backendData.warning && !demoMode) {
-        toast({
-          title: backendData.truncated ? "⚠️ Response Truncated" : "⚠️ Complex Request",
-          description: backendData.warning,
-          variant: "destructive",
-          duration: 8000,
-        });
-      }
-      if (frontendData.warning && !demoMode) {
+          return data;
+        },
+        // If this is JUST research (not a follow-up implementation), STOP HERE
+        (_agentId, data) => Boolean(data.researchData) && !isFollowUpImplementation
+      );
+
+      const researchAgentId = pipeline.nodes.find(id => results[id]?.researchData);
+      if (execution.stopped && researchAgentId) {
+        const data = results[researchAgentId];
         toast({
-          title: frontendData.truncated ? "⚠️ Response Truncated" : "⚠️ Complex Request",
-          description: frontendData.warning,
-          variant: "destructive",
-          duration: 8000,
+          title: "🔍 Research Completed",
+          description: `Found ${data.researchData.results.length} relevant sources. Enable "Apply Research" and send another request to implement.`,
+          duration: 6000,
         });
+        
+        setIsProcessing(false);
+        
+        // Auto-play audio for research results
+        if (data.audioData && !hasAutoPlayed) {
+          handleAutoPlay(researchAgentId, { kind: 'clip', base64Audio: data.audioData });
+        }
+
+        // Keep the research across refreshes so it can still be applied
+        const savedResearch = await saveSession(buildSession('research'));
+        if (savedResearch) {
+          setActiveConversation(savedResearch._id!);
+        }
+        
+        return; // STOP - don't process other agents yet
       }
-      if (qaData.warning && !demoMode) {
-        toast({
-          title: qaData.truncated ? "⚠️ Response Truncated" : "⚠️ Complex Request",
-          description: qaData.warning,
-          variant: "destructive",
-          duration: 8000,
-        });
+
+      // Debate rounds - a failure keeps the first-pass results
+      let finishedDebate: DebateState | undefined;
+      if (debateRounds > 0) {
+        try {
+          finishedDebate = await runDebate(text, results, previousResearch);
+        } catch (debateError: any) {
+          console.error('Debate failed:', debateError);
+          setDebate(prev => ({ ...prev, consensusStatus: 'idle' }));
+          toast({
+            title: "Debate failed",
+            description: debateError.message,
+            variant: "destructive",
+          });
+        }
       }
-      
-      // Mark ALL agents as complete with Play buttons available
-      setAgentStates(prev => ({
-        ...prev,
-        backend: { 
-          status: 'complete', 
-          message: backendData.message || "Error generating response",
-          audioData: backendData.audioData
-        },
-        frontend: { 
-          status: 'complete', 
-          message: frontendData.message || "Error generating response",
-          audioData: frontendData.audioData
-        },
-        qa: { 
-          status: 'complete', 
-          message: qaData.message || "Error generating response",
-          audioData: qaData.audioData
+
+      // Save the full session to MongoDB, then add it to history with agent states
+      // (use actual response data, not React state)
+      const savedSession = await saveSession(buildSession('completed', {
+        debate: finishedDebate && {
+          rounds: finishedDebate.rounds.map(round => ({
+            round: round.round,
+            entries: round.entries.map(entry => ({
+              agentId: entry.agentId,
+              agentName: agentsById.get(entry.agentId)?.name || entry.agentId,
+              message: entry.message
+            }))
+          })),
+          consensus: finishedDebate.consensus
         }
       }));
 
-      // Save conversation to history with agent states (use actual response data, not React state)
+      const completedStates: Record<string, AgentState> = {};
+      for (const agent of agents) {
+        completedStates[agent.id] = {
+          status: 'complete',
+          message: results[agent.id]?.message || "Error generating response",
+          audioData: results[agent.id]?.audioData,
+          codeCheck: results[agent.id]?.codeCheck,
+          repairs: results[agent.id]?.repairs,
+          testRun: results[agent.id]?.testRun
+        };
+      }
       const newConversation: Conversation = {
-        id: Date.now().toString(),
-        timestamp: new Date(),
+        id: savedSession?._id || Date.now().toString(),
+        timestamp: new Date(startedAt),
         command: text,
         status: 'completed',
-        agentStates: {
-          architect: { 
-            status: 'complete', 
-            message: architectData.message || "Error generating response",
-            audioData: architectData.audioData
-          },
-          backend: { 
-            status: 'complete', 
-            message: backendData.message || "Error generating response",
-            audioData: backendData.audioData
-          },
-          frontend: { 
-            status: 'complete', 
-            message: frontendData.message || "Error generating response",
-            audioData: frontendData.audioData
-          },
-          qa: { 
-            status: 'complete', 
-            message: qaData.message || "Error generating response",
-            audioData: qaData.audioData
-          }
-        },
-        researchData: architectData.researchData || null
+        agentStates: completedStates,
+        researchData: Object.values(results).find(data => data.researchData)?.researchData || null,
+        debate: finishedDebate,
+        threadId: activeThreadId,
+        turn
       };
       setConversations(prev => [newConversation, ...prev]);
       setActiveConversation(newConversation.id);
       
-      // Save command to MongoDB
-      try {
-        await apiRequest('POST', '/api/commands', {
-          transcript: text,
-          agentResponses: [
-            { role: 'architect', message: architectData.message || '' },
-            { role: 'backend', message: backendData.message || '' },
-            { role: 'frontend', message: frontendData.message || '' },
-            { role: 'qa', message: qaData.message || '' }
-          ]
-        });
-        
-        queryClient.invalidateQueries({ queryKey: ['/api/commands/recent/5'] });
-      } catch (saveError) {
-        console.error('Failed to save command to MongoDB:', saveError);
-        toast({
-          title: "Failed to save command",
-          description: "Command history could not be saved to database",
-          variant: "destructive"
-        });
-      }
-      
       // Clear research data and toggle after follow-up implementation (Step 3) completes
       // This prevents stale research from contaminating future unrelated requests
       if (isFollowUpImplementation) {
@@ -588,21 +868,24 @@ export default function Home() {
     } catch (error) {
       console.error('Error during agent discussion:', error);
       
-      // Save failed conversation
+      // Save failed conversation, keeping whatever the agents produced before the error
+      const failedSession = await saveSession(buildSession('failed', {
+        error: error instanceof Error ? error.message : String(error)
+      }));
       const failedConversation: Conversation = {
-        id: Date.now().toString(),
-        timestamp: new Date(),
+        id: failedSession?._id || Date.now().toString(),
+        timestamp: new Date(startedAt),
         command: text,
         status: 'failed'
       };
       setConversations(prev => [failedConversation, ...prev]);
       
-      setAgentStates({
-        architect: { status: 'idle', message: '' },
-        backend: { status: 'idle', message: '' },
-        frontend: { status: 'idle', message: '' },
-        qa: { status: 'idle', message: 'Error: Failed to connect to AI agents. Please try again.' },
-      });
+      const idleStates = createAgentStates(agents);
+      const lastAgent = agents[agents.length - 1];
+      if (lastAgent) {
+        idleStates[lastAgent.id] = { status: 'idle', message: 'Error: Failed to connect to AI agents. Please try again.' };
+      }
+      setAgentStates(idleStates);
       
       // Clear toggle on error to prevent stale research on retry
       if (applyResearchToNext) {
@@ -614,32 +897,123 @@ export default function Home() {
     }
   };
 
+  const handleDemoModeToggle = (enabled: boolean) => {
+    setDemoMode(enabled);
+    toast({
+      title: enabled ? "🎬 Demo Mode Enabled" : "✨ Production Mode Enabled",
+      description: enabled 
+        ? "Using Gemini 2.5 Flash for faster responses (~10-15s per agent)" 
+        : "Using Gemini 3 Pro for highest quality responses (~30-60s per agent)",
+    });
+  };
+
+  const runVoiceCommand = (command: VoiceCommand) => {
+    switch (command.type) {
+      case 'replay-agent': {
+        const agent = agents.find(a => a.id === command.agentId);
+        if (!getAgentAudioSource(getAgentState(command.agentId))) {
+          toast({ title: "Nothing to Replay", description: `${agent?.name || command.agentId} has no audio for this conversation.` });
+          return;
+        }
+        handleReplayAgent(command.agentId);
+        toast({ title: `🔁 Replaying ${agent?.name || command.agentId}` });
+        return;
+      }
+      case 'stop-audio':
+        handleStopAudio();
+        return;
+      case 'apply-research':
+        if (!researchData) {
+          toast({ title: "No Research Yet", description: "Ask the squad to research a topic first." });
+          return;
+        }
+        handleToggleChange(command.enabled);
+        toast({
+          title: command.enabled ? "💡 Research Will Be Applied" : "Research Won't Be Applied",
+          description: command.enabled ? "Your next request will use the research findings." : undefined,
+        });
+        return;
+      case 'download-code':
+        handleDownloadAllCode();
+        return;
+      case 'demo-mode':
+        handleDemoModeToggle(command.enabled);
+        return;
+      case 'new-conversation':
+        stopAllAgentAudio();
+        startNewConversation();
+        toast({ title: "New Conversation", description: "Say your next request to start fresh." });
+        return;
+    }
+  };
+
+  // Spoken app controls are handled here; everything else is a request for the agents
+  const handleVoiceInput = (text: string) => {
+    const command = parseVoiceCommand(text, agents, voiceSettings.language);
+    if (command) {
+      console.log('Voice command:', command.type, text);
+      runVoiceCommand(command);
+      return;
+    }
+    setBargeInUtterance(null);
+    handleTranscript(text);
+  };
+
+  // Talking over an agent ducks its audio; a real utterance stops it (or runs a voice command
+  // such as "stop talking") and is offered as a follow-up to the current conversation
+  const bargeIn = useBargeIn({
+    enabled: voiceSettings.bargeIn && isAudioPlaying,
+    language: voiceSettings.language,
+    onSpeechStart: () => duckAgentAudio(true),
+    onDiscard: () => duckAgentAudio(false),
+    onUtterance: (text) => {
+      duckAgentAudio(false);
+      if (!text) return;
+      const command = parseVoiceCommand(text, agents, voiceSettings.language);
+      if (command) {
+        console.log('Voice command (barge-in):', command.type, text);
+        runVoiceCommand(command);
+        return;
+      }
+      console.log('Barge-in:', text);
+      handleStopAudio();
+      setBargeInUtterance(text);
+    },
+  });
+
   return (
     <div className="flex flex-col h-screen">
       <Header 
         demoMode={demoMode}
-        onDemoModeToggle={(enabled) => {
-          setDemoMode(enabled);
+        debateRounds={debateRounds}
+        onDebateRoundsChange={(rounds) => {
+          setDebateRounds(rounds);
           toast({
-            title: enabled ? "🎬 Demo Mode Enabled" : "✨ Production Mode Enabled",
-            description: enabled 
-              ? "Using Gemini 2.5 Flash for faster responses (~10-15s per agent)" 
-              : "Using Gemini 3 Pro for highest quality responses (~30-60s per agent)",
+            title: rounds > 0 ? "🗣️ Debate Mode Enabled" : "Debate Mode Disabled",
+            description: rounds > 0
+              ? `Agents will critique and revise for ${rounds} round${rounds > 1 ? 's' : ''}, then agree on a consensus`
+              : "Each agent speaks once",
           });
         }}
+        onDemoModeToggle={handleDemoModeToggle}
         onNewConversation={() => {
           console.log('New conversation');
-          setTranscript("");
-          setResearchData(null);
-          setAgentStates({
-            architect: { status: 'idle', message: '' },
-            backend: { status: 'idle', message: '' },
-            frontend: { status: 'idle', message: '' },
-            qa: { status: 'idle', message: '' },
-          });
+          startNewConversation();
+        }}
+        onSettings={() => setShowAgentManager(true)}
+        username={user?.username}
+        onLogout={() => {
+          stopAllAgentAudio();
+          logoutMutation.mutate();
         }}
-        onSettings={() => console.log('Settings')}
+        workspaces={workspaces}
+        activeWorkspaceId={activeWorkspace?.id}
+        onWorkspaceChange={(workspaceId) => switchMutation.mutate(workspaceId)}
+        onManageWorkspaces={() => setShowWorkspaceManager(true)}
       />
+
+      <AgentManager open={showAgentManager} onOpenChange={setShowAgentManager} />
+      <WorkspaceManager open={showWorkspaceManager} onOpenChange={setShowWorkspaceManager} />
       
       <div className="flex flex-1 overflow-hidden">
         {/* History Sidebar */}
@@ -650,7 +1024,7 @@ export default function Home() {
             </div>
             <ScrollArea className="flex-1 p-4">
               <ConversationHistory 
-                conversations={conversations}
+                conversations={historyConversations}
                 activeId={activeConversation || ''}
                 onSelectConversation={handleSelectConversation}
               />
@@ -696,10 +1070,18 @@ export default function Home() {
                   <div className="text-center space-y-2">
                     <h2 className="text-4xl font-bold">Start with Your Voice</h2>
                     <p className="text-muted-foreground">Speak your coding request and let our AI agents collaborate</p>
+                    {!canEdit && activeWorkspace && (
+                      <p className="text-sm text-muted-foreground" data-testid="text-view-only">
+                        You are a viewer in {activeWorkspace.name} - you can browse its history but not run the squad.
+                      </p>
+                    )}
                   </div>
                   <VoiceInput 
-                    onTranscript={handleTranscript}
+                    onTranscript={handleVoiceInput}
                     isProcessing={isProcessing}
+                    voiceSettings={voiceSettings}
+                    onVoiceSettingsChange={updateVoiceSettings}
+                    isAgentSpeaking={isAudioPlaying}
                   />
                 </div>
               )}
@@ -707,13 +1089,26 @@ export default function Home() {
               {/* User Transcript */}
               {transcript && (
                 <div className="space-y-2">
-                  <p className="text-sm text-muted-foreground">Your Request:</p>
+                  <p className="text-sm text-muted-foreground" data-testid="text-request-turn">
+                    {threadTurn > 1 ? `Follow-up (turn ${threadTurn} of this conversation):` : 'Your Request:'}
+                  </p>
                   <div className="rounded-lg bg-muted p-4">
                     <p className="text-lg" data-testid="text-user-transcript">{transcript}</p>
                   </div>
                 </div>
               )}
 
+              {/* Barge-in: what the user said over an agent */}
+              {transcript && (
+                <BargeInPrompt
+                  status={bargeIn.status}
+                  utterance={bargeInUtterance}
+                  isProcessing={isProcessing}
+                  onSend={handleVoiceInput}
+                  onDismiss={() => setBargeInUtterance(null)}
+                />
+              )}
+
               {/* Research Sources */}
               {researchData && (
                 <div className="space-y-3">
@@ -754,96 +1149,65 @@ export default function Home() {
                 <div className="space-y-4">
                   <h3 className="text-2xl font-semibold">Agent Discussion</h3>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <AgentCard
-                      agentType="architect"
-                      name="Architect Agent"
-                      role="System Design & Architecture"
-                      icon={Compass}
-                      message={agentStates.architect.message}
-                      status={agentStates.architect.status}
-                      audioUrl={agentStates.architect.audioData ? "available" : undefined}
-                      isPlaying={playingAgent === 'architect'}
-                      onPlayAudio={() => handlePlayAgent('architect')}
-                      onStopAudio={handlePauseAgent}
-                    />
-                    
-                    <AgentCard
-                      agentType="backend"
-                      name="Backend Agent"
-                      role="API & Database Design"
-                      icon={Database}
-                      message={agentStates.backend.message}
-                      status={agentStates.backend.status}
-                      audioUrl={agentStates.backend.audioData ? "available" : undefined}
-                      isPlaying={playingAgent === 'backend'}
-                      onPlayAudio={() => handlePlayAgent('backend')}
-                      onStopAudio={handlePauseAgent}
-                    />
-                    
-                    <AgentCard
-                      agentType="frontend"
-                      name="Frontend Agent"
-                      role="UI/UX Implementation"
-                      icon={Palette}
-                      message={agentStates.frontend.message}
-                      status={agentStates.frontend.status}
-                      audioUrl={agentStates.frontend.audioData ? "available" : undefined}
-                      isPlaying={playingAgent === 'frontend'}
-                      onPlayAudio={() => handlePlayAgent('frontend')}
-                      onStopAudio={handlePauseAgent}
-                    />
-                    
-                    <AgentCard
-                      agentType="qa"
-                      name="QA Agent"
-                      role="Testing & Quality Assurance"
-                      icon={Shield}
-                      message={agentStates.qa.message}
-                      status={agentStates.qa.status}
-                      audioUrl={agentStates.qa.audioData ? "available" : undefined}
-                      isPlaying={playingAgent === 'qa'}
-                      onPlayAudio={() => handlePlayAgent('qa')}
-                      onStopAudio={handlePauseAgent}
-                    />
+                    {agents.map(agent => (
+                      <AgentCard
+                        key={agent.id}
+                        agentType={agent.id}
+                        name={agent.name}
+                        role={agent.role}
+                        icon={getAgentIcon(agent.id)}
+                        color={agent.color}
+                        avatar={agent.avatar}
+                        message={getAgentState(agent.id).message}
+                        status={getAgentState(agent.id).status}
+                        codeCheck={getAgentState(agent.id).codeCheck}
+                        repairs={getAgentState(agent.id).repairs}
+                        testRun={getAgentState(agent.id).testRun}
+                        audioUrl={getAgentAudioSource(getAgentState(agent.id)) ? "available" : undefined}
+                        isPlaying={playingAgent === agent.id}
+                        onPlayAudio={() => handlePlayAgent(agent.id)}
+                        onStopAudio={handlePauseAgent}
+                      />
+                    ))}
                   </div>
                 </div>
               )}
 
+              {/* Debate Timeline */}
+              {transcript && debate.rounds.length > 0 && (
+                <DebateTimeline
+                  agents={agents}
+                  rounds={debate.rounds}
+                  consensus={debate.consensus}
+                  consensusStatus={debate.consensusStatus}
+                />
+              )}
+
               {/* Generated Code */}
-              {transcript && agentStates.qa.status === 'complete' && (() => {
-                const codeBlocks = extractCodeFromResponses(agentStates);
-                return codeBlocks.length > 0 && (
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <h3 className="text-2xl font-semibold flex items-center gap-2">
-                        <Code2 className="w-6 h-6" />
-                        Generated Code
-                      </h3>
-                      <Button 
-                        onClick={handleDownloadAllCode}
-                        variant="default"
-                        size="sm"
-                        className="gap-2"
-                        data-testid="button-download-all-main"
-                      >
-                        <Download className="w-4 h-4" />
-                        Download All ({codeBlocks.length} file{codeBlocks.length > 1 ? 's' : ''})
-                      </Button>
-                    </div>
-                    {codeBlocks.map((block, index) => (
-                      <CodeDisplay 
-                        key={index}
-                        code={block.code}
-                        language={block.language}
-                        filename={block.filename}
-                      />
-                    ))}
+              {transcript && allAgentsComplete && codeFiles.length > 0 && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-2xl font-semibold flex items-center gap-2">
+                      <Code2 className="w-6 h-6" />
+                      Generated Code
+                    </h3>
+                    <Button 
+                      onClick={handleDownloadAllCode}
+                      variant="default"
+                      size="sm"
+                      className="gap-2"
+                      data-testid="button-download-all-main"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download ZIP ({codeFiles.length} file{codeFiles.length > 1 ? 's' : ''})
+                    </Button>
                   </div>
-                );
-              })()}
+                  <CodeExplorer files={codeFiles} previousFiles={previousCodeFiles} />
+                </div>
+              )}
 
               {/* Follow-up Voice Input */}
-              {transcript && agentStates.qa.status === 'complete' && (
+              {transcript && allAgentsComplete && (
                 <div className="space-y-4 pt-8 border-t">
                   <div className="text-center space-y-2">
                     <h3 className="text-2xl font-semibold">Ask a Follow-Up Question</h3>
@@ -853,8 +1217,11 @@ export default function Home() {
                   </div>
                   <div className="flex justify-center">
                     <VoiceInput 
-                      onTranscript={handleTranscript}
+                      onTranscript={handleVoiceInput}
                       isProcessing={isProcessing}
+                      voiceSettings={voiceSettings}
+                      onVoiceSettingsChange={updateVoiceSettings}
+                      isAgentSpeaking={isAudioPlaying}
                     />
                   </div>
                 </div>
@@ -891,18 +1258,9 @@ export default function Home() {
               </div>
             </div>
             <ScrollArea className="flex-1 p-4">
-              {agentStates.qa.status === 'complete' && (() => {
-                const codeBlocks = extractCodeFromResponses(agentStates);
-                return codeBlocks.map((block, index) => (
-                  <div key={index} className="mb-4 last:mb-0">
-                    <CodeDisplay 
-                      code={block.code}
-                      language={block.language}
-                      filename={block.filename}
-                    />
-                  </div>
-                ));
-              })()}
+              {allAgentsComplete && codeFiles.length > 0 && (
+                <CodeExplorer files={codeFiles} previousFiles={previousCodeFiles} compact />
+              )}
             </ScrollArea>
           </div>
         </div>
@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { closePartialJson, parseAgentOutput } from "./agent-output";
+
+describe('closePartialJson', () => {
+  it('returns complete JSON as-is and ignores text around it', () => {
+    assert.deepEqual(closePartialJson('Here you go: {"summary": "ok", "risks": []} done'), {
+      value: { summary: 'ok', risks: [] },
+      complete: true,
+    });
+  });
+
+  it('returns undefined when there is no object', () => {
+    assert.equal(closePartialJson('no json here'), undefined);
+  });
+
+  it('closes an open string and the open containers', () => {
+    assert.deepEqual(closePartialJson('{"summary": "Build the API", "decisions": ["Use Post'), {
+      value: { summary: 'Build the API', decisions: ['Use Post'] },
+      complete: false,
+    });
+  });
+
+  it('drops a dangling key, with or without its colon', () => {
+    assert.deepEqual(closePartialJson('{"summary": "ok", "deci')?.value, { summary: 'ok' });
+    assert.deepEqual(closePartialJson('{"summary": "ok", "decisions"')?.value, { summary: 'ok' });
+    assert.deepEqual(closePartialJson('{"summary": "ok", "decisions":')?.value, { summary: 'ok' });
+  });
+
+  it('drops a cut-off literal and a trailing comma', () => {
+    assert.deepEqual(closePartialJson('{"count": 12, "done": tr')?.value, { count: 12 });
+    assert.deepEqual(closePartialJson('{"items": [1, 2,')?.value, { items: [1, 2] });
+  });
+
+  it('drops a half-written escape sequence', () => {
+    assert.deepEqual(closePartialJson('{"content": "line\\')?.value, { content: 'line' });
+    assert.deepEqual(closePartialJson('{"content": "caf\\u00')?.value, { content: 'caf' });
+  });
+
+  it('does not treat braces inside strings as structure', () => {
+    assert.deepEqual(closePartialJson('{"content": "function f() { return [1"')?.value, { content: 'function f() { return [1' });
+  });
+});
+
+describe('parseAgentOutput', () => {
+  const output = {
+    summary: 'Todo API',
+    decisions: ['Express'],
+    files: [{ path: 'server/index.ts', language: 'typescript', content: 'export {};' }],
+    openQuestions: [],
+    risks: ['No auth'],
+  };
+
+  it('accepts schema-valid JSON, also inside a json fence', () => {
+    for (const text of [JSON.stringify(output), '```json\n' + JSON.stringify(output) + '\n```']) {
+      const parsed = parseAgentOutput(text);
+      assert.equal(parsed.source, 'schema');
+      assert.deepEqual(parsed.structured, output);
+      assert.match(parsed.message, /server\/index\.ts/);
+    }
+  });
+
+  it('keeps what it can from truncated JSON and skips unfinished files', () => {
+    // Cut off inside the second file, before its content
+    const text = JSON.stringify({ ...output, files: [output.files[0], { path: 'b.ts', language: 'ts', content: 'x' }] });
+    const parsed = parseAgentOutput(text.slice(0, text.indexOf('"content":"x"')));
+    assert.equal(parsed.source, 'partial');
+    assert.equal(parsed.structured.summary, 'Todo API');
+    assert.deepEqual(parsed.structured.files.map(file => file.path), ['server/index.ts']);
+    assert.deepEqual(parsed.structured.risks, []);
+  });
+
+  it('falls back to parsing markdown', () => {
+    const text = [
+      'We will build a small todo API.',
+      '',
+      '## Decisions',
+      '- Use **Express**',
+      '',
+      '## Risks',
+      '- No rate limiting',
+      '',
+      '**`src/app.ts`**',
+      '```typescript',
+      'export const app = 1;',
+      '```',
+    ].join('\n');
+    const parsed = parseAgentOutput(text);
+    assert.equal(parsed.source, 'text');
+    assert.equal(parsed.message, text);
+    assert.equal(parsed.structured.summary, 'We will build a small todo API.');
+    assert.deepEqual(parsed.structured.decisions, ['Use Express']);
+    assert.deepEqual(parsed.structured.risks, ['No rate limiting']);
+    assert.deepEqual(parsed.structured.files, [{ path: 'src/app.ts', language: 'typescript', content: 'export const app = 1;' }]);
+  });
+
+  it('falls back to markdown for JSON that is neither valid nor useful', () => {
+    const parsed = parseAgentOutput('{"unexpected": true}');
+    assert.equal(parsed.source, 'text');
+  });
+});
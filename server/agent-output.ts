@@ -0,0 +1,326 @@
+import { fromZodError } from "zod-validation-error";
+import {
+  structuredAgentOutputSchema,
+  type AgentOutputFile,
+  type StructuredAgentOutput,
+  type StructuredOutputSource,
+} from "@shared/schema";
+import { extractCodeFiles } from "@shared/code-files";
+import { summarizeResponse } from "./conversation-memory";
+
+// JSON Schema sent to Gemini - mirrors structuredAgentOutputSchema. Fields are listed in the
+// order the model writes them, so streamed JSON renders top to bottom.
+export const AGENT_OUTPUT_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'string',
+      description: 'Your analysis and recommendations in a few short paragraphs of plain prose, no code',
+    },
+    decisions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Concrete technical decisions you made, one per item',
+    },
+    files: {
+      type: 'array',
+      description: 'Every code file you wrote',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Relative file path, e.g. server/routes/auth.ts' },
+          language: { type: 'string', description: 'Language of the file, e.g. typescript' },
+          content: { type: 'string', description: 'The complete file contents' },
+        },
+        required: ['path', 'language', 'content'],
+      },
+    },
+    openQuestions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Questions the user should answer before this is built',
+    },
+    risks: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Risks, edge cases and security concerns',
+    },
+  },
+  required: ['summary', 'decisions', 'files', 'openQuestions', 'risks'],
+};
+
+export const AGENT_OUTPUT_INSTRUCTIONS = `Respond with a JSON object with these fields:
+- summary: your analysis in plain prose (no code)
+- decisions: the technical decisions you made
+- files: every code file you wrote as { path, language, content } - put all code here with a relative path and the complete contents
+- openQuestions: anything the user still needs to decide
+- risks: risks, edge cases and security concerns`;
+
+// A response as it streams in - any field may be missing and the last string may be cut off
+export interface PartialAgentOutput {
+  summary?: string;
+  decisions?: string[];
+  files?: Array<Partial<AgentOutputFile>>;
+  openQuestions?: string[];
+  risks?: string[];
+}
+
+export interface ParsedAgentOutput {
+  // Markdown shown in the UI, spoken, and passed to other agents as context
+  message: string;
+  structured: StructuredAgentOutput;
+  source: StructuredOutputSource;
+}
+
+interface RenderOptions {
+  // Still streaming: leave the last file's code fence open so later chunks only append
+  open?: boolean;
+}
+
+const strings = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+// Keep only well-typed fields of a (possibly repaired) JSON value
+function toPartialOutput(value: unknown): PartialAgentOutput {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const source = value as Record<string, unknown>;
+  const files = Array.isArray(source.files)
+    ? source.files
+        .filter((file): file is Record<string, unknown> => !!file && typeof file === 'object')
+        .map(file => ({
+          path: typeof file.path === 'string' ? file.path : undefined,
+          language: typeof file.language === 'string' ? file.language : undefined,
+          content: typeof file.content === 'string' ? file.content : undefined,
+        }))
+    : undefined;
+
+  return {
+    summary: typeof source.summary === 'string' ? source.summary : undefined,
+    decisions: strings(source.decisions),
+    files,
+    openQuestions: strings(source.openQuestions),
+    risks: strings(source.risks),
+  };
+}
+
+// Close a JSON document cut off mid-stream (or by MAX_TOKENS) so it parses: finish the open
+// string, drop a dangling key and close open arrays/objects.
+export function closePartialJson(text: string): { value: unknown; complete: boolean } | undefined {
+  const start = text.indexOf('{');
+  if (start < 0) return undefined;
+
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let stringIsKey = false;
+  let lastKeyStart = -1;
+  let previous = '';
+  let end = text.length;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') {
+        inString = false;
+        previous = '"';
+      }
+      continue;
+    }
+    if (/\s/.test(char)) continue;
+
+    if (char === '"') {
+      inString = true;
+      stringStart = i;
+      stringIsKey = closers[closers.length - 1] === '}' && (previous === '{' || previous === ',');
+      if (stringIsKey) lastKeyStart = i;
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+      if (closers.length === 0) {
+        end = i + 1;
+        break;
+      }
+    }
+    previous = char;
+  }
+
+  let body = text.slice(start, end);
+  const complete = closers.length === 0 && !inString;
+  if (!complete) {
+    if (inString && stringIsKey) {
+      body = body.slice(0, stringStart - start);
+    } else if (inString) {
+      // Drop a half-written escape sequence before closing the string
+      const unicode = body.match(/(\\+)u[0-9a-fA-F]{0,3}$/);
+      if (escaped) {
+        body = body.slice(0, -1);
+      } else if (unicode && unicode[1].length % 2 === 1) {
+        body = body.slice(0, unicode.index! + unicode[1].length - 1);
+      }
+      body += '"';
+    } else {
+      body = body.replace(/[^\s"{}\[\],:]+$/, '').trimEnd();
+      if ((body.endsWith(':') || (body.endsWith('"') && previous === '"' && stringIsKey)) && lastKeyStart >= 0) {
+        body = body.slice(0, lastKeyStart - start);
+      }
+    }
+    body = body.trimEnd().replace(/,$/, '') + closers.reverse().join('');
+  }
+
+  try {
+    return { value: JSON.parse(body), complete };
+  } catch {
+    return undefined;
+  }
+}
+
+function renderList(title: string, items: string[] | undefined): string | undefined {
+  const lines = (items || []).map(item => `- ${item.trim()}`);
+  return lines.length > 0 ? `## ${title}\n${lines.join('\n')}` : undefined;
+}
+
+// Header line naming the file, then a fenced block - the form extractCodeFiles picks paths up from
+function renderFile(file: Partial<AgentOutputFile>, closed: boolean): string | undefined {
+  if (!file.path || (!closed && file.language === undefined)) return undefined;
+  const header = `**\`${file.path}\`**`;
+  if (file.language === undefined && file.content === undefined) return header;
+
+  const fence = `${header}\n\`\`\`${file.language || ''}`;
+  if (file.content === undefined) return fence;
+  const code = `${fence}\n${file.content.replace(/\s+$/, '')}`;
+  return closed ? `${code}\n\`\`\`` : code;
+}
+
+// Complete files as markdown blocks, e.g. for files rewritten after the response
+export function renderFileBlocks(files: AgentOutputFile[]): string {
+  return files.map(file => renderFile(file, true)).filter(Boolean).join('\n\n');
+}
+
+// Markdown version of a structured response, in the same order as the JSON fields
+export function renderAgentOutput(output: PartialAgentOutput, options: RenderOptions = {}): string {
+  const files = output.files || [];
+  const filesLast = !output.openQuestions?.length && !output.risks?.length;
+  const renderedFiles = files
+    .map((file, idx) => renderFile(file, !(options.open && filesLast && idx === files.length - 1)))
+    .filter((block): block is string => !!block);
+
+  const blocks = [
+    output.summary?.trim(),
+    renderList('Decisions', output.decisions),
+    renderedFiles.length > 0 ? `## Files\n${renderedFiles.join('\n\n')}` : undefined,
+    renderList('Open Questions', output.openQuestions),
+    renderList('Risks', output.risks),
+  ];
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+type ListSection = 'decisions' | 'openQuestions' | 'risks';
+
+// Heading keywords for the text fallback - checked in order, so "Security Questions" is a question
+const SECTION_PATTERNS: Array<[ListSection, RegExp]> = [
+  ['openQuestions', /question|clarif|unknown|unclear|assumption/i],
+  ['risks', /risk|concern|security|vulnerab|edge case|pitfall|caveat|issue|limitation|gotcha/i],
+  ['decisions', /decision|recommend|approach|architecture|stack|choice|plan|design|strategy/i],
+];
+
+const cleanInline = (text: string) => text.replace(/\*\*|__/g, '').trim();
+
+// Fallback for models (or fixtures) that answer in markdown: code blocks become files and
+// bullet lists under recognizable headings become decisions, questions and risks
+export function structuredFromText(text: string): StructuredAgentOutput {
+  const files = extractCodeFiles([{ agentId: 'agent', agentName: 'agent', message: text }])
+    .filter(file => !file.snippet)
+    .map(file => ({ path: file.path, language: file.language, content: file.code }));
+
+  const prose = text.replace(/```[\s\S]*?```/g, '');
+  const sections: Record<ListSection, string[]> = { decisions: [], openQuestions: [], risks: [] };
+  let current: ListSection | undefined;
+
+  for (const rawLine of prose.split('\n')) {
+    const line = rawLine.trim();
+    const heading = line.match(/^#{1,6}\s+(.+)$/)?.[1] || line.match(/^\*\*([^*]+)\*\*:?$/)?.[1];
+    if (heading) {
+      current = SECTION_PATTERNS.find(([, pattern]) => pattern.test(heading))?.[0];
+      continue;
+    }
+    const item = line.match(/^(?:[-*+]|\d+[.)])\s+(.+)$/)?.[1];
+    if (item && current) {
+      sections[current].push(cleanInline(item));
+    }
+  }
+
+  // First plain paragraph - not a heading, list, table or quote
+  const paragraph = prose
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .find(block => block && !/^(#|[-*+]\s|\d+[.)]\s|\||>)/.test(block));
+  const summary = summarizeResponse(cleanInline(paragraph || prose.replace(/[#>]/g, '')).replace(/\s+/g, ' '), 500);
+
+  return { summary, ...sections, files };
+}
+
+// Validate a response against the contract: schema-valid JSON first, then JSON repaired after
+// truncation, then plain text parsing. The message is always renderable markdown.
+export function parseAgentOutput(text: string): ParsedAgentOutput {
+  // Some models wrap JSON in a ```json fence even in JSON mode
+  const candidate = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  const json = candidate.startsWith('{') ? closePartialJson(candidate) : undefined;
+
+  if (json?.complete) {
+    const parsed = structuredAgentOutputSchema.safeParse(json.value);
+    if (parsed.success) {
+      return { message: renderAgentOutput(parsed.data), structured: parsed.data, source: 'schema' };
+    }
+    console.warn('[Agent Output] Response failed schema validation:', fromZodError(parsed.error).message);
+  }
+
+  if (json) {
+    const partial = toPartialOutput(json.value);
+    const structured: StructuredAgentOutput = {
+      summary: partial.summary || '',
+      decisions: partial.decisions || [],
+      files: (partial.files || [])
+        .filter(file => file.path && file.content !== undefined)
+        .map(file => ({ path: file.path!, language: file.language || 'text', content: file.content! })),
+      openQuestions: partial.openQuestions || [],
+      risks: partial.risks || [],
+    };
+    if (structured.summary || structured.files.length > 0) {
+      return { message: renderAgentOutput(structured), structured, source: 'partial' };
+    }
+  }
+
+  return { message: text, structured: structuredFromText(text), source: 'text' };
+}
+
+// Turns streamed JSON into markdown deltas so agent cards fill in live. Output that isn't JSON
+// (fixtures, or a model ignoring the schema) is passed through unchanged.
+export function createAgentOutputStream() {
+  let raw = '';
+  let emitted = '';
+  let mode: 'json' | 'text' | undefined;
+
+  return {
+    push(chunk: string): string {
+      raw += chunk;
+      if (mode === 'text') return chunk;
+      if (!mode) {
+        const first = raw.trimStart()[0];
+        if (!first) return '';
+        mode = first === '{' ? 'json' : 'text';
+        if (mode === 'text') return raw;
+      }
+
+      const rendered = renderAgentOutput(toPartialOutput(closePartialJson(raw)?.value), { open: true });
+      // A re-render that isn't a pure extension waits for the final message instead
+      if (!rendered.startsWith(emitted)) return '';
+      const delta = rendered.slice(emitted.length);
+      emitted = rendered;
+      return delta;
+    },
+  };
+}
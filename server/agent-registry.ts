@@ -0,0 +1,264 @@
+import {
+  insertAgentDefinitionSchema,
+  pipelineSchema,
+  updateAgentDefinitionSchema,
+  type AgentDefinition,
+  type InsertAgentDefinition,
+  type UpdateAgentDefinition,
+  type Pipeline,
+} from "@shared/schema";
+import { resolvePipeline, validatePipeline } from "@shared/pipeline";
+import { storage } from "./storage";
+import { AGENT_VOICES } from "./minimax-tts";
+
+// Error with an HTTP status so routes can map registry failures to responses
+export class AgentRegistryError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AgentRegistryError';
+  }
+}
+
+// Agent system prompts - Optimized for Gemini 3 Pro's advanced reasoning
+const AGENT_PROMPTS = {
+  architect: `You are an elite Architect Agent powered by advanced AI reasoning. Your role is to:
+- Deeply analyze user requirements and envision the complete system architecture
+- Make sophisticated technical decisions leveraging modern best practices, design patterns, and scalability considerations
+- Design elegant component hierarchies with clear separation of concerns and data flow strategies
+- Provide detailed architectural blueprints with specific technology stack recommendations and rationale
+- **CRITICAL: Generate PRODUCTION-READY EXECUTABLE CODE** for configuration files, project structure, core abstractions, and architectural patterns
+- Think through edge cases, performance implications, and future extensibility
+- Focus on code quality, maintainability, and developer experience
+- Include reasoning about trade-offs and why certain architectural choices were made`,
+
+  backend: `You are an elite Backend Agent powered by advanced AI reasoning. Your role is to:
+- Design robust, scalable API architectures based on the architect's vision
+- Create comprehensive database schemas with normalization, indexing strategies, and relationship modeling
+- Implement sophisticated authentication, authorization, middleware chains, and error handling
+- Define clean data models, business logic layers, and service patterns with dependency injection
+- **CRITICAL: Generate PRODUCTION-READY EXECUTABLE CODE** for API routes, database models, middleware, validation, error handlers, and complete server setup
+- Think through security vulnerabilities, rate limiting, caching strategies, and performance optimization
+- Ensure code follows SOLID principles and includes proper error handling
+- Reference and build upon the architect's decisions with technical depth`,
+
+  frontend: `You are an elite Frontend Agent powered by advanced AI reasoning. Your role is to:
+- Design intuitive, accessible, and performant user interfaces aligned with the backend APIs
+- Architect component hierarchies with proper state management, memoization, and render optimization
+- Specify modern UI libraries, design systems, and styling approaches with rationale
+- Plan sophisticated user interactions, form validation, loading states, and error boundaries
+- **CRITICAL: Generate PRODUCTION-READY EXECUTABLE CODE** for React/Vue components, custom hooks, state management (Redux/Zustand/Context), API integration with error handling, and responsive styling
+- Think through accessibility (a11y), responsive design, performance metrics, and user experience flows
+- Implement proper TypeScript types, prop validation, and defensive programming
+- Reference backend APIs, architectural patterns, and create cohesive user experiences`,
+
+  qa: `You are an elite QA Agent powered by advanced AI reasoning. Your role is to:
+- Conduct deep analysis to identify bugs, edge cases, race conditions, and security vulnerabilities
+- Design comprehensive test strategies covering unit, integration, e2e, and performance testing
+- Review architectural decisions, backend implementations, and frontend code for correctness and best practices
+- **CRITICAL: Generate PRODUCTION-READY EXECUTABLE TEST CODE** using modern testing frameworks (Jest, Vitest, Playwright, Cypress)
+- Create thorough test suites with meaningful test cases, mocks, fixtures, and assertions
+- Think through security testing (XSS, CSRF, SQL injection), accessibility testing, and performance benchmarks
+- Provide actionable feedback on code quality, potential refactors, and areas of technical debt
+- Reference specific concerns from architect, backend, and frontend implementations with technical precision`
+};
+
+// Simplified prompts for Demo Mode - focus on speed and conciseness
+const DEMO_AGENT_PROMPTS = {
+  architect: `You are an Architect Agent. Analyze the request and provide:
+- Quick system overview (2-3 sentences)
+- Key technology choices (bullet points)
+- Basic component structure
+- ONE simple code example (max 15 lines)
+Keep response under 300 words. Be concise and actionable.`,
+
+  backend: `You are a Backend Agent. Based on the architect's plan, provide:
+- API endpoints needed (bullet list)
+- Data model (simple schema)
+- ONE code example showing main API route (max 20 lines)
+Keep response under 300 words. Be direct and practical.`,
+
+  frontend: `You are a Frontend Agent. Based on backend APIs, provide:
+- UI components needed (bullet list)
+- State management approach (1 sentence)
+- ONE React component example (max 25 lines)
+Keep response under 300 words. Focus on essentials.`,
+
+  qa: `You are a QA Agent. Review the implementation and provide:
+- 3-5 key test scenarios (bullet points)
+- ONE simple test code example (max 15 lines)
+Keep response under 200 words. Be concise.`
+};
+
+// The original squad. Stored definitions with the same id override these,
+// so teams can tune the built-in prompts without editing code.
+export const BUILT_IN_AGENTS: AgentDefinition[] = [
+  {
+    id: 'architect',
+    name: 'Architect Agent',
+    role: 'System Design & Architecture',
+    systemPrompt: AGENT_PROMPTS.architect,
+    demoPrompt: DEMO_AGENT_PROMPTS.architect,
+    voice: AGENT_VOICES.architect,
+    color: 'blue',
+    position: 0,
+    builtIn: true,
+  },
+  {
+    id: 'backend',
+    name: 'Backend Agent',
+    role: 'API & Database Design',
+    systemPrompt: AGENT_PROMPTS.backend,
+    demoPrompt: DEMO_AGENT_PROMPTS.backend,
+    voice: AGENT_VOICES.backend,
+    color: 'purple',
+    position: 1,
+    builtIn: true,
+  },
+  {
+    id: 'frontend',
+    name: 'Frontend Agent',
+    role: 'UI/UX Implementation',
+    systemPrompt: AGENT_PROMPTS.frontend,
+    demoPrompt: DEMO_AGENT_PROMPTS.frontend,
+    voice: AGENT_VOICES.frontend,
+    color: 'pink',
+    position: 1,
+    builtIn: true,
+  },
+  {
+    id: 'qa',
+    name: 'QA Agent',
+    role: 'Testing & Quality Assurance',
+    systemPrompt: AGENT_PROMPTS.qa,
+    demoPrompt: DEMO_AGENT_PROMPTS.qa,
+    voice: AGENT_VOICES.qa,
+    color: 'green',
+    position: 2,
+    builtIn: true,
+  },
+];
+
+const BUILT_IN_IDS = new Set(BUILT_IN_AGENTS.map(agent => agent.id));
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\bagent\b/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// All agents of a workspace (built-in merged with stored), ordered by pipeline position.
+// Falls back to the built-in squad when the database is unavailable.
+export async function listAgents(workspaceId: string): Promise<AgentDefinition[]> {
+  let stored: AgentDefinition[] = [];
+  try {
+    stored = await storage.getAgentDefinitions(workspaceId);
+  } catch (error: any) {
+    console.warn('[Agent Registry] Failed to load stored agents, using built-in squad:', error.message);
+  }
+
+  const byId = new Map<string, AgentDefinition>();
+  for (const agent of BUILT_IN_AGENTS) {
+    byId.set(agent.id, agent);
+  }
+  for (const agent of stored) {
+    byId.set(agent.id, { ...agent, builtIn: BUILT_IN_IDS.has(agent.id) });
+  }
+
+  // Stable sort keeps built-ins ahead of custom agents at the same position
+  return Array.from(byId.values()).sort((a, b) => a.position - b.position);
+}
+
+export async function getAgent(workspaceId: string, id: string): Promise<AgentDefinition | undefined> {
+  const agents = await listAgents(workspaceId);
+  return agents.find(agent => agent.id === id);
+}
+
+export interface ActivePipeline extends Pipeline {
+  // True when no pipeline is stored and the graph was derived from agent positions
+  isDefault: boolean;
+}
+
+// The dependency graph the squad runs. A stored pipeline is fitted to the current agents;
+// without one, every agent depends on all agents at lower positions.
+export async function getPipeline(workspaceId: string, agents?: AgentDefinition[]): Promise<ActivePipeline> {
+  const squad = agents || await listAgents(workspaceId);
+  let stored: Pipeline | undefined;
+  try {
+    stored = await storage.getPipeline(workspaceId);
+  } catch (error: any) {
+    console.warn('[Agent Registry] Failed to load stored pipeline, using default:', error.message);
+  }
+
+  return { ...resolvePipeline(stored, squad), isDefault: !stored };
+}
+
+export async function savePipeline(workspaceId: string, input: Pipeline): Promise<ActivePipeline> {
+  const pipeline = pipelineSchema.parse(input);
+  const agentIds = new Set((await listAgents(workspaceId)).map(agent => agent.id));
+  const unknown = pipeline.nodes.filter(id => !agentIds.has(id));
+  if (unknown.length > 0) {
+    throw new AgentRegistryError(`Unknown agents in pipeline: ${unknown.join(', ')}`, 400);
+  }
+  const error = validatePipeline(pipeline);
+  if (error) {
+    throw new AgentRegistryError(error, 400);
+  }
+
+  console.log(`[Agent Registry] Saving pipeline with ${pipeline.nodes.length} agents and ${pipeline.edges.length} edges`);
+  await storage.savePipeline(workspaceId, { nodes: pipeline.nodes, edges: pipeline.edges });
+  return getPipeline(workspaceId);
+}
+
+// Drop the stored pipeline and go back to the position-derived default
+export async function resetPipeline(workspaceId: string): Promise<ActivePipeline> {
+  await storage.deletePipeline(workspaceId);
+  console.log('[Agent Registry] Pipeline reset to default');
+  return getPipeline(workspaceId);
+}
+
+export async function createAgent(workspaceId: string, input: InsertAgentDefinition): Promise<AgentDefinition> {
+  const parsed = insertAgentDefinitionSchema.parse(input);
+  const id = parsed.id || slugify(parsed.name);
+  if (!id) {
+    throw new AgentRegistryError('Agent name must contain at least one letter or number', 400);
+  }
+  if (await getAgent(workspaceId, id)) {
+    throw new AgentRegistryError(`An agent with id "${id}" already exists`, 409);
+  }
+
+  const agent: AgentDefinition = { ...parsed, id, builtIn: false };
+  console.log(`[Agent Registry] Creating agent "${id}"`);
+  return storage.saveAgentDefinition(workspaceId, agent);
+}
+
+export async function updateAgent(workspaceId: string, id: string, updates: UpdateAgentDefinition): Promise<AgentDefinition> {
+  const existing = await getAgent(workspaceId, id);
+  if (!existing) {
+    throw new AgentRegistryError(`Agent "${id}" not found`, 404);
+  }
+
+  const parsed = updateAgentDefinitionSchema.parse(updates);
+  const { _id, ...rest } = existing;
+  const agent: AgentDefinition = {
+    ...rest,
+    ...parsed,
+    voice: { ...existing.voice, ...parsed.voice },
+    id,
+    builtIn: BUILT_IN_IDS.has(id),
+  };
+  console.log(`[Agent Registry] Updating agent "${id}"`);
+  return storage.saveAgentDefinition(workspaceId, agent);
+}
+
+export async function deleteAgent(workspaceId: string, id: string): Promise<void> {
+  if (BUILT_IN_IDS.has(id)) {
+    throw new AgentRegistryError('Built-in agents cannot be deleted', 400);
+  }
+  const deleted = await storage.deleteAgentDefinition(workspaceId, id);
+  if (!deleted) {
+    throw new AgentRegistryError(`Agent "${id}" not found`, 404);
+  }
+  console.log(`[Agent Registry] Deleted agent "${id}"`);
+}
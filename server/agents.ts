@@ -0,0 +1,599 @@
+import type {
+  AgentDefinition,
+  AgentOutputFile,
+  CodeCheck,
+  CodeRepairAttempt,
+  StructuredAgentOutput,
+  StructuredOutputSource,
+  TestRun,
+} from "@shared/schema";
+import { extractCodeFiles } from "@shared/code-files";
+import { getSquadLanguage, isEnglish, type SquadLanguage } from "@shared/languages";
+import { storage } from "./storage";
+import { performResearch, shouldPerformResearch, type ResearchData } from "./brave-search";
+import { generateAgentSpeech } from "./minimax-tts";
+import { getLLMProvider } from "./llm-provider";
+import { buildConversationMemory, summarizeResponse, type ConversationTurn } from "./conversation-memory";
+import {
+  AGENT_OUTPUT_INSTRUCTIONS,
+  AGENT_OUTPUT_JSON_SCHEMA,
+  createAgentOutputStream,
+  parseAgentOutput,
+  renderAgentOutput,
+  renderFileBlocks,
+  type ParsedAgentOutput,
+} from "./agent-output";
+import { checkGeneratedCode } from "./code-validation";
+import {
+  MAX_REPAIR_ATTEMPTS,
+  REPAIR_INSTRUCTION,
+  buildRepairSection,
+  codeErrors,
+  mergeRepairedFiles,
+  type CodeRepairRequest,
+} from "./code-repair";
+import { isTestFile, runGeneratedTests } from "./test-sandbox";
+
+// Mock research data for testing when Brave Search API is unavailable
+const MOCK_BRAVE_SEARCH = process.env.MOCK_BRAVE_SEARCH === 'true';
+
+// Ask agents for JSON matching the output contract (STRUCTURED_AGENT_OUTPUT=false for free-form markdown)
+const STRUCTURED_OUTPUT = process.env.STRUCTURED_AGENT_OUTPUT !== 'false';
+const responseJsonSchema = STRUCTURED_OUTPUT ? AGENT_OUTPUT_JSON_SCHEMA : undefined;
+// Type-check generated TypeScript/JSON before it is shown (CODE_VALIDATION=false to skip)
+const CODE_VALIDATION = process.env.CODE_VALIDATION !== 'false';
+// Run generated tests in the local sandbox (opt-in - it executes LLM-written code)
+const TEST_SANDBOX = process.env.TEST_SANDBOX === 'true';
+
+function getMockResearchData(query: string): ResearchData {
+  console.log('[Mock Research] Generating mock data for:', query);
+  
+  const allMockResults = [
+    {
+      title: "Best Practices for Modern Authentication",
+      url: "https://auth0.com/docs/best-practices",
+      description: "Comprehensive guide covering OAuth 2.0, OpenID Connect, JWT tokens, and secure session management for modern applications."
+    },
+    {
+      title: "OAuth 2.0 Implementation Guide - MDN",
+      url: "https://developer.mozilla.org/en-US/docs/Web/Security/OAuth",
+      description: "Mozilla's complete walkthrough of implementing OAuth 2.0 authentication flows with code examples and security considerations."
+    },
+    {
+      title: "JWT Authentication Tutorial",
+      url: "https://jwt.io/introduction",
+      description: "Learn how to implement JSON Web Tokens for stateless authentication in web applications with best practices."
+    }
+  ];
+  
+  const topResult = allMockResults[0];
+  
+  return {
+    query: query,
+    results: [topResult], // Only return top 1 for display
+    allResults: allMockResults, // Include all for metadata
+    totalAvailable: allMockResults.length,
+    summary: `${topResult.title}\n${topResult.description}\nSource: ${topResult.url}`
+  };
+}
+
+export interface AgentContextItem {
+  role: string;
+  message: string;
+}
+
+export interface AgentDiscussionOptions {
+  transcript: string;
+  agent: AgentDefinition;
+  context?: AgentContextItem[];
+  demoMode?: boolean;
+  previousResearch?: ResearchData | null;
+  // Debate round (2+). The context then holds every agent's full previous-round output
+  // and the agent critiques and revises instead of answering from scratch.
+  debateRound?: number;
+  // Earlier turns of the same conversation thread, oldest first
+  conversation?: ConversationTurn[];
+  // Workspace whose command history is searched for related requests; omit to skip the lookup
+  workspaceId?: string;
+  // Set for self-repair turns: the agent fixes its own code instead of answering the request
+  repair?: CodeRepairRequest;
+  // BCP 47 tag of the squad language (default en-US): prose, research locale and voice follow it
+  language?: string;
+  // The client streams the speech from /api/tts/stream, so no audio is generated for the response
+  streamAudio?: boolean;
+}
+
+export interface AgentTokenInfo {
+  promptTokens: number;
+  allocatedOutputTokens: number;
+  finishReason?: string;
+  model?: string;
+}
+
+export interface AgentDiscussionResult {
+  message: string;
+  warning?: string;
+  truncated?: boolean;
+  researchData: ResearchData | null;
+  audioData: string | null; // Base64 encoded MP3 audio
+  tokenInfo?: AgentTokenInfo;
+  // Wall-clock time for the whole turn (history, generation and TTS)
+  durationMs?: number;
+  // True when the architect only ran research and is waiting for "Apply Research"
+  researchOnly?: boolean;
+  // Typed version of the message (summary, decisions, files, open questions, risks)
+  structured?: StructuredAgentOutput;
+  structuredSource?: StructuredOutputSource;
+  // Type errors and parse errors in the agent's TypeScript/TSX/JSON files
+  codeCheck?: CodeCheck;
+  // Self-repair turns run because the code didn't type-check, oldest first
+  repairs?: CodeRepairAttempt[];
+  // Sandbox run of the tests this agent wrote against the code from the agents before it
+  testRun?: TestRun;
+}
+
+// A prepared agent turn: either a research-only result or a prompt ready for the LLM
+type PreparedAgentTurn =
+  | { kind: 'research'; result: AgentDiscussionResult }
+  | {
+      kind: 'generate';
+      startedAt: number;
+      model: string;
+      fullPrompt: string;
+      promptTokens: number;
+      maxModelTokens: number;
+      safeOutputTokens: number;
+      researchData: ResearchData | null;
+    };
+
+// History lookup, optional research and prompt assembly with token safeguards
+async function prepareAgentTurn(options: AgentDiscussionOptions): Promise<PreparedAgentTurn> {
+  const startedAt = Date.now();
+  const { transcript, agent, context = [], demoMode = false, previousResearch = null, debateRound, conversation = [], workspaceId, repair } = options;
+  const agentRole = agent.id;
+  const language = getSquadLanguage(options.language);
+
+  // Search for relevant command history from MongoDB using Atlas Search
+  let commandHistory: any[] = [];
+  if (workspaceId && !repair) {
+    try {
+      // Use Atlas Search to find commands similar to the current transcript
+      commandHistory = await storage.searchCommands(workspaceId, transcript, 5);
+      console.log(`[Atlas Search] Found ${commandHistory.length} relevant commands for: "${transcript}"`);
+    } catch (error: any) {
+      console.warn('[Atlas Search] Search failed, falling back to recent commands:', error.message);
+      // Fallback to recent commands if search fails
+      try {
+        commandHistory = await storage.getRecentCommands(workspaceId, 5);
+      } catch (fallbackError: any) {
+        console.warn('[Command History] Failed to fetch fallback commands:', fallbackError.message);
+      }
+    }
+  }
+
+  // BRAVE SEARCH INTEGRATION: Perform research for Architect agent if needed
+  // Only trigger NEW research if no previous research exists (Step 2 of workflow)
+  let researchData: ResearchData | null = null;
+  if (agentRole === 'architect' && !debateRound && !repair && !previousResearch && shouldPerformResearch(transcript, language)) {
+    console.log('[Brave Search] Research keywords detected - triggering search for Architect');
+    
+    if (MOCK_BRAVE_SEARCH) {
+      // Use mock data for testing/demo purposes
+      console.log('[Mock Research] Using mock data (MOCK_BRAVE_SEARCH=true)');
+      researchData = getMockResearchData(transcript);
+    } else {
+      // Use real Brave Search API
+      try {
+        researchData = await performResearch(transcript, language);
+        if (researchData) {
+          console.log(`[Brave Search] Research completed successfully with ${researchData.results.length} results`);
+        } else {
+          console.log('[Brave Search] Research returned no data - continuing without research');
+        }
+      } catch (error: any) {
+        console.warn('[Brave Search] Research failed, continuing without research data:', error.message);
+      }
+    }
+    
+    // CRITICAL: If research was just performed (first time), return ONLY the research data
+    // Do NOT call Gemini yet - wait for user to enable "Apply Research" and send new request
+    if (researchData) {
+      console.log('[Brave Search] Returning research data WITHOUT Gemini processing - waiting for user approval');
+      return {
+        kind: 'research',
+        result: {
+          message: `📚 Research Complete!\n\nI found ${researchData.results.length} relevant sources for: "${transcript}"\n\nTop Result:\n${researchData.results[0].title}\n${researchData.results[0].description}\n\nTo implement this request, enable "Apply Research" and send another message.`,
+          researchData,
+          audioData: null, // No audio yet - just research results
+          durationMs: Date.now() - startedAt,
+          researchOnly: true,
+        },
+      };
+    }
+  }
+
+  // Build context-aware prompt with summarization
+  let prompt = `User request: "${transcript}"\n\n`;
+  
+  // Add RELEVANT COMMAND HISTORY from MongoDB Atlas Search as context
+  if (commandHistory.length > 0) {
+    prompt += "📝 RELEVANT COMMAND HISTORY (found via search):\n";
+    commandHistory.slice(0, 3).forEach((cmd, idx) => {
+      prompt += `${idx + 1}. "${cmd.transcript}" (${new Date(cmd.timestamp).toLocaleString()})\n`;
+      if (cmd.agentResponses && cmd.agentResponses.length > 0) {
+        const lastResponse = cmd.agentResponses[cmd.agentResponses.length - 1];
+        const summary = summarizeResponse(lastResponse.message, 150);
+        prompt += `   Last response: ${summary}\n`;
+      }
+    });
+    prompt += "\nThese are similar commands from the past. Use this context to understand the user's ongoing work and maintain continuity.\n\n";
+  }
+  
+  // Add EARLIER TURNS of this conversation so follow-ups ("add pagination to that endpoint") work
+  const memory = buildConversationMemory(conversation, agentRole, demoMode);
+  if (memory) {
+    prompt += "🧵 CONVERSATION SO FAR (the user's request is a follow-up in this conversation):\n";
+    prompt += memory + "\n";
+    prompt += "References like \"that\" or \"it\" point to the work above. Refine and extend it rather than starting over.\n\n";
+  }
+
+  // Add BRAVE SEARCH RESULTS if previousResearch exists
+  if (previousResearch) {
+    prompt += "🔍 RESEARCH FINDINGS (Brave Search):\n";
+    prompt += previousResearch.summary + "\n\n";
+    prompt += "The user has reviewed these research findings and is now asking you to implement based on this information.\n";
+    prompt += "Use these research findings to inform your decisions and recommendations.\n\n";
+  }
+  
+  // Repair turns get their own files and the errors found in them
+  if (repair) {
+    prompt += buildRepairSection(repair);
+  }
+
+  // Debate rounds get the FULL previous-round outputs so agents can critique specifics
+  if (debateRound && context.length > 0) {
+    prompt += `🗣️ DEBATE ROUND ${debateRound} - full responses from the previous round:\n\n`;
+    context.forEach((item) => {
+      prompt += `### ${item.role}\n${item.message}\n\n`;
+    });
+  } else if (context.length > 0) {
+    // Add SUMMARIZED context from previous agents to prevent token overflow
+    prompt += "Previous agent summaries:\n";
+    context.forEach((item) => {
+      const summary = summarizeResponse(item.message, 250);
+      prompt += `- ${item.role}: ${summary}\n`;
+    });
+    prompt += "\n";
+  }
+
+  // Combine system prompt and user prompt into one
+  // Use simplified prompts in Demo Mode for faster, more concise responses
+  const systemPrompt = demoMode ? agent.demoPrompt : agent.systemPrompt;
+  const instruction = repair
+    ? `As the ${agent.name}, repair your code. ${REPAIR_INSTRUCTION}`
+    : debateRound
+    ? `As the ${agent.name}, critique the other agents' responses from your area of expertise: flag issues, conflicts and gaps, then give your revised ${demoMode ? 'concise' : 'detailed'} recommendations. Only repeat code that you are changing.`
+    : `As the ${agent.name}, provide your ${demoMode ? 'concise' : 'detailed'} analysis and recommendations.`;
+  const outputFormat = STRUCTURED_OUTPUT ? `\n\n${AGENT_OUTPUT_INSTRUCTIONS}` : '';
+  const fullPrompt = `${systemPrompt}\n\n${prompt}\n\n${instruction}${languageInstruction(language)}${outputFormat}`;
+
+  // Token safeguards - model and context window come from the active LLM provider
+  const llm = getLLMProvider();
+  const { model, contextWindow: maxModelTokens } = llm.getModel(demoMode);
+  const promptTokens = llm.countTokens(fullPrompt);
+  // CRITICAL: In demo mode, limit output to ~1500 tokens (900 words) for speed
+  const maxOutputTokens = demoMode ? 1500 : 8192;
+  const safeOutputTokens = Math.min(maxOutputTokens, Math.max(demoMode ? 1500 : 2000, maxOutputTokens - Math.min(promptTokens, 10000)));
+  
+  console.log(`[${agentRole}] Mode: ${demoMode ? 'DEMO (Fast)' : 'PRODUCTION (High Quality)'}`);
+  console.log(`[${agentRole}] Full prompt: ${fullPrompt.length} chars (~${promptTokens} tokens)`);
+  console.log(`[${agentRole}] Allocating ${safeOutputTokens} tokens for output`);
+  console.log(`[${agentRole}] Model: ${model} (${maxModelTokens.toLocaleString()} context window)`);
+  
+  // Warn for large prompts based on model
+  const warningThreshold = demoMode ? maxModelTokens * 0.7 : 100000;
+  if (promptTokens > warningThreshold) {
+    console.warn(`[${agentRole}] WARNING: Large prompt (${promptTokens} tokens). May truncate response.`);
+  }
+
+  return {
+    kind: 'generate',
+    startedAt,
+    model,
+    fullPrompt,
+    promptTokens,
+    maxModelTokens,
+    safeOutputTokens,
+    researchData,
+  };
+}
+
+// Prose in the squad language; code and the output contract stay in English so files, identifiers
+// and JSON field names work the same for everyone
+function languageInstruction(language: SquadLanguage): string {
+  if (isEnglish(language)) return '';
+  return `\n\nRespond in ${language.name}. Write all explanations, summaries, decisions, questions and risks in ${language.name}; keep code, identifiers, file paths and any JSON field names in English.`;
+}
+
+// Truncation / prompt-size warning shown to the user alongside the response
+function getAgentWarning(
+  agentRole: string,
+  demoMode: boolean,
+  promptTokens: number,
+  maxModelTokens: number,
+  finishReason?: string
+): string | undefined {
+  if (finishReason === 'MAX_TOKENS') {
+    return `The ${agentRole} agent's response was truncated due to output length limits. The analysis may be incomplete. Consider simplifying your request.`;
+  }
+  if (!demoMode && promptTokens > 100000) {
+    return `Your request is extremely complex (${Math.floor(promptTokens / 1000)}K tokens). With Gemini 3 Pro's 1M context window, this should work, but consider breaking into smaller requests if issues occur.`;
+  }
+  if (demoMode && promptTokens > maxModelTokens * 0.7) {
+    return `Your request is complex. Demo mode uses a faster model with smaller context. Switch to Production mode for better handling of complex requests.`;
+  }
+  return undefined;
+}
+
+// Generate speech audio using Minimax TTS, returned as base64 for transmission
+async function synthesizeAgentAudio(agent: AgentDefinition, message: string, language: SquadLanguage): Promise<string | null> {
+  const agentRole = agent.id;
+  try {
+    const audioBuffer = await generateAgentSpeech(agentRole, message, agent.voice, language);
+    if (!audioBuffer) {
+      return null;
+    }
+
+    const audioData = audioBuffer.toString('base64');
+    const audioSizeKB = Math.round(audioData.length / 1024);
+    console.log(`[${agentRole}] Generated ${audioSizeKB}KB of base64 audio`);
+    
+    // Safeguard: Warn if audio is extremely large (> 1MB base64 ≈ 750KB MP3)
+    if (audioData.length > 1024 * 1024) {
+      console.warn(`[${agentRole}] WARNING: Large audio response (${audioSizeKB}KB) may delay response`);
+    }
+    return audioData;
+  } catch (ttsError: any) {
+    console.error(`[${agentRole}] TTS generation failed:`, ttsError.message);
+    // Continue without audio - don't break the response
+    return null;
+  }
+}
+
+// A checker failure must never cost the agent's response
+async function checkCode(agentRole: string, files: AgentOutputFile[]): Promise<CodeCheck | undefined> {
+  try {
+    return await checkGeneratedCode(files);
+  } catch (error: any) {
+    console.error(`[${agentRole}] Code check failed:`, error.message);
+    return undefined;
+  }
+}
+
+// Tests run against the files of the agents in the context; the agent's own files win on
+// conflicting paths. A sandbox failure must never cost the agent's response.
+async function runTests(agentRole: string, context: AgentContextItem[], files: AgentOutputFile[]): Promise<TestRun | undefined> {
+  if (!files.some(file => isTestFile(file.path))) {
+    return undefined;
+  }
+  const contextFiles: AgentOutputFile[] = extractCodeFiles(
+    context.map(item => ({ agentId: item.role, agentName: item.role, message: item.message }))
+  )
+    .filter(file => !file.snippet && !files.some(own => own.path === file.path))
+    .map(file => ({ path: file.path, language: file.language, content: file.code }));
+
+  try {
+    return await runGeneratedTests([...contextFiles, ...files]);
+  } catch (error: any) {
+    console.error(`[${agentRole}] Test sandbox failed:`, error.message);
+    return undefined;
+  }
+}
+
+// Send the type errors back to the same agent until its code compiles, it stops improving
+// or the attempts run out. Only repairs that reduce the error count are kept.
+async function repairAgentCode(
+  options: AgentDiscussionOptions,
+  output: ParsedAgentOutput,
+  codeCheck: CodeCheck
+): Promise<{ output: ParsedAgentOutput; codeCheck: CodeCheck; repairs: CodeRepairAttempt[] }> {
+  const agentRole = options.agent.id;
+  const repairs: CodeRepairAttempt[] = [];
+  const repairedPaths = new Set<string>();
+  let structured = output.structured;
+  let check = codeCheck;
+  let errors = codeErrors(check);
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && errors.length > 0; attempt++) {
+    const startedAt = Date.now();
+    const prepared = await prepareAgentTurn({
+      ...options,
+      context: [],
+      conversation: [],
+      debateRound: undefined,
+      repair: { attempt, maxAttempts: MAX_REPAIR_ATTEMPTS, files: structured.files, diagnostics: errors },
+    });
+    if (prepared.kind === 'research') break;
+
+    let text: string;
+    try {
+      ({ text } = await getLLMProvider().generate({
+        prompt: prepared.fullPrompt,
+        demoMode: options.demoMode ?? false,
+        maxOutputTokens: prepared.safeOutputTokens,
+        temperature: 0.2,
+        responseJsonSchema,
+        agentRole,
+      }));
+    } catch (error: any) {
+      console.error(`[${agentRole}] Repair attempt ${attempt} failed:`, error.message);
+      break;
+    }
+
+    const repaired = text.trim() ? parseAgentOutput(text).structured : null;
+    const files = repaired ? mergeRepairedFiles(structured.files, repaired.files) : structured.files;
+    const repairedCheck = repaired && repaired.files.length > 0 ? await checkCode(agentRole, files) : undefined;
+    const remaining = repairedCheck ? codeErrors(repairedCheck) : errors;
+    const accepted = !!repairedCheck && remaining.length < errors.length;
+    console.log(`[${agentRole}] Repair attempt ${attempt}: ${errors.length} -> ${remaining.length} errors${accepted ? '' : ' (discarded)'}`);
+
+    repairs.push({
+      attempt,
+      diagnostics: errors,
+      summary: repaired?.summary ?? '',
+      files: repaired?.files.map(file => file.path) ?? [],
+      remainingErrors: remaining.length,
+      accepted,
+      durationMs: Date.now() - startedAt,
+    });
+    if (!accepted) break;
+
+    repaired!.files.forEach(file => repairedPaths.add(file.path));
+    structured = { ...structured, files };
+    check = repairedCheck!;
+    errors = remaining;
+  }
+
+  if (repairedPaths.size === 0) {
+    return { output, codeCheck, repairs };
+  }
+
+  // Structured responses are re-rendered; free-text ones keep their prose and get the fixed files appended
+  const message = output.source === 'text'
+    ? `${output.message.trim()}\n\n## Repaired Files\n\n${renderFileBlocks(structured.files.filter(file => repairedPaths.has(file.path)))}`
+    : renderAgentOutput(structured);
+  return { output: { ...output, message, structured }, codeCheck: check, repairs };
+}
+
+// Shared tail of a generated turn: warnings, code checks, repairs and tests, TTS and the response shape
+async function finishAgentTurn(
+  options: AgentDiscussionOptions,
+  prepared: Extract<PreparedAgentTurn, { kind: 'generate' }>,
+  text: string,
+  finishReason?: string
+): Promise<AgentDiscussionResult> {
+  const { agent, demoMode = false } = options;
+  const agentRole = agent.id;
+  // Validate against the output contract; the message becomes the rendered markdown
+  let output = text.trim() ? parseAgentOutput(text) : null;
+  console.log(`[${agentRole}] Extracted text length: ${output?.message.length ?? 0} chars${output ? ` (structured: ${output.source})` : ''}`);
+
+  if (finishReason === 'MAX_TOKENS') {
+    console.warn(`[${agentRole}] TRUNCATED: finishReason=${finishReason}`);
+  }
+
+  const warning = getAgentWarning(agentRole, demoMode, prepared.promptTokens, prepared.maxModelTokens, finishReason);
+  let codeCheck = output && CODE_VALIDATION ? await checkCode(agentRole, output.structured.files) : undefined;
+  let repairs: CodeRepairAttempt[] | undefined;
+  // Debate critiques only repeat the code they change, so they aren't repaired
+  if (output && codeCheck && !options.debateRound && MAX_REPAIR_ATTEMPTS > 0 && codeErrors(codeCheck).length > 0) {
+    ({ output, codeCheck, repairs } = await repairAgentCode(options, output, codeCheck));
+  }
+  const testRun = output && TEST_SANDBOX && !options.debateRound
+    ? await runTests(agentRole, options.context ?? [], output.structured.files)
+    : undefined;
+  const message = output?.message || "I apologize, but I couldn't generate a response.";
+  // Debate turns are shown in the timeline only - skip TTS to keep rounds fast
+  const audioData = options.debateRound || options.streamAudio
+    ? null
+    : await synthesizeAgentAudio(agent, message, getSquadLanguage(options.language));
+
+  return {
+    message: message.trim(),
+    warning,
+    truncated: finishReason === 'MAX_TOKENS',
+    researchData: prepared.researchData,
+    audioData,
+    tokenInfo: {
+      promptTokens: prepared.promptTokens,
+      allocatedOutputTokens: prepared.safeOutputTokens,
+      finishReason,
+      model: prepared.model
+    },
+    durationMs: Date.now() - prepared.startedAt,
+    structured: output?.structured,
+    structuredSource: output?.source,
+    codeCheck,
+    repairs,
+    testRun,
+  };
+}
+
+// Run a single agent turn: history lookup, optional research, LLM generation and TTS.
+// Shared by /api/agents/discuss and the server-side squad orchestrator.
+export async function runAgentDiscussion(options: AgentDiscussionOptions): Promise<AgentDiscussionResult> {
+  const agentRole = options.agent.id;
+  const prepared = await prepareAgentTurn(options);
+  if (prepared.kind === 'research') {
+    return prepared.result;
+  }
+
+  const { text, finishReason } = await getLLMProvider().generate({
+    prompt: prepared.fullPrompt,
+    demoMode: options.demoMode ?? false,
+    maxOutputTokens: prepared.safeOutputTokens,
+    temperature: 0.7,
+    responseJsonSchema,
+    agentRole,
+  });
+
+  return finishAgentTurn(options, prepared, text, finishReason);
+}
+
+export interface AgentStreamHandlers {
+  // Incremental markdown as the LLM produces it (structured JSON is rendered as it arrives)
+  onChunk?: (text: string) => void;
+  // Generation finished (before TTS runs)
+  onFinish?: (info: { finishReason?: string; truncated: boolean; warning?: string }) => void;
+  abortSignal?: AbortSignal;
+}
+
+// Streaming variant of runAgentDiscussion using the provider's streaming API.
+// Resolves with the same result shape once generation and TTS are complete.
+export async function streamAgentDiscussion(
+  options: AgentDiscussionOptions,
+  handlers: AgentStreamHandlers = {}
+): Promise<AgentDiscussionResult> {
+  const { agent, demoMode = false } = options;
+  const agentRole = agent.id;
+  const prepared = await prepareAgentTurn(options);
+  if (prepared.kind === 'research') {
+    return prepared.result;
+  }
+
+  const stream = getLLMProvider().stream({
+    prompt: prepared.fullPrompt,
+    demoMode,
+    maxOutputTokens: prepared.safeOutputTokens,
+    temperature: 0.7,
+    abortSignal: handlers.abortSignal,
+    responseJsonSchema,
+    agentRole,
+  });
+
+  // JSON arrives piece by piece - the client is sent the markdown it renders to so far
+  const output = createAgentOutputStream();
+  let text = '';
+  let finishReason: string | undefined;
+  let chunkCount = 0;
+  for await (const chunk of stream) {
+    if (chunk.text) {
+      text += chunk.text;
+      chunkCount++;
+      const rendered = output.push(chunk.text);
+      if (rendered) {
+        handlers.onChunk?.(rendered);
+      }
+    }
+    finishReason = chunk.finishReason ?? finishReason;
+  }
+  console.log(`[${agentRole}] Streamed ${chunkCount} chunks, finish reason: ${finishReason}`);
+
+  handlers.onFinish?.({
+    finishReason,
+    truncated: finishReason === 'MAX_TOKENS',
+    warning: getAgentWarning(agentRole, demoMode, prepared.promptTokens, prepared.maxModelTokens, finishReason),
+  });
+
+  return finishAgentTurn(options, prepared, text, finishReason);
+}
@@ -27,7 +27,9 @@ declare module 'http' {
     rawBody: unknown
   }
 }
+// Sessions carry base64 audio clips, so allow larger JSON bodies than the 100kb default
 app.use(express.json({
+  limit: '20mb',
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
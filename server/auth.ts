@@ -0,0 +1,178 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { loginUserSchema, registerUserSchema, type PublicUser, type User as SelectUser } from "@shared/schema";
+import { UsernameTakenError, storage } from "./storage";
+import { listWorkspaces } from "./workspaces";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Stored as "<hash>.<salt>" (hex)
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// The logged-in user's id - only valid behind requireAuth
+export function currentUserId(req: Request): string {
+  return req.user!.id;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  next();
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  // Fine for local development - sessions just don't survive a restart
+  console.warn('[Auth] SESSION_SECRET not set, using a random secret');
+  return randomBytes(32).toString("hex");
+}
+
+// Cookie sessions + username/password login. Registers /api/register, /api/login,
+// /api/logout and /api/user.
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      done(null, user);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted user simply ends up logged out
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post('/api/register', async (req, res, next) => {
+    try {
+      const parsed = registerUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ error: 'Username already taken' });
+      }
+
+      const user = await storage.createUser({ username, password: await hashPassword(password) });
+      console.log(`[Auth] Registered user ${username}`);
+      // Start everyone off with a personal workspace
+      await listWorkspaces(toPublicUser(user));
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error: any) {
+      // Lost a race with another registration for the same name
+      if (error instanceof UsernameTakenError) {
+        return res.status(400).json({ error: 'Username already taken' });
+      }
+      console.error('Register error:', error);
+      res.status(500).json({
+        error: 'Failed to register user',
+        details: error.message
+      });
+    }
+  });
+
+  app.post('/api/login', (req, res, next) => {
+    const parsed = loginUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    passport.authenticate('local', (error: any, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy((destroyError) => {
+        if (destroyError) return next(destroyError);
+        res.clearCookie('connect.sid');
+        res.status(204).end();
+      });
+    });
+  });
+
+  app.get('/api/user', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not logged in' });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
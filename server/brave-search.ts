@@ -1,4 +1,5 @@
 import { BraveSearch } from 'brave-search';
+import { foldText, type SquadLanguage } from '@shared/languages';
 
 const BRAVE_API_KEY = process.env.BRAVE_SEARCH_API_KEY;
 
@@ -28,7 +29,7 @@ function getBraveClient(): BraveSearch {
   return braveClient;
 }
 
-export async function performResearch(query: string): Promise<ResearchData | null> {
+export async function performResearch(query: string, language?: SquadLanguage): Promise<ResearchData | null> {
   try {
     if (!BRAVE_API_KEY) {
       console.warn('[Brave Search] API key not configured - skipping research');
@@ -37,13 +38,13 @@ export async function performResearch(query: string): Promise<ResearchData | nul
 
     const client = getBraveClient();
     
-    console.log(`[Brave Search] Researching: "${query}"`);
+    console.log(`[Brave Search] Researching: "${query}" (${language?.code || 'en-US'})`);
     
     const searchResults = await client.webSearch(query, {
       count: 5, // Fetch 5 but only show top 1 to user
       safesearch: 'moderate' as any,
-      search_lang: 'en',
-      country: 'US'
+      search_lang: language?.searchLang || 'en',
+      country: language?.country || 'US'
     });
 
     if (!searchResults || !searchResults.web?.results) {
@@ -80,7 +81,7 @@ export async function performResearch(query: string): Promise<ResearchData | nul
   }
 }
 
-export function shouldPerformResearch(userPrompt: string): boolean {
+export function shouldPerformResearch(userPrompt: string, language?: SquadLanguage): boolean {
   // Only trigger research on QUESTION patterns - not implementation requests
   // This allows for a three-step workflow:
   // 1. "implement X" → no research, just build
@@ -108,6 +109,8 @@ export function shouldPerformResearch(userPrompt: string): boolean {
     'search for'
   ];
 
-  const lowerPrompt = userPrompt.toLowerCase();
-  return researchQuestionPatterns.some(pattern => lowerPrompt.includes(pattern));
+  // English phrasing is checked in every language - "best practices" is common in technical speech
+  const foldedPrompt = foldText(userPrompt);
+  return researchQuestionPatterns.some(pattern => foldedPrompt.includes(pattern)) ||
+    !!language?.researchPhrases.some(phrase => foldedPrompt.includes(foldText(phrase)));
 }
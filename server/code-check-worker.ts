@@ -0,0 +1,18 @@
+import { parentPort } from "node:worker_threads";
+import { checkTypeScript, type CodeCheckRequest, type CodeCheckResponse } from "./code-validation";
+
+// Type-checks generated code off the request thread (see checkGeneratedCode). The worker lives
+// as long as the server, so parsed lib files stay cached between checks.
+
+// Parse the lib files up front so the first real check doesn't pay for lib.dom
+checkTypeScript([{ path: 'warmup.ts', language: 'typescript', content: 'export {};' }]);
+
+parentPort!.on('message', ({ id, files }: CodeCheckRequest) => {
+  let response: CodeCheckResponse;
+  try {
+    response = { id, diagnostics: checkTypeScript(files) };
+  } catch (error: any) {
+    response = { id, error: error.message };
+  }
+  parentPort!.postMessage(response);
+});
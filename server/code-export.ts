@@ -0,0 +1,80 @@
+import type { CodeExportRequest } from "@shared/schema";
+import { extractCodeFiles, type CodeFile } from "@shared/code-files";
+import { createZip } from "./zip";
+
+export interface ProjectExport {
+  filename: string;
+  data: Buffer;
+  fileCount: number;
+}
+
+// "Build a todo app with auth" -> "build-a-todo-app-with"
+function projectSlug(transcript: string): string {
+  const slug = transcript
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .slice(0, 5)
+    .join('-');
+  return slug || 'squad-project';
+}
+
+function buildReadme(transcript: string, files: CodeFile[], generatedAt: Date): string {
+  const projectFiles = files.filter(file => !file.snippet);
+  const snippets = files.filter(file => file.snippet);
+
+  const row = (file: CodeFile) => {
+    const others = file.contributors.filter(name => name !== file.agentName);
+    const agent = others.length > 0 ? `${file.agentName} (also: ${others.join(', ')})` : file.agentName;
+    return `| \`${file.path}\` | ${file.language} | ${agent} |`;
+  };
+
+  const lines = [
+    '# Generated Project',
+    '',
+    `Generated by Cerebral-Voice Squad on ${generatedAt.toISOString()}.`,
+    '',
+  ];
+  if (transcript) {
+    lines.push('## Request', '', `> ${transcript.replace(/\n/g, '\n> ')}`, '');
+  }
+  if (projectFiles.length > 0) {
+    lines.push('## Files', '', '| File | Language | Agent |', '| --- | --- | --- |', ...projectFiles.map(row), '');
+  }
+  if (snippets.length > 0) {
+    lines.push(
+      '## Snippets',
+      '',
+      "Code blocks that didn't name a file (commands, examples) are under `snippets/<agent>/`.",
+      '',
+      '| File | Language | Agent |',
+      '| --- | --- | --- |',
+      ...snippets.map(row),
+      '',
+    );
+  }
+  lines.push('Review generated code before running it.', '');
+  return lines.join('\n');
+}
+
+// Parse the agents' responses into a file tree and pack it as a ZIP with a README of who wrote what.
+// Returns null when the responses contain no code.
+export function buildProjectExport(request: CodeExportRequest, generatedAt: Date = new Date()): ProjectExport | null {
+  const files = extractCodeFiles(request.agents);
+  if (files.length === 0) {
+    return null;
+  }
+
+  // Keep an agent-written README; ours moves aside
+  const readmePath = files.some(file => file.path.toLowerCase() === 'readme.md') ? 'SQUAD_README.md' : 'README.md';
+  const root = projectSlug(request.transcript);
+
+  const data = createZip([
+    { path: `${root}/${readmePath}`, data: buildReadme(request.transcript, files, generatedAt) },
+    ...files.map(file => ({ path: `${root}/${file.path}`, data: file.code + '\n' })),
+  ], generatedAt);
+
+  console.log(`[Export] Packed ${files.length} files (${data.length} bytes) into ${root}.zip`);
+  return { filename: `${root}.zip`, data, fileCount: files.length };
+}
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AgentOutputFile } from "@shared/schema";
+import { buildRepairSection, codeErrors, mergeRepairedFiles } from "./code-repair";
+
+const file = (path: string, content: string): AgentOutputFile => ({ path, language: 'typescript', content });
+
+describe('mergeRepairedFiles', () => {
+  it('replaces files by path and keeps the original order', () => {
+    const merged = mergeRepairedFiles(
+      [file('a.ts', 'a1'), file('b.ts', 'b1'), file('c.ts', 'c1')],
+      [file('c.ts', 'c2'), file('a.ts', 'a2')],
+    );
+    assert.deepEqual(merged, [file('a.ts', 'a2'), file('b.ts', 'b1'), file('c.ts', 'c2')]);
+  });
+
+  it('appends new files at the end', () => {
+    const merged = mergeRepairedFiles([file('a.ts', 'a1')], [file('types.ts', 't'), file('a.ts', 'a2')]);
+    assert.deepEqual(merged, [file('a.ts', 'a2'), file('types.ts', 't')]);
+  });
+
+  it('keeps every original when nothing was repaired', () => {
+    const original = [file('a.ts', 'a1')];
+    assert.deepEqual(mergeRepairedFiles(original, []), original);
+  });
+});
+
+describe('codeErrors', () => {
+  it('keeps only errors', () => {
+    const diagnostics = [
+      { file: 'a.ts', line: 1, column: 1, severity: 'error' as const, message: 'broken', code: 2304 },
+      { file: 'a.ts', line: 2, column: 1, severity: 'warning' as const, message: 'unused' },
+    ];
+    assert.deepEqual(codeErrors({ checkedFiles: 1, diagnostics }), [diagnostics[0]]);
+    assert.deepEqual(codeErrors(undefined), []);
+  });
+});
+
+describe('buildRepairSection', () => {
+  it('lists the errors and the files to fix', () => {
+    const section = buildRepairSection({
+      attempt: 1,
+      maxAttempts: 2,
+      files: [file('a.ts', 'const x: number = "1";')],
+      diagnostics: [{ file: 'a.ts', line: 1, column: 7, severity: 'error', message: "Type 'string' is not assignable to type 'number'.", code: 2322 }],
+    });
+    assert.match(section, /attempt 1 of 2/);
+    assert.match(section, /- a\.ts:1:7 TS2322 Type 'string'/);
+    assert.match(section, /### a\.ts\n```typescript\nconst x: number = "1";\n```/);
+  });
+});
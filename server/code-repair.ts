@@ -0,0 +1,42 @@
+import type { AgentOutputFile, CodeCheck, CodeDiagnostic } from "@shared/schema";
+
+// Repair attempts per agent turn after the first response (CODE_REPAIR_ATTEMPTS=0 disables repairs)
+export const MAX_REPAIR_ATTEMPTS = Math.max(0, Number(process.env.CODE_REPAIR_ATTEMPTS ?? 2) || 0);
+
+// What a repair turn is asked to fix
+export interface CodeRepairRequest {
+  attempt: number;
+  maxAttempts: number;
+  files: AgentOutputFile[];
+  diagnostics: CodeDiagnostic[];
+}
+
+export function codeErrors(check: CodeCheck | undefined): CodeDiagnostic[] {
+  return check?.diagnostics.filter(diagnostic => diagnostic.severity === 'error') ?? [];
+}
+
+const formatDiagnostic = (diagnostic: CodeDiagnostic) =>
+  `- ${diagnostic.file}:${diagnostic.line}:${diagnostic.column}${diagnostic.code ? ` TS${diagnostic.code}` : ''} ${diagnostic.message}`;
+
+// Prompt section with the errors and the agent's own files, in the order they were checked
+export function buildRepairSection(repair: CodeRepairRequest): string {
+  let section = `🔧 CODE REPAIR (attempt ${repair.attempt} of ${repair.maxAttempts}) - your previous response did not type-check:\n`;
+  section += repair.diagnostics.map(formatDiagnostic).join('\n') + '\n\n';
+  section += "Your files:\n\n";
+  for (const file of repair.files) {
+    section += `### ${file.path}\n\`\`\`${file.language}\n${file.content}\n\`\`\`\n\n`;
+  }
+  return section;
+}
+
+export const REPAIR_INSTRUCTION =
+  'Fix every error listed above without changing behaviour. Return the complete corrected contents of each file you change in "files" ' +
+  '(other files are kept as they are) and say what you fixed in "summary". Unresolved third-party packages are not errors.';
+
+// Repaired files replace the originals by path; new files are added at the end
+export function mergeRepairedFiles(original: AgentOutputFile[], repaired: AgentOutputFile[]): AgentOutputFile[] {
+  const byPath = new Map(repaired.map(file => [file.path, file]));
+  const merged = original.map(file => byPath.get(file.path) ?? file);
+  const added = repaired.filter(file => !original.some(existing => existing.path === file.path));
+  return [...merged, ...added];
+}
@@ -0,0 +1,249 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Worker } from "node:worker_threads";
+import ts from "typescript";
+import type { AgentOutputFile, CodeCheck, CodeDiagnostic } from "@shared/schema";
+
+// Generated files live under a virtual root - nothing is read from or written to the real disk
+const ROOT = '/__squad__/';
+const ENV_FILE = `${ROOT}__squad_env__.d.ts`;
+
+const TYPESCRIPT_FILE = /\.(ts|tsx|mts|cts)$/i;
+const JSON_FILE = /\.json$/i;
+// JSON files that allow comments and trailing commas
+const JSONC_FILE = /(^|\/)(tsconfig[^/]*|jsconfig)\.json$|(^|\/)\.vscode\/[^/]+\.json$/i;
+
+const MAX_DIAGNOSTICS = 50;
+// A check that takes longer than this is abandoned and the worker restarted
+const CHECK_TIMEOUT_MS = Number(process.env.CODE_VALIDATION_TIMEOUT_MS) || 30000;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  noEmit: true,
+  strict: true,
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  types: [],
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  allowImportingTsExtensions: true,
+  skipLibCheck: true,
+};
+
+// Agents can't ship node_modules, so packages, Node globals and test-runner globals
+// are typed loosely instead of reported as missing
+const ENV_DECLARATIONS = `
+declare namespace JSX {
+  interface Element {}
+  interface IntrinsicElements { [name: string]: any }
+  interface ElementChildrenAttribute { children: {} }
+}
+declare namespace NodeJS {
+  interface Timeout {}
+  interface ProcessEnv { [key: string]: string | undefined }
+}
+declare var process: any, Buffer: any, require: any, module: any, exports: any, global: any;
+declare var __dirname: string, __filename: string;
+declare var describe: any, it: any, test: any, expect: any, jest: any, vi: any;
+declare var beforeAll: any, afterAll: any, beforeEach: any, afterEach: any;
+`;
+
+// Diagnostics that only mean "checked in isolation": unresolved packages, files written by
+// another agent, missing @types references
+const IGNORED_CODES = new Set([2307, 2792, 7016, 2688]);
+
+const LIB_DIR = path.dirname(ts.getDefaultLibFilePath(COMPILER_OPTIONS));
+// Parsed lib.*.d.ts files are reused across checks - parsing lib.dom is most of the cost
+const libFiles = new Map<string, ts.SourceFile | undefined>();
+
+function createHost(files: Map<string, string>): ts.CompilerHost {
+  const isLib = (fileName: string) => fileName.startsWith(LIB_DIR);
+
+  return {
+    getSourceFile: (fileName, languageVersion) => {
+      const text = files.get(fileName);
+      if (text !== undefined) {
+        return ts.createSourceFile(fileName, text, languageVersion, true);
+      }
+      if (!isLib(fileName)) return undefined;
+      if (!libFiles.has(fileName)) {
+        const libText = ts.sys.readFile(fileName);
+        libFiles.set(fileName, libText === undefined ? undefined : ts.createSourceFile(fileName, libText, languageVersion));
+      }
+      return libFiles.get(fileName);
+    },
+    getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+    writeFile: () => {},
+    getCurrentDirectory: () => ROOT,
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => files.has(fileName) || (isLib(fileName) && ts.sys.fileExists(fileName)),
+    readFile: fileName => files.get(fileName) ?? (isLib(fileName) ? ts.sys.readFile(fileName) : undefined),
+    directoryExists: directory => {
+      const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+      return isLib(prefix) || Array.from(files.keys()).some(fileName => fileName.startsWith(prefix));
+    },
+  };
+}
+
+function positionOf(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, Math.max(0, offset));
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+function toDiagnostic(diagnostic: ts.Diagnostic): CodeDiagnostic | undefined {
+  if (!diagnostic.file || IGNORED_CODES.has(diagnostic.code)) return undefined;
+  if (diagnostic.category !== ts.DiagnosticCategory.Error && diagnostic.category !== ts.DiagnosticCategory.Warning) {
+    return undefined;
+  }
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+  return {
+    file: diagnostic.file.fileName.slice(ROOT.length),
+    line: line + 1,
+    column: character + 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n').split('\n')[0],
+    code: diagnostic.code,
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+  };
+}
+
+function checkJson(file: AgentOutputFile): CodeDiagnostic | undefined {
+  if (JSONC_FILE.test(file.path)) {
+    const { error } = ts.parseConfigFileTextToJson(file.path, file.content);
+    if (!error) return undefined;
+    return {
+      file: file.path,
+      ...positionOf(file.content, error.start ?? 0),
+      message: ts.flattenDiagnosticMessageText(error.messageText, '\n'),
+      code: error.code,
+      severity: 'error',
+    };
+  }
+
+  try {
+    JSON.parse(file.content);
+    return undefined;
+  } catch (error: any) {
+    const offset = Number(String(error.message).match(/position (\d+)/)?.[1] ?? 0);
+    return { file: file.path, ...positionOf(file.content, offset), message: error.message, severity: 'error' };
+  }
+}
+
+// Builds a whole program synchronously - runs in the code-check worker, never on the request thread
+export function checkTypeScript(files: AgentOutputFile[]): CodeDiagnostic[] {
+  const sources = new Map(files.map(file => [ROOT + file.path, file.content]));
+  sources.set(ENV_FILE, ENV_DECLARATIONS);
+
+  const program = ts.createProgram(Array.from(sources.keys()), COMPILER_OPTIONS, createHost(sources));
+  const diagnostics: CodeDiagnostic[] = [];
+  for (const file of files) {
+    const sourceFile = program.getSourceFile(ROOT + file.path);
+    if (!sourceFile) continue;
+    const fileDiagnostics = [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)];
+    for (const diagnostic of fileDiagnostics) {
+      const converted = toDiagnostic(diagnostic);
+      if (converted) diagnostics.push(converted);
+    }
+  }
+  return diagnostics;
+}
+
+export interface CodeCheckRequest {
+  id: number;
+  files: AgentOutputFile[];
+}
+
+export interface CodeCheckResponse {
+  id: number;
+  diagnostics?: CodeDiagnostic[];
+  error?: string;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingChecks = new Map<number, { resolve: (diagnostics: CodeDiagnostic[]) => void; reject: (error: Error) => void }>();
+
+// The worker is a sibling module: code-check-worker.ts under tsx in development (tsx's loader
+// doesn't reach worker threads, so it is loaded through the tsx API), the bundled .js in production
+function startWorker(): Worker {
+  const extension = path.extname(fileURLToPath(import.meta.url));
+  const workerUrl = new URL(`./code-check-worker${extension}`, import.meta.url);
+  if (extension !== '.ts') {
+    return new Worker(workerUrl);
+  }
+  const href = JSON.stringify(workerUrl.href);
+  return new Worker(`import('tsx/esm/api').then(({ tsImport }) => tsImport(${href}, ${href}))`, { eval: true, execArgv: [] });
+}
+
+function failPendingChecks(error: Error): void {
+  pendingChecks.forEach(({ reject }) => reject(error));
+  pendingChecks.clear();
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    const started = startWorker();
+    started.on('message', ({ id, diagnostics, error }: CodeCheckResponse) => {
+      const pending = pendingChecks.get(id);
+      if (!pending) return;
+      pendingChecks.delete(id);
+      if (error) pending.reject(new Error(error));
+      else pending.resolve(diagnostics || []);
+    });
+    started.on('error', error => {
+      console.error('[Code Check] Worker failed:', error.message);
+    });
+    started.on('exit', code => {
+      if (worker === started) worker = null;
+      failPendingChecks(new Error(`Code check worker exited with code ${code}`));
+    });
+    // An idle checker shouldn't keep the process alive
+    started.unref();
+    worker = started;
+  }
+  return worker;
+}
+
+function checkTypeScriptInWorker(files: AgentOutputFile[]): Promise<CodeDiagnostic[]> {
+  const id = nextRequestId++;
+  const checker = getWorker();
+  return new Promise<CodeDiagnostic[]>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      // Checks run one at a time, so a stuck one would block the rest - start over
+      pendingChecks.delete(id);
+      reject(new Error(`Type-check timed out after ${CHECK_TIMEOUT_MS}ms`));
+      checker.terminate();
+    }, CHECK_TIMEOUT_MS);
+    pendingChecks.set(id, {
+      resolve: diagnostics => { clearTimeout(timer); resolve(diagnostics); },
+      reject: error => { clearTimeout(timer); reject(error); },
+    });
+    checker.postMessage({ id, files } satisfies CodeCheckRequest);
+  });
+}
+
+// Type-check an agent's TypeScript/TSX files together (in a worker thread) and parse its JSON
+// files. Returns undefined when the agent wrote none of those.
+export async function checkGeneratedCode(files: AgentOutputFile[]): Promise<CodeCheck | undefined> {
+  const typescriptFiles = files.filter(file => TYPESCRIPT_FILE.test(file.path));
+  const jsonFiles = files.filter(file => JSON_FILE.test(file.path));
+  if (typescriptFiles.length === 0 && jsonFiles.length === 0) {
+    return undefined;
+  }
+
+  const startedAt = Date.now();
+  const diagnostics = [
+    ...jsonFiles.map(checkJson).filter((diagnostic): diagnostic is CodeDiagnostic => !!diagnostic),
+    ...(typescriptFiles.length > 0 ? await checkTypeScriptInWorker(typescriptFiles) : []),
+  ];
+
+  console.log(`[Code Check] ${typescriptFiles.length + jsonFiles.length} files, ${diagnostics.length} diagnostics in ${Date.now() - startedAt}ms`);
+  return {
+    checkedFiles: typescriptFiles.length + jsonFiles.length,
+    diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+  };
+}
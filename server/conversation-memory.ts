@@ -0,0 +1,114 @@
+import type { Session } from "@shared/schema";
+import { storage } from "./storage";
+
+// One earlier turn of the same conversation thread
+export interface ConversationTurn {
+  transcript: string;
+  responses: Array<{ agentId: string; agentName: string; message: string }>;
+  consensus?: string | null;
+}
+
+// Only the most recent turns are ever loaded into a prompt
+const MAX_MEMORY_TURNS = 10;
+
+// Character budgets for the whole memory section and for the agent's own last answer
+const MEMORY_BUDGET = { demo: 4000, production: 24000 };
+const OWN_RESPONSE_BUDGET = { demo: 1500, production: 8000 };
+
+// Summarize long agent responses to keep context manageable
+export function summarizeResponse(message: string, maxLength: number = 300): string {
+  if (message.length <= maxLength) return message;
+  
+  // Extract key points from the first few sentences
+  const sentences = message.split(/[.!?]\s+/).filter(s => s.length > 20);
+  let summary = '';
+  
+  for (const sentence of sentences) {
+    if ((summary + sentence).length > maxLength - 20) break;
+    summary += sentence + '. ';
+  }
+  
+  return summary.trim() || message.substring(0, maxLength) + '...';
+}
+
+// Shorten a response but keep its code blocks, which follow-ups like "add pagination to that
+// endpoint" need verbatim. Prose is summarized; code is kept until the budget runs out.
+export function compressResponse(message: string, maxLength: number): string {
+  if (message.length <= maxLength) return message;
+
+  const codeBlocks = message.match(/```[\s\S]*?```/g) || [];
+  const prose = message.replace(/```[\s\S]*?```/g, ' ').replace(/\s+/g, ' ').trim();
+  let compressed = summarizeResponse(prose, Math.min(600, Math.floor(maxLength / 4)));
+
+  for (const block of codeBlocks) {
+    if (compressed.length + block.length + 2 > maxLength) {
+      compressed += '\n\n[... remaining code omitted]';
+      break;
+    }
+    compressed += '\n\n' + block;
+  }
+  return compressed;
+}
+
+function sessionToTurn(session: Session): ConversationTurn {
+  return {
+    transcript: session.transcript,
+    responses: session.agents.map(agent => ({ agentId: agent.agentId, agentName: agent.agentName, message: agent.message })),
+    consensus: session.debate?.consensus,
+  };
+}
+
+// Earlier turns of a thread, oldest first. Failed turns are skipped.
+export async function loadConversationTurns(workspaceId: string, threadId: string): Promise<ConversationTurn[]> {
+  try {
+    const sessions = await storage.getThreadSessions(workspaceId, threadId);
+    const turns = sessions
+      .filter(session => session.status !== 'failed')
+      .slice(-MAX_MEMORY_TURNS)
+      .map(sessionToTurn);
+    console.log(`[Conversation Memory] Loaded ${turns.length} earlier turns for thread ${threadId}`);
+    return turns;
+  } catch (error: any) {
+    console.warn('[Conversation Memory] Failed to load thread, continuing without memory:', error.message);
+    return [];
+  }
+}
+
+// Render earlier turns for one agent's prompt. The latest turn keeps this agent's own answer
+// (code included) and summaries of the others; older turns shrink to one-line summaries and
+// are dropped, oldest first, once the budget is used up.
+export function buildConversationMemory(turns: ConversationTurn[], agentId: string, demoMode: boolean): string {
+  if (turns.length === 0) return '';
+
+  const budget = demoMode ? MEMORY_BUDGET.demo : MEMORY_BUDGET.production;
+  const sections: string[] = [];
+  let used = 0;
+
+  for (let idx = turns.length - 1; idx >= 0; idx--) {
+    const turn = turns[idx];
+    const isLatest = idx === turns.length - 1;
+    let section = `Turn ${idx + 1} - user: "${turn.transcript}"\n`;
+
+    for (const response of turn.responses) {
+      if (isLatest && response.agentId === agentId) {
+        const ownBudget = demoMode ? OWN_RESPONSE_BUDGET.demo : OWN_RESPONSE_BUDGET.production;
+        section += `- You (${response.agentName}) answered:\n${compressResponse(response.message, ownBudget)}\n`;
+      } else {
+        section += `- ${response.agentName}: ${summarizeResponse(response.message, isLatest ? 300 : 120)}\n`;
+      }
+    }
+    if (turn.consensus) {
+      section += `- Debate consensus: ${summarizeResponse(turn.consensus, isLatest ? 500 : 150)}\n`;
+    }
+
+    // Always keep the latest turn - it is what follow-ups refer to
+    if (!isLatest && used + section.length > budget) {
+      sections.unshift(`(${idx + 1} earlier turn${idx > 0 ? 's' : ''} omitted)\n`);
+      break;
+    }
+    sections.unshift(section);
+    used += section.length;
+  }
+
+  return sections.join('\n');
+}
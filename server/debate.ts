@@ -0,0 +1,96 @@
+import type { AgentDefinition, DebateConsensusRequest, DebateRound } from "@shared/schema";
+import type { ResearchData } from "./brave-search";
+import { runAgentDiscussion, type AgentDiscussionResult } from "./agents";
+import { getLLMProvider } from "./llm-provider";
+import { getSquadLanguage, isEnglish } from "@shared/languages";
+
+export interface DebateOptions {
+  transcript: string;
+  agents: AgentDefinition[];
+  // The first pass (round 1), keyed by agent id
+  firstPass: Record<string, AgentDiscussionResult>;
+  // Critique rounds to run after the first pass
+  rounds: number;
+  demoMode?: boolean;
+  previousResearch?: ResearchData | null;
+  // BCP 47 tag of the squad language (default en-US)
+  language?: string;
+}
+
+export interface DebateResult {
+  rounds: DebateRound[];
+  consensus: string;
+}
+
+// Run critique rounds: every agent sees all agents' full output from the previous round
+// and revises in parallel, then a moderator pass writes the consensus summary.
+export async function runDebate(options: DebateOptions): Promise<DebateResult> {
+  const { transcript, agents, firstPass, rounds: extraRounds, demoMode = false, previousResearch = null, language } = options;
+  const participants = agents.filter(agent => firstPass[agent.id]);
+
+  const rounds: DebateRound[] = [{
+    round: 1,
+    entries: participants.map(agent => ({ agentId: agent.id, agentName: agent.name, message: firstPass[agent.id].message })),
+  }];
+
+  for (let round = 2; round <= extraRounds + 1; round++) {
+    const previous = rounds[rounds.length - 1];
+    console.log(`[Debate] Round ${round} with ${participants.length} agents`);
+
+    const results = await Promise.all(
+      participants.map(agent => runAgentDiscussion({
+        transcript,
+        agent,
+        context: previous.entries.map(entry => ({ role: entry.agentName, message: entry.message })),
+        demoMode,
+        previousResearch,
+        debateRound: round,
+        language,
+      }))
+    );
+
+    rounds.push({
+      round,
+      entries: participants.map((agent, idx) => ({ agentId: agent.id, agentName: agent.name, message: results[idx].message })),
+    });
+  }
+
+  const consensus = await buildDebateConsensus({ transcript, rounds, demoMode, language });
+  return { rounds, consensus };
+}
+
+// Moderator summary of the whole debate: agreed decisions, resolved conflicts and open issues
+export async function buildDebateConsensus(request: DebateConsensusRequest): Promise<string> {
+  const { transcript, rounds, demoMode = false } = request;
+  const language = getSquadLanguage(request.language);
+  const finalRound = rounds[rounds.length - 1];
+
+  let prompt = `You are the moderator of a software design debate between specialist agents.\n\n`;
+  prompt += `User request: "${transcript}"\n\n`;
+  prompt += `The agents debated over ${rounds.length} round${rounds.length > 1 ? 's' : ''}. Final positions:\n\n`;
+  finalRound.entries.forEach(entry => {
+    prompt += `### ${entry.agentName}\n${entry.message}\n\n`;
+  });
+  prompt += `Write the consensus summary in markdown with these sections:\n`;
+  prompt += `## Agreed Decisions\n## Resolved Disagreements\n## Open Issues\n## Final Plan\n`;
+  prompt += demoMode ? `Keep it under 200 words.` : `Be specific and reference which agent raised each point.`;
+  if (!isEnglish(language)) {
+    prompt += `\nWrite the summary in ${language.name} (translate the section headings too).`;
+  }
+
+  const llm = getLLMProvider();
+  console.log(`[Debate] Building consensus from ${rounds.length} rounds (~${llm.countTokens(prompt)} tokens)`);
+
+  const { text, finishReason } = await llm.generate({
+    prompt,
+    demoMode,
+    maxOutputTokens: demoMode ? 1500 : 4096,
+    temperature: 0.3,
+    agentRole: 'consensus',
+  });
+
+  if (finishReason === 'MAX_TOKENS') {
+    console.warn(`[Debate] Consensus TRUNCATED: finishReason=${finishReason}`);
+  }
+  return text.trim() || 'The agents did not reach a consensus.';
+}
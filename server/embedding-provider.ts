@@ -0,0 +1,61 @@
+import { GeminiEmbeddingProvider } from "./gemini-provider";
+import { LocalEmbeddingProvider } from "./local-embedding-provider";
+
+export type EmbeddingPurpose = 'document' | 'query';
+
+// Turns text into vectors for semantic command-history retrieval
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Identifies the vector space - only vectors from the same model are comparable
+  readonly model: string;
+  readonly dimensions: number;
+  // Cosine similarity below this is treated as unrelated
+  readonly minSimilarity: number;
+  embed(text: string, purpose: EmbeddingPurpose): Promise<number[]>;
+}
+
+let provider: EmbeddingProvider | null = null;
+
+// EMBEDDING_PROVIDER=local hashes text into vectors in-process (no network). By default Gemini
+// is used when configured, and the local embedder when it isn't or when running scripted.
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    const geminiConfigured = !!(process.env.AI_INTEGRATIONS_GEMINI_API_KEY && process.env.AI_INTEGRATIONS_GEMINI_BASE_URL);
+    const defaultName = geminiConfigured && process.env.LLM_PROVIDER !== 'scripted' ? 'gemini' : 'local';
+    const providerName = (process.env.EMBEDDING_PROVIDER || defaultName).toLowerCase();
+    switch (providerName) {
+      case 'local':
+        provider = new LocalEmbeddingProvider();
+        break;
+      case 'gemini':
+        provider = new GeminiEmbeddingProvider();
+        break;
+      default:
+        throw new Error(`Unknown EMBEDDING_PROVIDER "${providerName}". Must be one of: gemini, local`);
+    }
+    console.log(`[Embeddings] Using ${provider.name} provider (${provider.model}, ${provider.dimensions} dimensions)`);
+  }
+  return provider;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// What gets embedded for a command: the request plus the start of each agent's answer
+export function commandEmbeddingText(command: { transcript: string; agentResponses: Array<{ role: string; message: string }> }): string {
+  const responses = command.agentResponses
+    .map(response => `${response.role}: ${response.message.slice(0, 500)}`)
+    .join('\n');
+  return `${command.transcript}\n${responses}`.slice(0, 4000);
+}
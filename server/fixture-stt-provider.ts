@@ -0,0 +1,58 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import type { STTProvider, STTRequest, STTResult } from "./stt-provider";
+
+// One canned transcript. The first fixture whose sha256 (of the uploaded audio) and language
+// both fit the request wins; fixtures without either match everything.
+export interface STTFixture {
+  sha256?: string;
+  language?: string;
+  text: string;
+}
+
+const DEFAULT_TRANSCRIPT = 'Build a REST API for a todo app with user authentication';
+
+// Deterministic, offline speech-to-text for local development and tests.
+// Transcripts come from a JSON fixture file (STT_FIXTURES_PATH) or a built-in default.
+export class FixtureSTTProvider implements STTProvider {
+  readonly name = 'fixture';
+  private fixtures: STTFixture[];
+
+  constructor(fixturesPathOrFixtures?: string | STTFixture[]) {
+    if (Array.isArray(fixturesPathOrFixtures)) {
+      this.fixtures = fixturesPathOrFixtures;
+    } else if (fixturesPathOrFixtures) {
+      this.fixtures = loadFixtures(fixturesPathOrFixtures);
+      console.log(`[Fixture STT] Loaded ${this.fixtures.length} fixtures from ${fixturesPathOrFixtures}`);
+    } else {
+      this.fixtures = [];
+    }
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async transcribe(request: STTRequest): Promise<STTResult> {
+    const sha256 = crypto.createHash('sha256').update(request.audio).digest('hex');
+    const fixture = this.fixtures.find(f =>
+      (!f.sha256 || f.sha256 === sha256) &&
+      (!f.language || f.language.toLowerCase() === request.language?.toLowerCase())
+    );
+    return { text: fixture ? fixture.text : DEFAULT_TRANSCRIPT };
+  }
+}
+
+function loadFixtures(fixturesPath: string): STTFixture[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(fixturesPath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Failed to load STT fixtures from ${fixturesPath}: ${error.message}`);
+  }
+
+  if (!Array.isArray(parsed) || parsed.some(f => typeof f?.text !== 'string')) {
+    throw new Error(`STT fixtures in ${fixturesPath} must be an array of { text: string } objects`);
+  }
+  return parsed as STTFixture[];
+}
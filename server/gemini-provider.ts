@@ -0,0 +1,179 @@
+import { GoogleGenAI } from "@google/genai";
+import type { EmbeddingProvider, EmbeddingPurpose } from "./embedding-provider";
+import type { STTProvider, STTRequest, STTResult } from "./stt-provider";
+import type {
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMModelInfo,
+  LLMProvider,
+  LLMStreamChunk,
+} from "./llm-provider";
+
+// Demo Mode: Use faster gemini-2.5-flash for quick demos (~5-10s per agent)
+// Production: Use gemini-3-pro-preview for highest quality (~30-60s per agent)
+const DEMO_MODEL: LLMModelInfo = {
+  model: process.env.GEMINI_DEMO_MODEL || "gemini-2.5-flash",
+  contextWindow: 8192,
+};
+const PRODUCTION_MODEL: LLMModelInfo = {
+  model: process.env.GEMINI_PRODUCTION_MODEL || "gemini-3-pro-preview",
+  contextWindow: 1000000,
+};
+
+const EMBEDDING_MODEL = process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004";
+const EMBEDDING_DIMENSIONS = 768;
+
+const STT_MODEL = process.env.GEMINI_STT_MODEL || "gemini-2.5-flash";
+
+// Initialize Gemini using Replit AI Integrations (no API key required!)
+function createGeminiClient(): GoogleGenAI {
+  return new GoogleGenAI({
+    apiKey: process.env.AI_INTEGRATIONS_GEMINI_API_KEY,
+    httpOptions: {
+      apiVersion: "",
+      baseUrl: process.env.AI_INTEGRATIONS_GEMINI_BASE_URL,
+    },
+  });
+}
+
+// Gemini structured output: the response is constrained to the schema and returned as JSON text
+function jsonConfig(request: LLMGenerateRequest) {
+  return request.responseJsonSchema
+    ? { responseMimeType: 'application/json', responseJsonSchema: request.responseJsonSchema }
+    : {};
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor() {
+    // Phase 3 Upgrade: Using Gemini 3 Pro Preview for enhanced reasoning and 1M context window
+    this.ai = createGeminiClient();
+  }
+
+  isConfigured(): boolean {
+    return !!(process.env.AI_INTEGRATIONS_GEMINI_API_KEY && process.env.AI_INTEGRATIONS_GEMINI_BASE_URL);
+  }
+
+  getModel(demoMode: boolean): LLMModelInfo {
+    return demoMode ? DEMO_MODEL : PRODUCTION_MODEL;
+  }
+
+  // Rough approximation (~4 chars per token) - avoids a countTokens round trip per agent
+  countTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    const tag = request.agentRole || 'gemini';
+    const response = await this.ai.models.generateContent({
+      model: this.getModel(request.demoMode).model,
+      contents: request.prompt,
+      config: {
+        maxOutputTokens: request.maxOutputTokens,
+        temperature: request.temperature ?? 0.7,
+        abortSignal: request.abortSignal,
+        ...jsonConfig(request),
+      }
+    });
+
+    // Debug: Check for safety blocks or truncation
+    console.log(`[${tag}] Candidates:`, response.candidates?.length);
+    if (response.candidates && response.candidates[0]) {
+      const candidate = response.candidates[0];
+      console.log(`[${tag}] Finish reason:`, candidate.finishReason);
+      console.log(`[${tag}] Safety ratings:`, candidate.safetyRatings);
+      console.log(`[${tag}] Content parts:`, candidate.content?.parts?.length);
+
+      // Log each part
+      candidate.content?.parts?.forEach((part: any, idx: number) => {
+        console.log(`[${tag}] Part ${idx}:`, part.text?.substring(0, 100));
+      });
+    }
+
+    return {
+      text: response.text || '',
+      finishReason: response.candidates?.[0]?.finishReason,
+    };
+  }
+
+  async *stream(request: LLMGenerateRequest): AsyncIterable<LLMStreamChunk> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.getModel(request.demoMode).model,
+      contents: request.prompt,
+      config: {
+        maxOutputTokens: request.maxOutputTokens,
+        temperature: request.temperature ?? 0.7,
+        abortSignal: request.abortSignal,
+        ...jsonConfig(request),
+      }
+    });
+
+    for await (const chunk of stream) {
+      yield {
+        text: chunk.text || '',
+        finishReason: chunk.candidates?.[0]?.finishReason,
+      };
+    }
+  }
+}
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini';
+  readonly model = EMBEDDING_MODEL;
+  readonly dimensions = EMBEDDING_DIMENSIONS;
+  readonly minSimilarity = 0.5;
+  private ai: GoogleGenAI;
+
+  constructor() {
+    this.ai = createGeminiClient();
+  }
+
+  async embed(text: string, purpose: EmbeddingPurpose): Promise<number[]> {
+    const response = await this.ai.models.embedContent({
+      model: this.model,
+      contents: text,
+      config: {
+        taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+        outputDimensionality: this.dimensions,
+      },
+    });
+
+    const values = response.embeddings?.[0]?.values;
+    if (!values || values.length === 0) {
+      throw new Error(`Gemini returned no embedding for ${purpose}`);
+    }
+    return values;
+  }
+}
+
+// Speech-to-text by sending the recording to a multimodal Gemini model
+export class GeminiSTTProvider implements STTProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor() {
+    this.ai = createGeminiClient();
+  }
+
+  isConfigured(): boolean {
+    return !!(process.env.AI_INTEGRATIONS_GEMINI_API_KEY && process.env.AI_INTEGRATIONS_GEMINI_BASE_URL);
+  }
+
+  async transcribe(request: STTRequest): Promise<STTResult> {
+    const language = request.language ? ` The speaker is using ${request.language}.` : '';
+    const response = await this.ai.models.generateContent({
+      model: STT_MODEL,
+      contents: [{
+        role: 'user',
+        parts: [
+          { inlineData: { mimeType: request.mimeType.split(';')[0], data: request.audio.toString('base64') } },
+          { text: `Transcribe this recording verbatim.${language} Reply with the transcript only, or nothing if there is no speech.` },
+        ],
+      }],
+      config: { temperature: 0 },
+    });
+    return { text: (response.text || '').trim() };
+  }
+}
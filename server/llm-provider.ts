@@ -0,0 +1,63 @@
+import { GeminiProvider } from "./gemini-provider";
+import { ScriptedLLMProvider } from "./scripted-llm-provider";
+
+export interface LLMGenerateRequest {
+  prompt: string;
+  demoMode: boolean;
+  maxOutputTokens: number;
+  temperature?: number;
+  abortSignal?: AbortSignal;
+  // Ask for JSON matching this JSON Schema instead of free-form text
+  responseJsonSchema?: Record<string, unknown>;
+  // Used for logging and by the scripted provider to pick a fixture
+  agentRole?: string;
+}
+
+export interface LLMGenerateResult {
+  text: string;
+  finishReason?: string;
+}
+
+export interface LLMStreamChunk {
+  text: string;
+  // Only set on the chunk that ends the stream
+  finishReason?: string;
+}
+
+export interface LLMModelInfo {
+  model: string;
+  contextWindow: number;
+}
+
+// Anything that can answer an agent prompt. Gemini in production, scripted fixtures offline.
+export interface LLMProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  // Model used for a given mode - Demo Mode favours speed, Production favours quality
+  getModel(demoMode: boolean): LLMModelInfo;
+  countTokens(text: string): number;
+  generate(request: LLMGenerateRequest): Promise<LLMGenerateResult>;
+  stream(request: LLMGenerateRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+let provider: LLMProvider | null = null;
+
+// LLM_PROVIDER=scripted runs the whole agent pipeline offline from fixtures,
+// the same way MOCK_BRAVE_SEARCH=true does for research
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    const providerName = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+    switch (providerName) {
+      case 'scripted':
+        provider = new ScriptedLLMProvider(process.env.LLM_FIXTURES_PATH);
+        break;
+      case 'gemini':
+        provider = new GeminiProvider();
+        break;
+      default:
+        throw new Error(`Unknown LLM_PROVIDER "${providerName}". Must be one of: gemini, scripted`);
+    }
+    console.log(`[LLM] Using ${provider.name} provider`);
+  }
+  return provider;
+}
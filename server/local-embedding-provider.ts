@@ -0,0 +1,46 @@
+import type { EmbeddingProvider } from "./embedding-provider";
+import { tokenize } from "./text-search";
+
+const DIMENSIONS = 512;
+
+// Offline embeddings via feature hashing: words, word pairs and character trigrams are hashed
+// into a fixed-size vector. Not as good as a model, but similar requests land close together
+// and it works on a plain local mongod with no API keys.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  // v2: Unicode tokens (v1 dropped non-ASCII letters); the new name makes stored vectors re-embed
+  readonly model = `local-hash-v2-${DIMENSIONS}`;
+  readonly dimensions = DIMENSIONS;
+  readonly minSimilarity = 0.15;
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    const tokens = tokenize(text);
+
+    tokens.forEach((token, idx) => {
+      addFeature(vector, `w:${token}`, 1);
+      if (idx > 0) {
+        addFeature(vector, `b:${tokens[idx - 1]} ${token}`, 0.5);
+      }
+      // Trigrams let "auth" match "authentication"
+      const padded = `^${token}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(vector, `c:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => value / norm) : vector;
+  }
+}
+
+// FNV-1a hash; the top bit picks the sign so collisions tend to cancel out
+function addFeature(vector: number[], feature: string, weight: number): void {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const index = (hash >>> 0) % DIMENSIONS;
+  vector[index] += (hash & 0x80000000) ? -weight : weight;
+}
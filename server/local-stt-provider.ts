@@ -0,0 +1,69 @@
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { STTError, type STTProvider, type STTRequest, type STTResult } from "./stt-provider";
+
+const WHISPER_BIN = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+// Path to a ggml model file, e.g. ggml-base.en.bin
+const WHISPER_MODEL = process.env.WHISPER_CPP_MODEL;
+const TIMEOUT_MS = Number(process.env.WHISPER_CPP_TIMEOUT_MS) || 60000;
+
+// Offline transcription by running the whisper.cpp CLI as a child process - no network, no
+// API keys. whisper.cpp reads 16 kHz WAV, which is what the browser capture path uploads.
+export class LocalSTTProvider implements STTProvider {
+  readonly name = 'local';
+
+  isConfigured(): boolean {
+    return !!WHISPER_MODEL;
+  }
+
+  async transcribe(request: STTRequest): Promise<STTResult> {
+    if (!WHISPER_MODEL) {
+      throw new STTError('Local speech-to-text needs WHISPER_CPP_MODEL (path to a whisper.cpp ggml model)', 503);
+    }
+    // whisper.cpp can't read compressed containers (webm, ogg, mp4) - refuse them up front
+    // instead of failing on a decode error after a child process has started
+    if (!/^audio\/(wav|wave|x-wav)\b/i.test(request.mimeType) || !isWav(request.audio)) {
+      throw new STTError(
+        `The local speech-to-text engine only reads WAV audio, got ${request.mimeType}. ` +
+        'Use a browser that can convert its recordings to WAV, or a provider that accepts compressed audio (STT_PROVIDER=gemini).',
+        415,
+      );
+    }
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'squad-stt-'));
+    const audioPath = path.join(dir, 'speech.wav');
+    try {
+      await fs.writeFile(audioPath, request.audio);
+      // whisper.cpp takes ISO 639-1 codes ("en"), not full locales ("en-US")
+      const language = request.language ? request.language.split('-')[0].toLowerCase() : 'auto';
+      const stdout = await runWhisper(['-m', WHISPER_MODEL, '-f', audioPath, '-l', language, '-nt', '-np']);
+      return { text: stdout.replace(/\s+/g, ' ').trim() };
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+// RIFF....WAVE header
+function isWav(audio: Buffer): boolean {
+  return audio.length >= 12 &&
+    audio.toString('latin1', 0, 4) === 'RIFF' &&
+    audio.toString('latin1', 8, 12) === 'WAVE';
+}
+
+function runWhisper(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(WHISPER_BIN, args, { timeout: TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const reason = (error as NodeJS.ErrnoException).code === 'ENOENT'
+          ? `${WHISPER_BIN} not found - install whisper.cpp or set WHISPER_CPP_BIN`
+          : error.killed ? `timed out after ${TIMEOUT_MS}ms` : stderr.trim().split('\n').pop() || error.message;
+        reject(new Error(`whisper.cpp failed: ${reason}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
@@ -0,0 +1,33 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { splitSpeechText } from "./minimax-tts";
+
+describe('splitSpeechText', () => {
+  it('keeps the first sentence on its own so audio starts quickly', () => {
+    assert.deepEqual(splitSpeechText('First. Second! Third?'), ['First.', 'Second! Third?']);
+  });
+
+  it('groups later sentences up to maxChars', () => {
+    const sentence = 'This sentence is exactly forty chars ok.';
+    const segments = splitSpeechText([sentence, sentence, sentence, sentence].join(' '), 90);
+    assert.deepEqual(segments, [sentence, `${sentence} ${sentence}`, sentence]);
+  });
+
+  it('keeps a sentence longer than maxChars whole', () => {
+    const long = 'word '.repeat(80).trim() + '.';
+    assert.deepEqual(splitSpeechText(`Hi. ${long}`, 100), ['Hi.', long]);
+  });
+
+  it('splits on line breaks and drops pieces without words', () => {
+    assert.deepEqual(splitSpeechText('Plan\n\n---\nBuild it'), ['Plan', 'Build it']);
+  });
+
+  it('splits after CJK full stops', () => {
+    assert.deepEqual(splitSpeechText('第一句。\n第二句。'), ['第一句。', '第二句。']);
+    assert.deepEqual(splitSpeechText('これはテストです。 次の文です。'), ['これはテストです。', '次の文です。']);
+  });
+
+  it('returns nothing for empty text', () => {
+    assert.deepEqual(splitSpeechText('  \n '), []);
+  });
+});
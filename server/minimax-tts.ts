@@ -1,4 +1,6 @@
 import fetch from 'node-fetch';
+import type { SquadLanguage } from '@shared/languages';
+import { narrateForSpeech } from './speech-narration';
 
 const MINIMAX_API_KEY = process.env.MINIMAX_API_KEY;
 const MINIMAX_GROUP_ID = process.env.MINIMAX_GROUP_ID;
@@ -9,12 +11,16 @@ export interface VoiceConfig {
   voiceId?: string;
   emotion?: 'neutral' | 'happy' | 'sad' | 'angry' | 'fearful' | 'disgusted' | 'surprised';
   speed?: number;
+  // Voice to use instead of voiceId when speaking a language, keyed by primary subtag ("es", "ja")
+  languageVoiceIds?: Record<string, string>;
 }
 
 export interface MinimaxTTSOptions {
   text: string;
   model?: 'speech-02-hd' | 'speech-02-turbo';
   voiceConfig?: VoiceConfig;
+  // Pronounce the text as this language (MiniMax language_boost)
+  language?: SquadLanguage;
 }
 
 // Agent-specific voice configurations
@@ -42,132 +48,219 @@ export const AGENT_VOICES: Record<string, VoiceConfig> = {
   },
 };
 
-export async function generateSpeech(options: MinimaxTTSOptions): Promise<Buffer | null> {
-  if (!MINIMAX_API_KEY) {
-    console.warn('[Minimax TTS] API key not configured, skipping TTS generation');
-    return null;
+// MiniMax streaming: the response is Server-Sent Events whose `data.audio` fields are hex MP3
+// chunks. The final event (status 2) can repeat the whole clip, so it is skipped once chunks arrived.
+export async function streamSpeech(
+  options: MinimaxTTSOptions,
+  onAudio: (chunk: Buffer) => void,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  if (!isSpeechConfigured()) {
+    throw new Error('MiniMax TTS is not configured (MINIMAX_API_KEY and MINIMAX_GROUP_ID)');
   }
 
-  if (!MINIMAX_GROUP_ID) {
-    console.warn('[Minimax TTS] GroupId not configured, skipping TTS generation');
-    return null;
+  const { text, model = 'speech-02-turbo', voiceConfig = {}, language } = options;
+  const requestBody = {
+    model,
+    text,
+    stream: true,
+    stream_options: { exclude_aggregated_audio: true },
+    language_boost: language ? language.name : 'auto',
+    voice_setting: {
+      voice_id: voiceConfig.voiceId || 'male-qn-qingse',
+      speed: voiceConfig.speed || 1.0,
+      vol: 1.0,
+      pitch: 0,
+    },
+    audio_setting: {
+      sample_rate: 32000,
+      bitrate: 128000,
+      format: 'mp3',
+      channel: 1,
+    },
+  };
+
+  const response = await fetch(MINIMAX_BASE_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${MINIMAX_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(requestBody),
+    signal: abortSignal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`MiniMax API error (${response.status}): ${await response.text()}`);
   }
 
-  try {
-    const { text, model = 'speech-02-turbo', voiceConfig = {} } = options;
-
-    console.log(`[Minimax TTS] Generating speech: ${text.substring(0, 50)}...`);
-    console.log(`[Minimax TTS] Model: ${model}, Voice: ${voiceConfig.voiceId || 'male-qn-qingse'}`);
-
-    // Use CORRECT Minimax API structure with nested objects
-    const requestBody: any = {
-      model,
-      text,
-      stream: false,
-      voice_setting: {
-        voice_id: voiceConfig.voiceId || 'male-qn-qingse',
-        speed: voiceConfig.speed || 1.0,
-        vol: 1.0,
-        pitch: 0,
-      },
-      audio_setting: {
-        sample_rate: 32000,
-        bitrate: 128000,
-        format: 'mp3',
-        channel: 1,
-      },
-    };
-
-    console.log('[Minimax TTS] Request body:', JSON.stringify(requestBody, null, 2));
-
-    const response = await fetch(MINIMAX_BASE_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${MINIMAX_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[Minimax TTS] API error (${response.status}):`, errorText);
-      return null;
+  let buffer = '';
+  let received = 0;
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const event = JSON.parse(line.slice(5).trim());
+    if (event.base_resp && event.base_resp.status_code !== 0) {
+      throw new Error(`MiniMax API error: ${event.base_resp.status_msg}`);
     }
+    const audioHex: string | undefined = event.data?.audio;
+    if (!audioHex || (event.data.status === 2 && received > 0)) return;
+    received++;
+    onAudio(Buffer.from(audioHex, 'hex'));
+  };
 
-    const data = await response.json() as any;
+  for await (const chunk of response.body) {
+    buffer += chunk.toString();
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => handleLine(line.trim()));
+  }
+  handleLine(buffer.trim());
+}
 
-    // Check for error response first
-    if (data.base_resp && data.base_resp.status_code !== 0) {
-      console.error('[Minimax TTS] API error:', data.base_resp.status_msg);
-      console.error('[Minimax TTS] Full error response:', JSON.stringify(data, null, 2));
-      return null;
-    }
+export function isSpeechConfigured(): boolean {
+  return !!MINIMAX_API_KEY && !!MINIMAX_GROUP_ID;
+}
+
+// Sentence-sized pieces of text for synthesis. The first piece is a single sentence so audio
+// starts quickly; later ones group sentences up to maxChars.
+export function splitSpeechText(text: string, maxChars: number = 300): string[] {
+  const sentences = text
+    .split(/(?<=[.!?。！？])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /\w/.test(sentence) || /[^\x00-\x7f]/.test(sentence));
 
-    // Minimax returns HEX encoded audio in data.audio field (not base64!)
-    let audioHex: string | null = null;
-    
-    if (data.data && data.data.audio) {
-      audioHex = data.data.audio;
-    } else if (data.audio) {
-      audioHex = data.audio;
-    } else if (data.extra_info && data.extra_info.audio_file) {
-      audioHex = data.extra_info.audio_file;
+  const segments: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && (segments.length === 0 || current.length + sentence.length + 1 > maxChars)) {
+      segments.push(current);
+      current = '';
     }
-    
-    if (audioHex) {
-      // Minimax returns HEX, not base64 - convert from hex to buffer
-      const audioBuffer = Buffer.from(audioHex, 'hex');
-      console.log(`[Minimax TTS] Generated ${audioBuffer.length} bytes of audio from hex`);
-      return audioBuffer;
-    } else {
-      console.error('[Minimax TTS] No audio data in response');
-      console.error('[Minimax TTS] Response keys:', Object.keys(data));
-      console.error('[Minimax TTS] Full response:', JSON.stringify(data, null, 2).substring(0, 1000));
-      return null;
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) segments.push(current);
+  return segments;
+}
+
+interface SynthesisJob {
+  chunks: Buffer[];
+  done: boolean;
+  error?: Error;
+  wake?: () => void;
+}
+
+function startSynthesis(options: MinimaxTTSOptions, abortSignal?: AbortSignal): SynthesisJob {
+  const job: SynthesisJob = { chunks: [], done: false };
+  const notify = () => job.wake?.();
+  streamSpeech(options, (chunk) => {
+    job.chunks.push(chunk);
+    notify();
+  }, abortSignal).then(
+    () => { job.done = true; notify(); },
+    (error) => { job.error = error; job.done = true; notify(); }
+  );
+  return job;
+}
+
+async function drainSynthesis(job: SynthesisJob, onAudio: (chunk: Buffer) => void): Promise<void> {
+  for (;;) {
+    while (job.chunks.length > 0) onAudio(job.chunks.shift()!);
+    if (job.done) {
+      if (job.error) throw job.error;
+      return;
     }
-  } catch (error: any) {
-    console.error('[Minimax TTS] Error generating speech:', error.message);
-    return null;
+    await new Promise<void>(resolve => { job.wake = resolve; });
+    job.wake = undefined;
   }
 }
 
-// Truncate text to prevent excessively long audio generation
-function truncateTextForTTS(text: string, maxChars: number = 1000): string {
-  if (text.length <= maxChars) {
-    return text;
+function agentVoiceConfig(agentRole: string, voiceOverride?: VoiceConfig, language?: SquadLanguage): VoiceConfig {
+  // Custom agents start from the architect's voice and override what they configure
+  const voiceConfig = { ...(AGENT_VOICES[agentRole] || AGENT_VOICES.architect), ...voiceOverride };
+  const languageVoiceId = language && voiceConfig.languageVoiceIds?.[language.code.split('-')[0]];
+  if (languageVoiceId) {
+    voiceConfig.voiceId = languageVoiceId;
   }
-  
-  // Truncate at sentence boundary if possible
-  const truncated = text.substring(0, maxChars);
-  const lastPeriod = truncated.lastIndexOf('.');
-  const lastExclamation = truncated.lastIndexOf('!');
-  const lastQuestion = truncated.lastIndexOf('?');
-  
-  const lastSentenceEnd = Math.max(lastPeriod, lastExclamation, lastQuestion);
-  
-  if (lastSentenceEnd > maxChars * 0.7) {
-    // Found a sentence boundary in reasonable range
-    return text.substring(0, lastSentenceEnd + 1);
+  return voiceConfig;
+}
+
+// Narrated, sentence-sized pieces of a response (see speech-narration.ts)
+function speechSegments(text: string, language?: SquadLanguage): string[] {
+  return splitSpeechText(narrateForSpeech(text, language));
+}
+
+// Synthesize pieces in order, passing MP3 chunks on as they arrive. The next piece is
+// synthesized while the current one streams, so playback has no gaps; a piece that fails
+// is skipped rather than ending the speech.
+async function streamSegments(
+  segments: string[],
+  voiceConfig: VoiceConfig,
+  onAudio: (chunk: Buffer) => void,
+  language?: SquadLanguage,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  const start = (segment: string) => startSynthesis({ text: segment, model: 'speech-02-turbo', voiceConfig, language }, abortSignal);
+  let next = segments.length > 0 ? start(segments[0]) : null;
+  for (let i = 0; next; i++) {
+    const current = next;
+    next = i + 1 < segments.length ? start(segments[i + 1]) : null;
+    try {
+      await drainSynthesis(current, onAudio);
+    } catch (error: any) {
+      if (abortSignal?.aborted) return;
+      console.error(`[Minimax TTS] Segment ${i + 1}/${segments.length} failed:`, error.message);
+    }
   }
-  
-  // No good sentence boundary, just truncate
-  return truncated + '...';
 }
 
-export async function generateAgentSpeech(agentRole: string, text: string): Promise<Buffer | null> {
-  const voiceConfig = AGENT_VOICES[agentRole] || AGENT_VOICES.architect;
-  
-  // Safeguard: Truncate extremely long text to prevent slow generation
-  const truncatedText = truncateTextForTTS(text, 1000);
-  
-  if (truncatedText.length < text.length) {
-    console.warn(`[Minimax TTS] Truncated text from ${text.length} to ${truncatedText.length} chars for TTS generation`);
+// Speak a whole response, with no length cap, for /api/tts/stream
+export async function streamAgentSpeech(
+  agentRole: string,
+  text: string,
+  onAudio: (chunk: Buffer) => void,
+  options: { voiceOverride?: VoiceConfig; language?: SquadLanguage; abortSignal?: AbortSignal } = {}
+): Promise<void> {
+  const { voiceOverride, language, abortSignal } = options;
+  const voiceConfig = agentVoiceConfig(agentRole, voiceOverride, language);
+  const segments = speechSegments(text, language);
+  console.log(`[Minimax TTS] Streaming ${segments.length} segments (${text.length} chars), voice ${voiceConfig.voiceId}`);
+  await streamSegments(segments, voiceConfig, onAudio, language, abortSignal);
+}
+
+// Audio returned inline with a response only covers its opening sentences - it is synthesized
+// before the response is sent and travels as base64 JSON. Clients stream the rest.
+const INLINE_SPEECH_MAX_CHARS = Number(process.env.TTS_INLINE_MAX_CHARS) || 1000;
+
+// The start of a response as one MP3 (MP3 frames can simply be concatenated)
+export async function generateAgentSpeech(
+  agentRole: string,
+  text: string,
+  voiceOverride?: VoiceConfig,
+  language?: SquadLanguage
+): Promise<Buffer | null> {
+  if (!isSpeechConfigured()) {
+    console.warn('[Minimax TTS] API key or GroupId not configured, skipping TTS generation');
+    return null;
   }
-  
-  return generateSpeech({
-    text: truncatedText,
-    model: 'speech-02-turbo', // Fast model for real-time demo
-    voiceConfig,
+
+  const segments = speechSegments(text, language);
+  // Whole segments only; the first one is always kept
+  let length = 0;
+  const kept = segments.filter((segment, i) => {
+    length += segment.length;
+    return i === 0 || length <= INLINE_SPEECH_MAX_CHARS;
   });
+  if (kept.length < segments.length) {
+    console.warn(`[Minimax TTS] Speaking ${kept.length} of ${segments.length} segments inline (TTS_INLINE_MAX_CHARS=${INLINE_SPEECH_MAX_CHARS})`);
+  }
+
+  const chunks: Buffer[] = [];
+  const voiceConfig = agentVoiceConfig(agentRole, voiceOverride, language);
+  await streamSegments(kept, voiceConfig, (chunk) => chunks.push(chunk), language);
+  if (chunks.length === 0) {
+    return null;
+  }
+  const audio = Buffer.concat(chunks);
+  console.log(`[Minimax TTS] Generated ${audio.length} bytes of audio`);
+  return audio;
 }
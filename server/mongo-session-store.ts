@@ -0,0 +1,68 @@
+import session from "express-session";
+import type { Collection } from "mongodb";
+
+export interface AuthSessionDocument {
+  _id: string;
+  session: session.SessionData;
+  // Removed by a TTL index once passed
+  expires: Date;
+}
+
+// Login sessions kept in MongoDB so they survive restarts and work across instances
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class MongoSessionStore extends session.Store {
+  constructor(private getCollection: () => Promise<Collection<AuthSessionDocument>>) {
+    super();
+  }
+
+  private expiresAt(sess: session.SessionData): Date {
+    return sess.cookie?.expires ? new Date(sess.cookie.expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+  }
+
+  // Callbacks are passed as .then's second argument so one that throws is never called again
+  // with its own error
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    this.getCollection()
+      .then(collection => collection.findOne({ _id: sid }))
+      .then(
+        doc => {
+          // The TTL monitor only runs once a minute - don't hand out a session it hasn't removed yet
+          if (!doc || doc.expires.getTime() <= Date.now()) {
+            return callback(null, null);
+          }
+          callback(null, doc.session);
+        },
+        error => callback(error),
+      );
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void): void {
+    this.getCollection()
+      .then(collection => collection.replaceOne(
+        { _id: sid },
+        { session: sess, expires: this.expiresAt(sess) },
+        { upsert: true },
+      ))
+      .then(() => callback?.(), error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.getCollection()
+      .then(collection => collection.deleteOne({ _id: sid }))
+      .then(() => callback?.(), error => callback?.(error));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    this.getCollection()
+      .then(collection => collection.updateOne({ _id: sid }, { $set: { expires: this.expiresAt(sess) } }))
+      .then(
+        () => callback?.(),
+        error => {
+          console.warn('[Auth Sessions] Failed to extend session:', error.message);
+          callback?.();
+        },
+      );
+  }
+}
@@ -1,151 +1,194 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { GoogleGenAI } from "@google/genai";
-import { performResearch, shouldPerformResearch, type ResearchData } from "./brave-search";
-import { generateAgentSpeech } from "./minimax-tts";
-
-// Mock research data for testing when Brave Search API is unavailable
-const MOCK_BRAVE_SEARCH = process.env.MOCK_BRAVE_SEARCH === 'true';
-
-function getMockResearchData(query: string): ResearchData {
-  console.log('[Mock Research] Generating mock data for:', query);
-  
-  const allMockResults = [
-    {
-      title: "Best Practices for Modern Authentication",
-      url: "https://auth0.com/docs/best-practices",
-      description: "Comprehensive guide covering OAuth 2.0, OpenID Connect, JWT tokens, and secure session management for modern applications."
-    },
-    {
-      title: "OAuth 2.0 Implementation Guide - MDN",
-      url: "https://developer.mozilla.org/en-US/docs/Web/Security/OAuth",
-      description: "Mozilla's complete walkthrough of implementing OAuth 2.0 authentication flows with code examples and security considerations."
-    },
-    {
-      title: "JWT Authentication Tutorial",
-      url: "https://jwt.io/introduction",
-      description: "Learn how to implement JSON Web Tokens for stateless authentication in web applications with best practices."
-    }
-  ];
-  
-  const topResult = allMockResults[0];
-  
-  return {
-    query: query,
-    results: [topResult], // Only return top 1 for display
-    allResults: allMockResults, // Include all for metadata
-    totalAvailable: allMockResults.length,
-    summary: `${topResult.title}\n${topResult.description}\nSource: ${topResult.url}`
-  };
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { runAgentDiscussion, streamAgentDiscussion } from "./agents";
+import {
+  AgentRegistryError,
+  createAgent,
+  deleteAgent,
+  getPipeline,
+  listAgents,
+  resetPipeline,
+  savePipeline,
+  updateAgent,
+} from "./agent-registry";
+import { runSquad } from "./squad";
+import { buildDebateConsensus } from "./debate";
+import { saveSquadSession } from "./sessions";
+import { loadConversationTurns } from "./conversation-memory";
+import { codeExportRequestSchema, debateConsensusRequestSchema, insertSessionSchema, MAX_DEBATE_ROUNDS } from "@shared/schema";
+import { buildProjectExport, type ProjectExport } from "./code-export";
+import { getLLMProvider } from "./llm-provider";
+import { STTError, getSTTProvider } from "./stt-provider";
+import { isSpeechConfigured, streamAgentSpeech } from "./minimax-tts";
+import { getSquadLanguage } from "@shared/languages";
+import { currentUserId, requireAuth, setupAuth } from "./auth";
+import {
+  WorkspaceError,
+  createWorkspace,
+  currentWorkspaceId,
+  deleteWorkspace,
+  inviteMember,
+  listWorkspaces,
+  loadActiveWorkspace,
+  removeMember,
+  renameWorkspace,
+  requireWorkspaceRole,
+  switchWorkspace,
+  updateMemberRole,
+} from "./workspaces";
+
+// Longest agent message /api/tts/stream will speak
+const MAX_TTS_CHARS = Number(process.env.TTS_MAX_CHARS) || 50000;
+
+function sendServiceError(res: Response, error: any, message: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+  if (error instanceof AgentRegistryError || error instanceof WorkspaceError || error instanceof STTError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    error: message,
+    details: error.message
+  });
 }
 
-// Initialize Gemini using Replit AI Integrations (no API key required!)
-// Phase 3 Upgrade: Using Gemini 3 Pro Preview for enhanced reasoning and 1M context window
-const ai = new GoogleGenAI({
-  apiKey: process.env.AI_INTEGRATIONS_GEMINI_API_KEY,
-  httpOptions: {
-    apiVersion: "",
-    baseUrl: process.env.AI_INTEGRATIONS_GEMINI_BASE_URL,
-  },
-});
-
-// Agent system prompts - Optimized for Gemini 3 Pro's advanced reasoning
-const AGENT_PROMPTS = {
-  architect: `You are an elite Architect Agent powered by advanced AI reasoning. Your role is to:
-- Deeply analyze user requirements and envision the complete system architecture
-- Make sophisticated technical decisions leveraging modern best practices, design patterns, and scalability considerations
-- Design elegant component hierarchies with clear separation of concerns and data flow strategies
-- Provide detailed architectural blueprints with specific technology stack recommendations and rationale
-- **CRITICAL: Generate PRODUCTION-READY EXECUTABLE CODE** for configuration files, project structure, core abstractions, and architectural patterns
-- Think through edge cases, performance implications, and future extensibility
-- Focus on code quality, maintainability, and developer experience
-- Include reasoning about trade-offs and why certain architectural choices were made`,
-
-  backend: `You are an elite Backend Agent powered by advanced AI reasoning. Your role is to:
-- Design robust, scalable API architectures based on the architect's vision
-- Create comprehensive database schemas with normalization, indexing strategies, and relationship modeling
-- Implement sophisticated authentication, authorization, middleware chains, and error handling
-- Define clean data models, business logic layers, and service patterns with dependency injection
-- **CRITICAL: Generate PRODUCTION-READY EXECUTABLE CODE** for API routes, database models, middleware, validation, error handlers, and complete server setup
-- Think through security vulnerabilities, rate limiting, caching strategies, and performance optimization
-- Ensure code follows SOLID principles and includes proper error handling
-- Reference and build upon the architect's decisions with technical depth`,
-
-  frontend: `You are an elite Frontend Agent powered by advanced AI reasoning. Your role is to:
-- Design intuitive, accessible, and performant user interfaces aligned with the backend APIs
-- Architect component hierarchies with proper state management, memoization, and render optimization
-- Specify modern UI libraries, design systems, and styling approaches with rationale
-- Plan sophisticated user interactions, form validation, loading states, and error boundaries
-- **CRITICAL: Generate PRODUCTION-READY EXECUTABLE CODE** for React/Vue components, custom hooks, state management (Redux/Zustand/Context), API integration with error handling, and responsive styling
-- Think through accessibility (a11y), responsive design, performance metrics, and user experience flows
-- Implement proper TypeScript types, prop validation, and defensive programming
-- Reference backend APIs, architectural patterns, and create cohesive user experiences`,
-
-  qa: `You are an elite QA Agent powered by advanced AI reasoning. Your role is to:
-- Conduct deep analysis to identify bugs, edge cases, race conditions, and security vulnerabilities
-- Design comprehensive test strategies covering unit, integration, e2e, and performance testing
-- Review architectural decisions, backend implementations, and frontend code for correctness and best practices
-- **CRITICAL: Generate PRODUCTION-READY EXECUTABLE TEST CODE** using modern testing frameworks (Jest, Vitest, Playwright, Cypress)
-- Create thorough test suites with meaningful test cases, mocks, fixtures, and assertions
-- Think through security testing (XSS, CSRF, SQL injection), accessibility testing, and performance benchmarks
-- Provide actionable feedback on code quality, potential refactors, and areas of technical debt
-- Reference specific concerns from architect, backend, and frontend implementations with technical precision`
-};
-
-// Simplified prompts for Demo Mode - focus on speed and conciseness
-const DEMO_AGENT_PROMPTS = {
-  architect: `You are an Architect Agent. Analyze the request and provide:
-- Quick system overview (2-3 sentences)
-- Key technology choices (bullet points)
-- Basic component structure
-- ONE simple code example (max 15 lines)
-Keep response under 300 words. Be concise and actionable.`,
-
-  backend: `You are a Backend Agent. Based on the architect's plan, provide:
-- API endpoints needed (bullet list)
-- Data model (simple schema)
-- ONE code example showing main API route (max 20 lines)
-Keep response under 300 words. Be direct and practical.`,
-
-  frontend: `You are a Frontend Agent. Based on backend APIs, provide:
-- UI components needed (bullet list)
-- State management approach (1 sentence)
-- ONE React component example (max 25 lines)
-Keep response under 300 words. Focus on essentials.`,
-
-  qa: `You are a QA Agent. Review the implementation and provide:
-- 3-5 key test scenarios (bullet points)
-- ONE simple test code example (max 15 lines)
-Keep response under 200 words. Be concise.`
-};
-
-// Estimate token count (rough approximation: ~4 chars per token)
-function estimateTokenCount(text: string): number {
-  return Math.ceil(text.length / 4);
+function sendProjectExport(res: Response, project: ProjectExport | null) {
+  if (!project) {
+    return res.status(400).json({ error: 'No code blocks found in the agent responses' });
+  }
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${project.filename}"`);
+  res.setHeader('X-File-Count', String(project.fileCount));
+  res.send(project.data);
 }
 
-// Summarize long agent responses to keep context manageable
-function summarizeResponse(message: string, maxLength: number = 300): string {
-  if (message.length <= maxLength) return message;
-  
-  // Extract key points from the first few sentences
-  const sentences = message.split(/[.!?]\s+/).filter(s => s.length > 20);
-  let summary = '';
-  
-  for (const sentence of sentences) {
-    if ((summary + sentence).length > maxLength - 20) break;
-    summary += sentence + '. ';
-  }
-  
-  return summary.trim() || message.substring(0, maxLength) + '...';
+// Debate rounds start at 2 (round 1 is the normal pass)
+function isValidDebateRound(debateRound: unknown): boolean {
+  return debateRound === undefined ||
+    (Number.isInteger(debateRound) && (debateRound as number) >= 2 && (debateRound as number) <= MAX_DEBATE_ROUNDS + 1);
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Login/registration routes; everything else under /api needs a logged-in user
+  setupAuth(app);
+
+  // Health check endpoint
+  app.get('/api/health', (req, res) => {
+    const llm = getLLMProvider();
+    const stt = getSTTProvider();
+    res.json({ 
+      status: 'ok', 
+      geminiConfigured: !!(process.env.AI_INTEGRATIONS_GEMINI_API_KEY && process.env.AI_INTEGRATIONS_GEMINI_BASE_URL),
+      llmProvider: llm.name,
+      llmConfigured: llm.isConfigured(),
+      // Lets browsers without the Web Speech API know whether they can record and upload instead
+      sttProvider: stt.name,
+      sttConfigured: stt.isConfigured(),
+      // Agent speech is streamed from /api/tts/stream when configured
+      ttsConfigured: isSpeechConfigured()
+    });
+  });
+
+  app.use('/api', requireAuth, loadActiveWorkspace);
+  // Viewers can read everything in a workspace; running the squad and changing anything needs editor
+  const requireEditor = requireWorkspaceRole('editor');
+
+  // Workspaces the user belongs to, with their role, plus the active one
+  app.get('/api/workspaces', async (req, res) => {
+    try {
+      const workspaces = await listWorkspaces(req.user!);
+      res.json({
+        activeWorkspaceId: currentWorkspaceId(req),
+        workspaces: workspaces.map(workspace => ({
+          ...workspace,
+          role: workspace.members.find(member => member.userId === req.user!.id)!.role,
+        })),
+      });
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to retrieve workspaces');
+    }
+  });
+
+  // Create a workspace owned by the current user and switch to it
+  app.post('/api/workspaces', async (req, res) => {
+    try {
+      const workspace = await createWorkspace(req.user!, req.body);
+      await switchWorkspace(req, workspace.id);
+      res.status(201).json(workspace);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to create workspace');
+    }
+  });
+
+  // Make a workspace the active one for this login session
+  app.post('/api/workspaces/:id/switch', async (req, res) => {
+    try {
+      const workspace = await switchWorkspace(req, req.params.id);
+      res.json(workspace);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to switch workspace');
+    }
+  });
+
+  // Rename (owner only)
+  app.patch('/api/workspaces/:id', async (req, res) => {
+    try {
+      const workspace = await renameWorkspace(currentUserId(req), req.params.id, req.body);
+      res.json(workspace);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to rename workspace');
+    }
+  });
+
+  // Delete with all its history, sessions and agents (owner only)
+  app.delete('/api/workspaces/:id', async (req, res) => {
+    try {
+      await deleteWorkspace(currentUserId(req), req.params.id);
+      res.status(204).end();
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to delete workspace');
+    }
+  });
+
+  // Invite an existing user by username (owner only)
+  app.post('/api/workspaces/:id/members', async (req, res) => {
+    try {
+      const workspace = await inviteMember(currentUserId(req), req.params.id, req.body);
+      res.status(201).json(workspace);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to invite member');
+    }
+  });
+
+  // Change a member's role (owner only)
+  app.patch('/api/workspaces/:id/members/:userId', async (req, res) => {
+    try {
+      const workspace = await updateMemberRole(currentUserId(req), req.params.id, req.params.userId, req.body);
+      res.json(workspace);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to update member');
+    }
+  });
+
+  // Remove a member (owner), or leave a workspace (yourself)
+  app.delete('/api/workspaces/:id/members/:userId', async (req, res) => {
+    try {
+      const workspace = await removeMember(currentUserId(req), req.params.id, req.params.userId);
+      res.json(workspace);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to remove member');
+    }
+  });
+
   // Agent discussion endpoint
-  app.post('/api/agents/discuss', async (req, res) => {
+  app.post('/api/agents/discuss', requireEditor, async (req, res) => {
     try {
-      const { transcript, agentRole, context, demoMode = false, previousResearch = null } = req.body;
+      const { transcript, agentRole, context, demoMode = false, previousResearch = null, debateRound, threadId, language, streamAudio } = req.body;
 
       if (!transcript || !agentRole) {
         return res.status(400).json({ 
@@ -153,223 +196,434 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Validate agentRole
-      if (!AGENT_PROMPTS[agentRole as keyof typeof AGENT_PROMPTS]) {
-        return res.status(400).json({ 
-          error: `Invalid agentRole. Must be one of: ${Object.keys(AGENT_PROMPTS).join(', ')}` 
+      if (!isValidDebateRound(debateRound)) {
+        return res.status(400).json({
+          error: `Invalid debateRound. Must be an integer from 2 to ${MAX_DEBATE_ROUNDS + 1}`
         });
       }
 
-      // Search for relevant command history from MongoDB using Atlas Search
-      let commandHistory: any[] = [];
-      try {
-        // Use Atlas Search to find commands similar to the current transcript
-        commandHistory = await storage.searchCommands(transcript, 5);
-        console.log(`[Atlas Search] Found ${commandHistory.length} relevant commands for: "${transcript}"`);
-      } catch (error: any) {
-        console.warn('[Atlas Search] Search failed, falling back to recent commands:', error.message);
-        // Fallback to recent commands if search fails
-        try {
-          commandHistory = await storage.getRecentCommands(5);
-        } catch (fallbackError: any) {
-          console.warn('[Command History] Failed to fetch fallback commands:', fallbackError.message);
-        }
+      // Validate agentRole against the agent registry (built-in + custom agents)
+      const agents = await listAgents(currentWorkspaceId(req));
+      const agent = agents.find(a => a.id === agentRole);
+      if (!agent) {
+        return res.status(400).json({ 
+          error: `Invalid agentRole. Must be one of: ${agents.map(a => a.id).join(', ')}` 
+        });
       }
 
-      // BRAVE SEARCH INTEGRATION: Perform research for Architect agent if needed
-      // Only trigger NEW research if no previous research exists (Step 2 of workflow)
-      let researchData: ResearchData | null = null;
-      if (agentRole === 'architect' && !previousResearch && shouldPerformResearch(transcript)) {
-        console.log('[Brave Search] Research keywords detected - triggering search for Architect');
-        
-        if (MOCK_BRAVE_SEARCH) {
-          // Use mock data for testing/demo purposes
-          console.log('[Mock Research] Using mock data (MOCK_BRAVE_SEARCH=true)');
-          researchData = getMockResearchData(transcript);
-        } else {
-          // Use real Brave Search API
-          try {
-            researchData = await performResearch(transcript);
-            if (researchData) {
-              console.log(`[Brave Search] Research completed successfully with ${researchData.results.length} results`);
-            } else {
-              console.log('[Brave Search] Research returned no data - continuing without research');
-            }
-          } catch (error: any) {
-            console.warn('[Brave Search] Research failed, continuing without research data:', error.message);
-          }
-        }
-        
-        // CRITICAL: If research was just performed (first time), return ONLY the research data
-        // Do NOT call Gemini yet - wait for user to enable "Apply Research" and send new request
-        if (researchData) {
-          console.log('[Brave Search] Returning research data WITHOUT Gemini processing - waiting for user approval');
-          return res.json({
-            message: `📚 Research Complete!\n\nI found ${researchData.results.length} relevant sources for: "${transcript}"\n\nTop Result:\n${researchData.results[0].title}\n${researchData.results[0].description}\n\nTo implement this request, enable "Apply Research" and send another message.`,
-            researchData,
-            audioData: null, // No audio yet - just research results
-          });
-        }
+      // Earlier turns of the same conversation, for follow-up requests
+      const workspaceId = currentWorkspaceId(req);
+      const conversation = threadId ? await loadConversationTurns(workspaceId, threadId) : [];
+
+      const result = await runAgentDiscussion({
+        transcript,
+        agent,
+        context,
+        demoMode,
+        previousResearch,
+        debateRound,
+        conversation,
+        workspaceId,
+        language: typeof language === 'string' ? language : undefined,
+        streamAudio: streamAudio === true
+      });
+
+      const { researchOnly, ...body } = result;
+      res.json(body);
+    } catch (error: any) {
+      console.error('Gemini API error:', error);
+      res.status(500).json({ 
+        error: 'Failed to generate agent response',
+        details: error.message 
+      });
+    }
+  });
+
+  // Streaming agent discussion endpoint (Server-Sent Events)
+  // Events: chunk {text}, finish {finishReason, truncated, warning}, done {full result}, error {error, details}
+  app.post('/api/agents/discuss/stream', requireEditor, async (req, res) => {
+    const { transcript, agentRole, context, demoMode = false, previousResearch = null, debateRound, threadId, language, streamAudio } = req.body;
+
+    if (!transcript || !agentRole) {
+      return res.status(400).json({
+        error: 'Missing required fields: transcript and agentRole'
+      });
+    }
+
+    if (!isValidDebateRound(debateRound)) {
+      return res.status(400).json({
+        error: `Invalid debateRound. Must be an integer from 2 to ${MAX_DEBATE_ROUNDS + 1}`
+      });
+    }
+
+    const agents = await listAgents(currentWorkspaceId(req));
+    const agent = agents.find(a => a.id === agentRole);
+    if (!agent) {
+      return res.status(400).json({
+        error: `Invalid agentRole. Must be one of: ${agents.map(a => a.id).join(', ')}`
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    // Stop generating if the browser goes away mid-stream
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        console.log(`[${agentRole}] Stream client disconnected - aborting generation`);
+        abortController.abort();
       }
+    });
 
-      // Build context-aware prompt with summarization
-      let prompt = `User request: "${transcript}"\n\n`;
-      
-      // Add RELEVANT COMMAND HISTORY from MongoDB Atlas Search as context
-      if (commandHistory.length > 0) {
-        prompt += "📝 RELEVANT COMMAND HISTORY (found via search):\n";
-        commandHistory.slice(0, 3).forEach((cmd, idx) => {
-          prompt += `${idx + 1}. "${cmd.transcript}" (${new Date(cmd.timestamp).toLocaleString()})\n`;
-          if (cmd.agentResponses && cmd.agentResponses.length > 0) {
-            const lastResponse = cmd.agentResponses[cmd.agentResponses.length - 1];
-            const summary = summarizeResponse(lastResponse.message, 150);
-            prompt += `   Last response: ${summary}\n`;
-          }
-        });
-        prompt += "\nThese are similar commands from the past. Use this context to understand the user's ongoing work and maintain continuity.\n\n";
+    const sendEvent = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
       }
-      
-      // Add BRAVE SEARCH RESULTS if research was performed OR if previousResearch exists
-      const activeResearch = researchData || previousResearch;
-      if (activeResearch) {
-        prompt += "🔍 RESEARCH FINDINGS (Brave Search):\n";
-        prompt += activeResearch.summary + "\n\n";
-        if (previousResearch) {
-          prompt += "The user has reviewed these research findings and is now asking you to implement based on this information.\n";
+    };
+
+    try {
+      const workspaceId = currentWorkspaceId(req);
+      const conversation = threadId ? await loadConversationTurns(workspaceId, threadId) : [];
+      const result = await streamAgentDiscussion(
+        {
+          transcript,
+          agent,
+          context,
+          demoMode,
+          previousResearch,
+          debateRound,
+          conversation,
+          workspaceId,
+          language: typeof language === 'string' ? language : undefined,
+          streamAudio: streamAudio === true,
+        },
+        {
+          onChunk: (text) => sendEvent('chunk', { text }),
+          onFinish: (info) => sendEvent('finish', info),
+          abortSignal: abortController.signal,
         }
-        prompt += "Use these research findings to inform your decisions and recommendations.\n\n";
+      );
+
+      const { researchOnly, ...body } = result;
+      sendEvent('done', body);
+    } catch (error: any) {
+      if (!abortController.signal.aborted) {
+        console.error('Gemini streaming error:', error);
+        sendEvent('error', {
+          error: 'Failed to generate agent response',
+          details: error.message
+        });
       }
-      
-      // Add SUMMARIZED context from previous agents to prevent token overflow
-      if (context && context.length > 0) {
-        prompt += "Previous agent summaries:\n";
-        context.forEach((item: any) => {
-          const summary = summarizeResponse(item.message, 250);
-          prompt += `- ${item.role}: ${summary}\n`;
+    } finally {
+      res.end();
+    }
+  });
+
+  // Run the whole squad (pipeline graph, optionally followed by debate rounds) in one call
+  app.post('/api/squad/run', requireEditor, async (req, res) => {
+    try {
+      const { transcript, demoMode = false, previousResearch = null, debateRounds = 0, threadId, language } = req.body;
+
+      if (!transcript) {
+        return res.status(400).json({
+          error: 'Missing required field: transcript'
         });
-        prompt += "\n";
       }
 
-      // Combine system prompt and user prompt into one
-      // Use simplified prompts in Demo Mode for faster, more concise responses
-      const promptMap = demoMode ? DEMO_AGENT_PROMPTS : AGENT_PROMPTS;
-      const systemPrompt = promptMap[agentRole as keyof typeof AGENT_PROMPTS];
-      const fullPrompt = `${systemPrompt}\n\n${prompt}\n\nAs the ${agentRole} agent, provide your ${demoMode ? 'concise' : 'detailed'} analysis and recommendations.`;
-
-      // Call Gemini AI with token safeguards
-      // Demo Mode: Use faster gemini-2.5-flash for quick demos (~5-10s per agent)
-      // Production: Use gemini-3-pro-preview for highest quality (~30-60s per agent)
-      const model = demoMode ? "gemini-2.5-flash" : "gemini-3-pro-preview";
-      const promptTokens = estimateTokenCount(fullPrompt);
-      const maxModelTokens = demoMode ? 8192 : 1000000; // Flash: 8K, Pro: 1M context
-      // CRITICAL: In demo mode, limit output to ~1500 tokens (900 words) for speed
-      const maxOutputTokens = demoMode ? 1500 : 8192;
-      const safeOutputTokens = Math.min(maxOutputTokens, Math.max(demoMode ? 1500 : 2000, maxOutputTokens - Math.min(promptTokens, 10000)));
-      
-      console.log(`[${agentRole}] Mode: ${demoMode ? 'DEMO (Fast)' : 'PRODUCTION (High Quality)'}`);
-      console.log(`[${agentRole}] Full prompt: ${fullPrompt.length} chars (~${promptTokens} tokens)`);
-      console.log(`[${agentRole}] Allocating ${safeOutputTokens} tokens for output`);
-      console.log(`[${agentRole}] Model: ${model} (${maxModelTokens.toLocaleString()} context window)`);
-      
-      // Warn for large prompts based on model
-      const warningThreshold = demoMode ? maxModelTokens * 0.7 : 100000;
-      if (promptTokens > warningThreshold) {
-        console.warn(`[${agentRole}] WARNING: Large prompt (${promptTokens} tokens). May truncate response.`);
+      if (!Number.isInteger(debateRounds) || debateRounds < 0 || debateRounds > MAX_DEBATE_ROUNDS) {
+        return res.status(400).json({
+          error: `Invalid debateRounds. Must be an integer from 0 to ${MAX_DEBATE_ROUNDS}`
+        });
       }
-      
-      const response = await ai.models.generateContent({
-        model,
-        contents: fullPrompt,
-        config: {
-          maxOutputTokens: safeOutputTokens,
-          temperature: 0.7,
-        }
+
+      const result = await runSquad({
+        workspaceId: currentWorkspaceId(req),
+        userId: currentUserId(req),
+        transcript,
+        demoMode,
+        previousResearch,
+        debateRounds,
+        threadId,
+        language: typeof language === 'string' ? language : undefined,
+      });
+      res.json(result);
+    } catch (error: any) {
+      console.error('Squad run error:', error);
+      res.status(500).json({
+        error: 'Failed to run agent squad',
+        details: error.message
       });
+    }
+  });
 
-      // Debug: Check for safety blocks or truncation
-      console.log(`[${agentRole}] Candidates:`, response.candidates?.length);
-      if (response.candidates && response.candidates[0]) {
-        const candidate = response.candidates[0];
-        console.log(`[${agentRole}] Finish reason:`, candidate.finishReason);
-        console.log(`[${agentRole}] Safety ratings:`, candidate.safetyRatings);
-        console.log(`[${agentRole}] Content parts:`, candidate.content?.parts?.length);
-        
-        // Log each part
-        candidate.content?.parts?.forEach((part: any, idx: number) => {
-          console.log(`[${agentRole}] Part ${idx}:`, part.text?.substring(0, 100));
-        });
+  // Moderator consensus summary for a finished debate
+  app.post('/api/debate/consensus', requireEditor, async (req, res) => {
+    try {
+      const parsed = debateConsensusRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
       }
-      
-      // Extract text
-      const message = response.text || "I apologize, but I couldn't generate a response.";
-      console.log(`[${agentRole}] Extracted text length: ${message.length} chars`);
-
-      // Check if response was truncated
-      const finishReason = response.candidates?.[0]?.finishReason;
-      const wasTruncated = finishReason === 'MAX_TOKENS';
-      
-      // Include warning if truncated or prompt is extremely large
-      let warning: string | undefined;
-      if (wasTruncated) {
-        warning = `The ${agentRole} agent's response was truncated due to output length limits. The analysis may be incomplete. Consider simplifying your request.`;
-        console.warn(`[${agentRole}] TRUNCATED: finishReason=${finishReason}`);
-      } else if (!demoMode && promptTokens > 100000) {
-        warning = `Your request is extremely complex (${Math.floor(promptTokens / 1000)}K tokens). With Gemini 3 Pro's 1M context window, this should work, but consider breaking into smaller requests if issues occur.`;
-      } else if (demoMode && promptTokens > maxModelTokens * 0.7) {
-        warning = `Your request is complex. Demo mode uses a faster model with smaller context. Switch to Production mode for better handling of complex requests.`;
+
+      const summary = await buildDebateConsensus(parsed.data);
+      res.json({ summary });
+    } catch (error: any) {
+      console.error('Debate consensus error:', error);
+      res.status(500).json({
+        error: 'Failed to build debate consensus',
+        details: error.message
+      });
+    }
+  });
+
+  // Agent registry: list built-in and custom agents
+  app.get('/api/agents', async (req, res) => {
+    try {
+      const agents = await listAgents(currentWorkspaceId(req));
+      res.json(agents);
+    } catch (error: any) {
+      console.error('Get agents error:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve agents',
+        details: error.message
+      });
+    }
+  });
+
+  // Create a custom agent
+  app.post('/api/agents', requireEditor, async (req, res) => {
+    try {
+      const agent = await createAgent(currentWorkspaceId(req), req.body);
+      res.status(201).json(agent);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to create agent');
+    }
+  });
+
+  // Update an agent (built-in agents can be tuned but not renamed)
+  app.put('/api/agents/:id', requireEditor, async (req, res) => {
+    try {
+      const agent = await updateAgent(currentWorkspaceId(req), req.params.id, req.body);
+      res.json(agent);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to update agent');
+    }
+  });
+
+  // Delete a custom agent
+  app.delete('/api/agents/:id', requireEditor, async (req, res) => {
+    try {
+      await deleteAgent(currentWorkspaceId(req), req.params.id);
+      res.status(204).end();
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to delete agent');
+    }
+  });
+
+  // Pipeline graph: which agents run and whose output feeds whose prompt
+  app.get('/api/pipeline', async (req, res) => {
+    try {
+      const pipeline = await getPipeline(currentWorkspaceId(req));
+      res.json(pipeline);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to retrieve pipeline');
+    }
+  });
+
+  // Replace the pipeline graph (rejects unknown agents and cycles)
+  app.put('/api/pipeline', requireEditor, async (req, res) => {
+    try {
+      const pipeline = await savePipeline(currentWorkspaceId(req), req.body);
+      res.json(pipeline);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to save pipeline');
+    }
+  });
+
+  // Reset to the default pipeline derived from agent positions
+  app.delete('/api/pipeline', requireEditor, async (req, res) => {
+    try {
+      const pipeline = await resetPipeline(currentWorkspaceId(req));
+      res.json(pipeline);
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to reset pipeline');
+    }
+  });
+
+  // Save a full squad session (agent results, audio, research, debate, timings)
+  app.post('/api/sessions', requireEditor, async (req, res) => {
+    try {
+      const parsed = insertSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
       }
 
-      // Generate speech audio using Minimax TTS
-      let audioData: string | null = null;
-      try {
-        const audioBuffer = await generateAgentSpeech(agentRole, message);
-        if (audioBuffer) {
-          // Convert buffer to base64 for transmission
-          audioData = audioBuffer.toString('base64');
-          const audioSizeKB = Math.round(audioData.length / 1024);
-          console.log(`[${agentRole}] Generated ${audioSizeKB}KB of base64 audio`);
-          
-          // Safeguard: Warn if audio is extremely large (> 1MB base64 ≈ 750KB MP3)
-          if (audioData.length > 1024 * 1024) {
-            console.warn(`[${agentRole}] WARNING: Large audio response (${audioSizeKB}KB) may delay response`);
-          }
-        }
-      } catch (ttsError: any) {
-        console.error(`[${agentRole}] TTS generation failed:`, ttsError.message);
-        // Continue without audio - don't break the response
+      const { session, commandId } = await saveSquadSession({ ...parsed.data, workspaceId: currentWorkspaceId(req), userId: currentUserId(req) });
+      res.status(201).json({ ...session, commandId });
+    } catch (error: any) {
+      console.error('Save session error:', error);
+      res.status(500).json({
+        error: 'Failed to save session',
+        details: error.message
+      });
+    }
+  });
+
+  // Recent sessions for the history sidebar (without audio), at most 100 per request
+  app.get('/api/sessions', async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const sessions = await storage.getRecentSessions(currentWorkspaceId(req), limit);
+      res.json(sessions);
+    } catch (error: any) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve sessions',
+        details: error.message
+      });
+    }
+  });
+
+  // A single session including audio clips
+  app.get('/api/sessions/:id', async (req, res) => {
+    try {
+      const session = await storage.getSession(currentWorkspaceId(req), req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
       }
+      res.json(session);
+    } catch (error: any) {
+      console.error('Get session error:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve session',
+        details: error.message
+      });
+    }
+  });
 
-      res.json({ 
-        message: message.trim(),
-        warning,
-        truncated: wasTruncated,
-        researchData,
-        audioData, // Base64 encoded MP3 audio
-        tokenInfo: {
-          promptTokens,
-          allocatedOutputTokens: safeOutputTokens,
-          finishReason
-        }
+  // Download a saved session's code as a project ZIP
+  app.get('/api/sessions/:id/export', async (req, res) => {
+    try {
+      const session = await storage.getSession(currentWorkspaceId(req), req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      sendProjectExport(res, buildProjectExport({
+        transcript: session.transcript,
+        agents: session.agents.map(({ agentId, agentName, message }) => ({ agentId, agentName, message })),
+      }, new Date(session.createdAt)));
+    } catch (error: any) {
+      console.error('Export session error:', error);
+      res.status(500).json({
+        error: 'Failed to export session',
+        details: error.message
       });
+    }
+  });
+
+  // Turn agent responses (e.g. an unsaved run) into a project ZIP with a README of who wrote what
+  app.post('/api/export', (req, res) => {
+    try {
+      const parsed = codeExportRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      sendProjectExport(res, buildProjectExport(parsed.data));
     } catch (error: any) {
-      console.error('Gemini API error:', error);
-      res.status(500).json({ 
-        error: 'Failed to generate agent response',
-        details: error.message 
+      console.error('Export error:', error);
+      res.status(500).json({
+        error: 'Failed to export code',
+        details: error.message
       });
     }
   });
 
-  // Health check endpoint
-  app.get('/api/health', (req, res) => {
-    res.json({ 
-      status: 'ok', 
-      geminiConfigured: !!(process.env.AI_INTEGRATIONS_GEMINI_API_KEY && process.env.AI_INTEGRATIONS_GEMINI_BASE_URL)
+  // Speech-to-text for browsers without the Web Speech API: the body is the raw recording
+  // (Content-Type audio/wav, audio/webm...), ?language=en-US is passed on to the provider
+  app.post('/api/stt', requireEditor, express.raw({ type: ['audio/*', 'application/octet-stream'], limit: '25mb' }), async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Send the recording as the request body with an audio/* Content-Type' });
+      }
+      const stt = getSTTProvider();
+      if (!stt.isConfigured()) {
+        return res.status(503).json({ error: `Speech-to-text provider "${stt.name}" is not configured` });
+      }
+
+      const startedAt = Date.now();
+      const language = typeof req.query.language === 'string' ? req.query.language : undefined;
+      const { text } = await stt.transcribe({
+        audio: req.body,
+        mimeType: req.get('Content-Type') || 'application/octet-stream',
+        language,
+      });
+      const durationMs = Date.now() - startedAt;
+      console.log(`[STT] ${stt.name}: ${Math.round(req.body.length / 1024)}KB -> ${text.length} chars in ${durationMs}ms`);
+      res.json({ text, provider: stt.name, durationMs });
+    } catch (error: any) {
+      sendServiceError(res, error, 'Failed to transcribe audio');
+    }
+  });
+
+  // Agent speech as an MP3 stream, synthesized sentence by sentence while it plays. Any member
+  // can listen, so viewers can replay saved sessions.
+  app.post('/api/tts/stream', async (req, res) => {
+    const { agentRole, text, language } = req.body;
+
+    if (typeof agentRole !== 'string' || typeof text !== 'string' || !text.trim()) {
+      return res.status(400).json({ error: 'Missing required fields: agentRole and text' });
+    }
+    if (text.length > MAX_TTS_CHARS) {
+      return res.status(413).json({ error: `Text is too long to speak (max ${MAX_TTS_CHARS} characters)` });
+    }
+    if (!isSpeechConfigured()) {
+      return res.status(503).json({ error: 'Text-to-speech is not configured' });
+    }
+
+    const agents = await listAgents(currentWorkspaceId(req));
+    const agent = agents.find(a => a.id === agentRole);
+    if (!agent) {
+      return res.status(400).json({
+        error: `Invalid agentRole. Must be one of: ${agents.map(a => a.id).join(', ')}`
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'audio/mpeg',
+      'Cache-Control': 'no-cache',
+      'X-Accel-Buffering': 'no',
+    });
+
+    // Stop synthesizing when playback is stopped or the page goes away
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        abortController.abort();
+      }
     });
+
+    try {
+      await streamAgentSpeech(agent.id, text, (chunk) => {
+        if (!res.writableEnded) res.write(chunk);
+      }, {
+        voiceOverride: agent.voice,
+        language: getSquadLanguage(typeof language === 'string' ? language : undefined),
+        abortSignal: abortController.signal,
+      });
+    } catch (error: any) {
+      console.error(`[${agentRole}] Speech stream failed:`, error.message);
+    } finally {
+      res.end();
+    }
   });
 
   // Save command to MongoDB
-  app.post('/api/commands', async (req, res) => {
+  app.post('/api/commands', requireEditor, async (req, res) => {
     try {
       const commandData = {
         ...req.body,
@@ -383,6 +637,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const command = await storage.saveCommand({
+        workspaceId: currentWorkspaceId(req),
+        userId: currentUserId(req),
         transcript: commandData.transcript,
         timestamp: commandData.timestamp,
         agentResponses: commandData.agentResponses || []
@@ -401,7 +657,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all commands
   app.get('/api/commands', async (req, res) => {
     try {
-      const commands = await storage.getAllCommands();
+      const commands = await storage.getAllCommands(currentWorkspaceId(req));
       res.json(commands);
     } catch (error: any) {
       console.error('Get commands error:', error);
@@ -416,7 +672,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/commands/recent/:limit', async (req, res) => {
     try {
       const limit = parseInt(req.params.limit) || 10;
-      const commands = await storage.getRecentCommands(limit);
+      const commands = await storage.getRecentCommands(currentWorkspaceId(req), limit);
       res.json(commands);
     } catch (error: any) {
       console.error('Get recent commands error:', error);
@@ -438,7 +694,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const commands = await storage.searchCommands(query, limit);
+      const commands = await storage.searchCommands(currentWorkspaceId(req), query, limit);
       res.json(commands);
     } catch (error: any) {
       console.error('Search commands error:', error);
@@ -0,0 +1,139 @@
+import fs from "node:fs";
+import type {
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMModelInfo,
+  LLMProvider,
+  LLMStreamChunk,
+} from "./llm-provider";
+
+// One scripted reply. The first fixture whose agentRole and match both fit the request wins.
+export interface LLMFixture {
+  agentRole?: string;
+  // Case-insensitive substring the prompt must contain
+  match?: string;
+  response: string;
+  finishReason?: string;
+}
+
+// Words per streamed chunk - small enough that the UI visibly streams
+const STREAM_CHUNK_WORDS = 6;
+
+// Deterministic, offline LLM for local development and tests.
+// Replies come from a JSON fixture file (LLM_FIXTURES_PATH) or a built-in template per agent.
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = 'scripted';
+  private fixtures: LLMFixture[];
+
+  constructor(fixturesPathOrFixtures?: string | LLMFixture[]) {
+    if (Array.isArray(fixturesPathOrFixtures)) {
+      this.fixtures = fixturesPathOrFixtures;
+    } else if (fixturesPathOrFixtures) {
+      this.fixtures = loadFixtures(fixturesPathOrFixtures);
+      console.log(`[Scripted LLM] Loaded ${this.fixtures.length} fixtures from ${fixturesPathOrFixtures}`);
+    } else {
+      this.fixtures = [];
+    }
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getModel(demoMode: boolean): LLMModelInfo {
+    return {
+      model: demoMode ? 'scripted-demo' : 'scripted',
+      contextWindow: demoMode ? 8192 : 1000000,
+    };
+  }
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    const fixture = this.findFixture(request);
+    return {
+      text: fixture.response,
+      finishReason: fixture.finishReason || 'STOP',
+    };
+  }
+
+  async *stream(request: LLMGenerateRequest): AsyncIterable<LLMStreamChunk> {
+    const { text, finishReason } = await this.generate(request);
+    // Keep whitespace attached to words so the chunks concatenate back to the exact text
+    const words = text.match(/\S+\s*|\s+/g) || [];
+
+    if (words.length === 0) {
+      yield { text: '', finishReason };
+      return;
+    }
+
+    for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+      if (request.abortSignal?.aborted) {
+        throw new Error('Scripted generation aborted');
+      }
+      const isLast = i + STREAM_CHUNK_WORDS >= words.length;
+      yield {
+        text: words.slice(i, i + STREAM_CHUNK_WORDS).join(''),
+        finishReason: isLast ? finishReason : undefined,
+      };
+    }
+  }
+
+  private findFixture(request: LLMGenerateRequest): LLMFixture {
+    const prompt = request.prompt.toLowerCase();
+    const fixture = this.fixtures.find(f =>
+      (!f.agentRole || f.agentRole === request.agentRole) &&
+      (!f.match || prompt.includes(f.match.toLowerCase()))
+    );
+    return fixture || { response: defaultResponse(request) };
+  }
+}
+
+function loadFixtures(fixturesPath: string): LLMFixture[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(fixturesPath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Failed to load LLM fixtures from ${fixturesPath}: ${error.message}`);
+  }
+
+  if (!Array.isArray(parsed) || parsed.some(f => typeof f?.response !== 'string')) {
+    throw new Error(`LLM fixtures in ${fixturesPath} must be an array of { response: string } objects`);
+  }
+  return parsed as LLMFixture[];
+}
+
+// Template reply used when no fixture matches - stable for a given role and request.
+// Structured requests get JSON in the requested shape, like Gemini's JSON mode.
+function defaultResponse(request: LLMGenerateRequest): string {
+  const role = request.agentRole || 'assistant';
+  const transcript = request.prompt.match(/User request: "([^"]*)"/)?.[1] || 'the request';
+  const identifier = role.replace(/[^a-zA-Z0-9]/g, '');
+
+  if (request.responseJsonSchema) {
+    return JSON.stringify({
+      summary: `This is a scripted response for "${transcript}". Set LLM_FIXTURES_PATH to return custom fixtures.`,
+      decisions: ['Deterministic output for offline development and tests', 'No network calls were made'],
+      files: [{
+        path: `src/${identifier}-plan.ts`,
+        language: 'typescript',
+        content: `export const ${identifier}Plan = ${JSON.stringify(transcript)};\n`,
+      }],
+      openQuestions: [],
+      risks: [],
+    }, null, 2);
+  }
+
+  return `## ${role.charAt(0).toUpperCase() + role.slice(1)} Agent (scripted)
+
+This is a scripted response for "${transcript}". Set LLM_FIXTURES_PATH to return custom fixtures.
+
+- Deterministic output for offline development and tests
+- No network calls were made
+
+\`\`\`typescript
+export const ${identifier}Plan = ${JSON.stringify(transcript)};
+\`\`\``;
+}
@@ -0,0 +1,54 @@
+import type { AgentDefinition, InsertSession, Session, SessionAgentResult } from "@shared/schema";
+import { storage } from "./storage";
+import type { AgentDiscussionResult } from "./agents";
+
+export interface SavedSession {
+  session: Session;
+  // Set when the session was also recorded in command history
+  commandId?: string;
+}
+
+export function toSessionAgentResult(agent: AgentDefinition, result: AgentDiscussionResult): SessionAgentResult {
+  return {
+    agentId: agent.id,
+    agentName: agent.name,
+    message: result.message,
+    warning: result.warning,
+    truncated: result.truncated,
+    finishReason: result.tokenInfo?.finishReason,
+    tokenInfo: result.tokenInfo,
+    durationMs: result.durationMs,
+    structured: result.structured,
+    structuredSource: result.structuredSource,
+    codeCheck: result.codeCheck,
+    repairs: result.repairs,
+    testRun: result.testRun,
+    audioData: result.audioData || undefined,
+  };
+}
+
+// Save a full squad session. Completed sessions are also recorded as commands so
+// history search keeps finding them; that part is best-effort.
+export async function saveSquadSession(input: InsertSession): Promise<SavedSession> {
+  const session = await storage.saveSession(input);
+  console.log(`[Sessions] Saved ${session.status} session ${session._id} (${session.agents.length} agents)`);
+
+  if (session.status !== 'completed') {
+    return { session };
+  }
+
+  try {
+    const command = await storage.saveCommand({
+      workspaceId: session.workspaceId,
+      userId: session.userId,
+      transcript: session.transcript,
+      timestamp: new Date(session.createdAt),
+      agentResponses: session.agents.map(agent => ({ role: agent.agentId, message: agent.message })),
+      sessionId: session._id,
+    });
+    return { session, commandId: command._id };
+  } catch (error: any) {
+    console.error('[Sessions] Failed to save command for session:', error.message);
+    return { session };
+  }
+}
@@ -0,0 +1,168 @@
+import type { SquadLanguage } from '@shared/languages';
+
+// Agent messages are markdown written to be read. Narration turns them into plain sentences for
+// TTS: code blocks and tables are mentioned instead of read out, headings become sentences,
+// long lists are cut short, and links and URLs are reduced to their text or domain.
+
+// Lists longer than this are read up to here, then "and N more"
+const MAX_SPOKEN_LIST_ITEMS = 4;
+// Inline code longer than this is dropped instead of read
+const MAX_SPOKEN_CODE_CHARS = 30;
+
+interface NarrationPhrases {
+  code: string;
+  table: string;
+  moreItems: (count: number) => string;
+}
+
+// Keyed by primary language subtag, English for anything else
+const NARRATION_PHRASES: Record<string, NarrationPhrases> = {
+  en: {
+    code: 'The code is in the written response.',
+    table: "There's a table in the written response.",
+    moreItems: (count) => `And ${count} more.`,
+  },
+  es: {
+    code: 'El código está en la respuesta escrita.',
+    table: 'Hay una tabla en la respuesta escrita.',
+    moreItems: (count) => `Y ${count} más.`,
+  },
+  fr: {
+    code: 'Le code se trouve dans la réponse écrite.',
+    table: 'Un tableau figure dans la réponse écrite.',
+    moreItems: (count) => `Et ${count} de plus.`,
+  },
+  de: {
+    code: 'Der Code steht in der schriftlichen Antwort.',
+    table: 'Eine Tabelle steht in der schriftlichen Antwort.',
+    moreItems: (count) => `Und ${count} weitere.`,
+  },
+  pt: {
+    code: 'O código está na resposta escrita.',
+    table: 'Há uma tabela na resposta escrita.',
+    moreItems: (count) => `E mais ${count}.`,
+  },
+  it: {
+    code: 'Il codice è nella risposta scritta.',
+    table: "C'è una tabella nella risposta scritta.",
+    moreItems: (count) => `E altri ${count}.`,
+  },
+  ja: {
+    code: 'コードは文章の回答にあります。',
+    table: '表は文章の回答にあります。',
+    moreItems: (count) => `ほか${count}件。`,
+  },
+  zh: {
+    code: '代码在书面回复中。',
+    table: '表格在书面回复中。',
+    moreItems: (count) => `还有${count}项。`,
+  },
+  ko: {
+    code: '코드는 작성된 답변에 있습니다.',
+    table: '표는 작성된 답변에 있습니다.',
+    moreItems: (count) => `외 ${count}개.`,
+  },
+};
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+// Inline markdown -> the words a listener should hear
+function narrateInline(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/(?:www\.)?([^\/\s)]+)\S*/g, '$1')
+    .replace(/`([^`]+)`/g, (_match, code: string) => {
+      if (code.length > MAX_SPOKEN_CODE_CHARS) return '';
+      // Paths are read as their file name
+      return code.includes('/') ? code.split('/').filter(Boolean).pop() || '' : code;
+    })
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*([^*\n]+)\*/g, '$1')
+    .replace(/(^|\s)_([^_\n]+)_(?=\s|[.,!?]|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\s*(->|=>)\s*/g, ', ')
+    .replace(/[*`#|>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Headings and list items often have no punctuation; end them so they are read as sentences
+function asSentence(text: string, terminator: string): string {
+  return /[.!?:;。！？]$/.test(text) ? text : text + terminator;
+}
+
+// Long list items are read up to their first sentence
+function firstSentence(text: string): string {
+  return text.split(/(?<=[.!?。！？])\s+/)[0];
+}
+
+export function narrateForSpeech(markdown: string, language?: SquadLanguage): string {
+  const primary = language ? language.code.split('-')[0] : 'en';
+  const phrases = NARRATION_PHRASES[primary] || NARRATION_PHRASES.en;
+  const terminator = primary === 'ja' || primary === 'zh' ? '。' : '.';
+
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const spoken: string[] = [];
+  let mentionedCode = false;
+  let mentionedTable = false;
+  let listItems: string[] = [];
+
+  const finishList = () => {
+    if (listItems.length === 0) return;
+    spoken.push(...listItems.slice(0, MAX_SPOKEN_LIST_ITEMS));
+    if (listItems.length > MAX_SPOKEN_LIST_ITEMS) {
+      spoken.push(phrases.moreItems(listItems.length - MAX_SPOKEN_LIST_ITEMS));
+    }
+    listItems = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      finishList();
+      // Skip to the closing fence (or the end of a truncated message)
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1]));
+      if (!mentionedCode) {
+        spoken.push(phrases.code);
+        mentionedCode = true;
+      }
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      finishList();
+      if (!mentionedTable) {
+        spoken.push(phrases.table);
+        mentionedTable = true;
+      }
+      continue;
+    }
+
+    if (RULE.test(line)) continue;
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const text = narrateInline(firstSentence(listItem[1]));
+      if (text) listItems.push(asSentence(text, terminator));
+      continue;
+    }
+    // A blank line inside a list doesn't end it
+    if (!line.trim()) continue;
+    finishList();
+
+    const heading = line.match(HEADING);
+    const text = narrateInline(heading ? heading[1] : line);
+    if (text) spoken.push(heading ? asSentence(text, terminator) : text);
+  }
+  finishList();
+
+  return spoken.join('\n');
+}
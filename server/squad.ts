@@ -0,0 +1,159 @@
+import { randomUUID } from "crypto";
+import type { ResearchData } from "./brave-search";
+import { executePipeline } from "@shared/pipeline";
+import { runAgentDiscussion, type AgentDiscussionResult } from "./agents";
+import { getPipeline, listAgents } from "./agent-registry";
+import { runDebate, type DebateResult } from "./debate";
+import { saveSquadSession, toSessionAgentResult } from "./sessions";
+import { getLLMProvider } from "./llm-provider";
+import { loadConversationTurns } from "./conversation-memory";
+import { getSquadLanguage } from "@shared/languages";
+
+export interface SquadRunOptions {
+  // Workspace whose agents, pipeline, history and threads are used, and who started the run
+  workspaceId: string;
+  userId: string;
+  transcript: string;
+  demoMode?: boolean;
+  previousResearch?: ResearchData | null;
+  // Critique rounds after the first pass (0 = no debate)
+  debateRounds?: number;
+  // Continue an existing conversation; omit to start a new one
+  threadId?: string;
+  // BCP 47 tag of the squad language (default en-US)
+  language?: string;
+}
+
+export interface SquadRunResult {
+  transcript: string;
+  demoMode: boolean;
+  language: string;
+  // 'research' means an agent only gathered research and the squad stopped there;
+  // 'failed' means an agent errored - agents that finished are still returned
+  status: 'completed' | 'research' | 'failed';
+  agents: Record<string, AgentDiscussionResult>;
+  researchData: ResearchData | null;
+  warnings: Array<{ role: string; warning: string; truncated: boolean }>;
+  // Agents that failed, with the reason
+  errors: Array<{ role: string; error: string }>;
+  debate?: DebateResult;
+  threadId: string;
+  turn: number;
+  sessionId?: string;
+  commandId?: string;
+}
+
+// Run the whole squad server-side by executing the pipeline graph: each agent starts as soon
+// as the agents it depends on have finished, and receives only their output as context
+// (architect first, then backend + frontend in parallel, then qa for the built-in squad).
+export async function runSquad(options: SquadRunOptions): Promise<SquadRunResult> {
+  const { workspaceId, userId, transcript, demoMode = false, previousResearch = null, debateRounds = 0 } = options;
+  const language = getSquadLanguage(options.language).code;
+  const createdAt = new Date();
+  const threadId = options.threadId || randomUUID();
+  const conversation = options.threadId ? await loadConversationTurns(workspaceId, threadId) : [];
+  const agents = await listAgents(workspaceId);
+  const pipeline = await getPipeline(workspaceId, agents);
+  const agentsById = new Map(agents.map(agent => [agent.id, agent]));
+
+  console.log(`[Squad] Running ${pipeline.nodes.length} agents (${pipeline.edges.length} dependencies) for: "${transcript}" (${demoMode ? 'DEMO' : 'PRODUCTION'}, ${language})`);
+
+  const result: SquadRunResult = {
+    transcript,
+    demoMode,
+    language,
+    status: 'completed',
+    agents: {},
+    researchData: null,
+    warnings: [],
+    errors: [],
+    threadId,
+    turn: conversation.length + 1,
+  };
+
+  // A failed agent resolves to null and stops the run; agents already running still finish
+  const execution = await executePipeline<AgentDiscussionResult | null>(
+    pipeline,
+    async (agentId, dependencies) => {
+      let agentResult: AgentDiscussionResult;
+      try {
+        agentResult = await runAgentDiscussion({
+          transcript,
+          agent: agentsById.get(agentId)!,
+          // Dependencies always succeeded - nothing is scheduled after a failure
+          context: dependencies.map(dep => ({ role: agentsById.get(dep.id)!.name, message: dep.result!.message })),
+          demoMode,
+          previousResearch,
+          conversation,
+          workspaceId,
+          language,
+        });
+      } catch (error: any) {
+        console.error(`[Squad] ${agentId} failed:`, error.message);
+        result.errors.push({ role: agentId, error: error.message });
+        return null;
+      }
+
+      result.agents[agentId] = agentResult;
+      result.researchData = result.researchData || agentResult.researchData;
+      if (agentResult.warning) {
+        result.warnings.push({ role: agentId, warning: agentResult.warning, truncated: !!agentResult.truncated });
+      }
+      return agentResult;
+    },
+    // Research-only turn: stop and wait for the user to apply the research
+    (_agentId, agentResult) => !agentResult || !!agentResult.researchOnly,
+  );
+
+  if (result.errors.length > 0) {
+    console.log('[Squad] An agent failed - skipping remaining agents');
+    result.status = 'failed';
+  } else if (execution.stopped) {
+    console.log('[Squad] Research-only turn - skipping remaining agents');
+    result.status = 'research';
+  } else if (debateRounds > 0) {
+    result.debate = await runDebate({
+      transcript,
+      agents,
+      firstPass: result.agents,
+      rounds: debateRounds,
+      demoMode,
+      previousResearch,
+      language,
+    });
+  }
+
+  // Persist the run - a storage failure should not throw away the agents' work
+  try {
+    const saved = await saveSquadSession({
+      workspaceId,
+      userId,
+      transcript,
+      status: result.status,
+      demoMode,
+      language,
+      model: getLLMProvider().getModel(demoMode).model,
+      createdAt,
+      durationMs: Date.now() - createdAt.getTime(),
+      agents: agents
+        .filter(agent => result.agents[agent.id])
+        .map(agent => toSessionAgentResult(agent, result.agents[agent.id])),
+      researchData: result.researchData,
+      previousResearchApplied: !!previousResearch,
+      threadId,
+      turn: result.turn,
+      debate: result.debate,
+      error: result.errors.length > 0
+        ? result.errors.map(({ role, error }) => `${agentsById.get(role)?.name || role}: ${error}`).join('; ')
+        : undefined,
+    });
+    result.sessionId = saved.session._id;
+    result.commandId = saved.commandId;
+  } catch (error: any) {
+    console.error('[Squad] Failed to save session:', error.message);
+  }
+
+  const outcome = { completed: 'Completed', research: 'Stopped for research', failed: 'Failed' }[result.status];
+  console.log(`[Squad] ${outcome} with ${Object.keys(result.agents).length} agent responses`);
+  return result;
+}
@@ -1,23 +1,199 @@
-import { type User, type InsertUser, type Command, type InsertCommand } from "@shared/schema";
+import { type User, type InsertUser, type Command, type InsertCommand, type AgentDefinition, type Pipeline, type Session, type InsertSession, type Workspace } from "@shared/schema";
 import { randomUUID } from "crypto";
+import fs from "node:fs";
+import path from "node:path";
 import { MongoClient, Db, Collection, ObjectId } from "mongodb";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { MongoSessionStore, type AuthSessionDocument } from "./mongo-session-store";
+import { rankByText } from "./text-search";
+import { commandEmbeddingText, cosineSimilarity, getEmbeddingProvider, type EmbeddingProvider } from "./embedding-provider";
+
+// Usernames are unique; createUser throws this when registrations race for the same name
+export class UsernameTakenError extends Error {
+  constructor(username: string) {
+    super(`Username "${username}" is already taken`);
+  }
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  
+  // Backs express-session, so logins live wherever the rest of the data does
+  sessionStore: session.Store;
+
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  // Workspaces the user is a member of, oldest first
+  getUserWorkspaces(userId: string): Promise<Workspace[]>;
+  // Insert or replace, members included
+  saveWorkspace(workspace: Workspace): Promise<Workspace>;
+  // Insert unless a workspace with the same personalFor exists; returns the stored one either way
+  createPersonalWorkspace(workspace: Workspace & { personalFor: string }): Promise<Workspace>;
+  // Also deletes everything scoped to the workspace
+  deleteWorkspace(id: string): Promise<boolean>;
+
+  // Everything below is scoped to a workspace
   saveCommand(command: InsertCommand): Promise<Command>;
-  getAllCommands(): Promise<Command[]>;
-  getRecentCommands(limit: number): Promise<Command[]>;
-  searchCommands(query: string, limit?: number): Promise<Command[]>;
+  getAllCommands(workspaceId: string): Promise<Command[]>;
+  getRecentCommands(workspaceId: string, limit: number): Promise<Command[]>;
+  searchCommands(workspaceId: string, query: string, limit?: number): Promise<Command[]>;
+
+  getAgentDefinitions(workspaceId: string): Promise<AgentDefinition[]>;
+  getAgentDefinition(workspaceId: string, id: string): Promise<AgentDefinition | undefined>;
+  saveAgentDefinition(workspaceId: string, agent: AgentDefinition): Promise<AgentDefinition>;
+  deleteAgentDefinition(workspaceId: string, id: string): Promise<boolean>;
+
+  getPipeline(workspaceId: string): Promise<Pipeline | undefined>;
+  savePipeline(workspaceId: string, pipeline: Pipeline): Promise<Pipeline>;
+  deletePipeline(workspaceId: string): Promise<boolean>;
+
+  saveSession(session: InsertSession): Promise<Session>;
+  getSession(workspaceId: string, id: string): Promise<Session | undefined>;
+  // Newest first, without audio clips
+  getRecentSessions(workspaceId: string, limit: number): Promise<Session[]>;
+  // All turns of a conversation thread, oldest first, without audio clips
+  getThreadSessions(workspaceId: string, threadId: string): Promise<Session[]>;
+}
+
+// Agent definitions as stored: the API never sees the workspace they belong to
+type StoredAgentDefinition = AgentDefinition & { workspaceId: string };
+
+function withoutAudio(session: Session): Session {
+  return {
+    ...session,
+    agents: session.agents.map(({ audioData, ...agent }) => agent)
+  };
+}
+
+function agentKey(workspaceId: string, agentId: string): string {
+  return `${workspaceId}/${agentId}`;
+}
+
+function toAgentDefinition({ workspaceId, ...agent }: StoredAgentDefinition): AgentDefinition {
+  return agent;
+}
+
+// Everything MemStorage holds, as written to its JSON file
+interface MemStorageSnapshot {
+  users: User[];
+  workspaces: Workspace[];
+  commands: Command[];
+  agentDefinitions: StoredAgentDefinition[];
+  // Keyed by workspace id
+  pipelines: Record<string, Pipeline>;
+  sessions: Session[];
 }
 
+// MemStorage batches changes made within this window into one write of its file
+const PERSIST_DELAY_MS = 1000;
+
+// Fully functional storage with no database. Pass a file path to keep data across restarts:
+// the whole state is loaded on startup and rewritten shortly after changes, without audio.
+
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private workspaces: Map<string, Workspace>;
+  private commands: Map<string, Command>;
+  // Keyed by "<workspaceId>/<agentId>"
+  private agentDefinitions: Map<string, StoredAgentDefinition>;
+  private pipelines: Map<string, Pipeline>;
+  private sessions: Map<string, Session>;
+  // Login sessions stay in process memory even with a file - a restart logs everyone out
+  readonly sessionStore: session.Store;
+  private dirty = false;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
 
-  constructor() {
+  constructor(private filePath?: string) {
+    const MemoryStore = createMemoryStore(session);
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
     this.users = new Map();
+    this.workspaces = new Map();
+    this.commands = new Map();
+    this.agentDefinitions = new Map();
+    this.pipelines = new Map();
+    this.sessions = new Map();
+
+    if (filePath && fs.existsSync(filePath)) {
+      this.load(filePath);
+    }
+  }
+
+  private load(filePath: string): void {
+    let snapshot: MemStorageSnapshot;
+    try {
+      snapshot = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (error: any) {
+      throw new Error(`Failed to load storage file ${filePath}: ${error.message}`);
+    }
+
+    // JSON has no dates - revive them so sorting and formatting behave like MongoDB
+    for (const user of snapshot.users || []) {
+      this.users.set(user.id, user);
+    }
+    for (const workspace of snapshot.workspaces || []) {
+      this.workspaces.set(workspace.id, { ...workspace, createdAt: new Date(workspace.createdAt) });
+    }
+    for (const command of snapshot.commands || []) {
+      this.commands.set(command._id!, { ...command, timestamp: new Date(command.timestamp) });
+    }
+    for (const agent of snapshot.agentDefinitions || []) {
+      this.agentDefinitions.set(agentKey(agent.workspaceId, agent.id), agent);
+    }
+    for (const workspaceId of Object.keys(snapshot.pipelines || {})) {
+      this.pipelines.set(workspaceId, snapshot.pipelines[workspaceId]);
+    }
+    for (const session of snapshot.sessions || []) {
+      this.sessions.set(session._id!, { ...session, createdAt: new Date(session.createdAt) });
+    }
+    console.log(`[MemStorage] Loaded ${this.commands.size} commands and ${this.sessions.size} sessions from ${filePath}`);
+  }
+
+  // Marks the file out of date; it is rewritten in the background PERSIST_DELAY_MS later
+  private persist(): void {
+    if (!this.filePath) return;
+    this.dirty = true;
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.flush();
+    }, PERSIST_DELAY_MS);
+  }
+
+  // Write pending changes now; resolves once they are on disk
+  flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    // Chained so two writes never race for the temp file
+    this.writing = this.writing.then(() => this.writeSnapshot()).catch((error: any) => {
+      this.dirty = true;
+      console.error(`[MemStorage] Failed to write ${this.filePath}:`, error.message);
+    });
+    return this.writing;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    if (!this.filePath || !this.dirty) return;
+    this.dirty = false;
+
+    // Audio clips are left out - they are large and can be synthesized again
+    const snapshot: MemStorageSnapshot = {
+      users: Array.from(this.users.values()),
+      workspaces: Array.from(this.workspaces.values()),
+      commands: Array.from(this.commands.values()),
+      agentDefinitions: Array.from(this.agentDefinitions.values()),
+      pipelines: Object.fromEntries(Array.from(this.pipelines.entries())),
+      sessions: Array.from(this.sessions.values()).map(withoutAudio),
+    };
+
+    // Write to a temp file and rename so a crash never leaves half a file behind
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(snapshot));
+    await fs.promises.rename(tempPath, this.filePath);
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -31,33 +207,212 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    // Checked synchronously so concurrent registrations can't both pass
+    if (Array.from(this.users.values()).some(user => user.username === insertUser.username)) {
+      throw new UsernameTakenError(insertUser.username);
+    }
     const id = randomUUID();
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
+    this.persist();
     return user;
   }
 
-  async saveCommand(_command: InsertCommand): Promise<Command> {
-    throw new Error("MongoDB required for command storage");
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getUserWorkspaces(userId: string): Promise<Workspace[]> {
+    return Array.from(this.workspaces.values())
+      .filter(workspace => workspace.members.some(member => member.userId === userId))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async saveWorkspace(workspace: Workspace): Promise<Workspace> {
+    this.workspaces.set(workspace.id, workspace);
+    this.persist();
+    return workspace;
+  }
+
+  async createPersonalWorkspace(workspace: Workspace & { personalFor: string }): Promise<Workspace> {
+    // Checked synchronously so parallel first requests can't both create one
+    const existing = Array.from(this.workspaces.values()).find(w => w.personalFor === workspace.personalFor);
+    if (existing) {
+      return existing;
+    }
+    return this.saveWorkspace(workspace);
+  }
+
+  async deleteWorkspace(id: string): Promise<boolean> {
+    const existed = this.workspaces.delete(id);
+    const collections: Array<Map<string, { workspaceId?: string }>> = [this.commands, this.agentDefinitions, this.sessions];
+    for (const collection of collections) {
+      Array.from(collection.entries())
+        .filter(([, item]) => item.workspaceId === id)
+        .forEach(([key]) => collection.delete(key));
+    }
+    this.pipelines.delete(id);
+    this.persist();
+    return existed;
+  }
+
+  async saveCommand(insertCommand: InsertCommand): Promise<Command> {
+    // Vectors are only used by MongoDB search - keep the file small
+    const { embedding, embeddingModel, ...rest } = insertCommand;
+    const command: Command = {
+      ...rest,
+      timestamp: new Date(insertCommand.timestamp),
+      _id: randomUUID()
+    };
+    this.commands.set(command._id!, command);
+    this.persist();
+    return command;
+  }
+
+  async getAllCommands(workspaceId: string): Promise<Command[]> {
+    return this.commandsNewestFirst(workspaceId);
+  }
+
+  async getRecentCommands(workspaceId: string, limit: number): Promise<Command[]> {
+    return this.commandsNewestFirst(workspaceId).slice(0, limit);
+  }
+
+  // Ranked text search - the transcript counts more than the agents' responses
+  async searchCommands(workspaceId: string, query: string, limit: number = 10): Promise<Command[]> {
+    return rankByText(
+      query,
+      this.commandsNewestFirst(workspaceId),
+      command => [
+        { text: command.transcript, weight: 3 },
+        ...command.agentResponses.map(response => ({ text: response.message, weight: 1 })),
+      ],
+      limit,
+    );
+  }
+
+  private commandsNewestFirst(workspaceId: string): Command[] {
+    return Array.from(this.commands.values())
+      .filter(command => command.workspaceId === workspaceId)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }
+
+  async getAgentDefinitions(workspaceId: string): Promise<AgentDefinition[]> {
+    return Array.from(this.agentDefinitions.values())
+      .filter(agent => agent.workspaceId === workspaceId)
+      .map(toAgentDefinition)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getAgentDefinition(workspaceId: string, id: string): Promise<AgentDefinition | undefined> {
+    const agent = this.agentDefinitions.get(agentKey(workspaceId, id));
+    return agent ? toAgentDefinition(agent) : undefined;
+  }
+
+  async saveAgentDefinition(workspaceId: string, agent: AgentDefinition): Promise<AgentDefinition> {
+    this.agentDefinitions.set(agentKey(workspaceId, agent.id), { ...agent, workspaceId });
+    this.persist();
+    return agent;
+  }
+
+  async deleteAgentDefinition(workspaceId: string, id: string): Promise<boolean> {
+    const deleted = this.agentDefinitions.delete(agentKey(workspaceId, id));
+    this.persist();
+    return deleted;
+  }
+
+  async getPipeline(workspaceId: string): Promise<Pipeline | undefined> {
+    return this.pipelines.get(workspaceId);
+  }
+
+  async savePipeline(workspaceId: string, pipeline: Pipeline): Promise<Pipeline> {
+    this.pipelines.set(workspaceId, pipeline);
+    this.persist();
+    return pipeline;
   }
 
-  async getAllCommands(): Promise<Command[]> {
-    return [];
+  async deletePipeline(workspaceId: string): Promise<boolean> {
+    const existed = this.pipelines.delete(workspaceId);
+    this.persist();
+    return existed;
   }
 
-  async getRecentCommands(_limit: number): Promise<Command[]> {
-    return [];
+  async saveSession(insertSession: InsertSession): Promise<Session> {
+    const _id = randomUUID();
+    const session: Session = { ...insertSession, createdAt: new Date(insertSession.createdAt), _id };
+    this.sessions.set(_id, session);
+    this.persist();
+    return session;
   }
 
-  async searchCommands(_query: string, _limit?: number): Promise<Command[]> {
-    return [];
+  async getSession(workspaceId: string, id: string): Promise<Session | undefined> {
+    const session = this.sessions.get(id);
+    return session?.workspaceId === workspaceId ? session : undefined;
   }
+
+  async getRecentSessions(workspaceId: string, limit: number): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.workspaceId === workspaceId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, limit)
+      .map(withoutAudio);
+  }
+
+  async getThreadSessions(workspaceId: string, threadId: string): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.workspaceId === workspaceId && session.threadId === threadId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(withoutAudio);
+  }
+}
+
+// Atlas Vector Search index on commands.embedding (with embeddingModel as a filter field)
+const VECTOR_INDEX = process.env.MONGODB_VECTOR_INDEX || "command_embeddings";
+// Server errors meaning $vectorSearch can't work here: unknown stage (plain mongod), search not
+// enabled, and stage only allowed on Atlas
+const VECTOR_SEARCH_UNSUPPORTED_CODES = [40324, 31082, 6047401];
+// In-process similarity scans at most this many recent commands
+const LOCAL_SEARCH_CANDIDATES = 1000;
+// Older commands without an embedding for the current model are embedded in batches on startup
+const EMBEDDING_BACKFILL_BATCH = 25;
+// Consecutive backfill failures that mean the provider is down - the rest waits for the next start
+const EMBEDDING_BACKFILL_MAX_FAILURES = 3;
+
+// Documents as stored: ObjectId ids, and commands carry their search vector
+type CommandDocument = InsertCommand & {
+  _id?: ObjectId;
+  embedding?: number[];
+  embeddingModel?: string;
+  // Set when the backfill couldn't embed the command with this model, so it isn't retried
+  embeddingFailedModel?: string;
+};
+type AgentDocument = Omit<StoredAgentDefinition, '_id'> & { _id?: ObjectId };
+type SessionDocument = InsertSession & { _id?: ObjectId };
+
+function isVectorSearchUnsupported(error: any): boolean {
+  return VECTOR_SEARCH_UNSUPPORTED_CODES.includes(error.code) ||
+    /unrecognized pipeline stage|index not found|not (?:supported|allowed)/i.test(error.message || '');
+}
+
+// Drop the stored vector and stringify the id before a command leaves storage
+function toCommand(doc: CommandDocument): Command {
+  const { embedding, embeddingModel, embeddingFailedModel, ...command } = doc;
+  return { ...command, _id: doc._id?.toString() };
 }
 
 export class MongoDBStorage implements IStorage {
   private client: MongoClient;
   private db: Db | null = null;
-  private commandsCollection: Collection<Command> | null = null;
+  private usersCollection: Collection<User> | null = null;
+  private workspacesCollection: Collection<Workspace> | null = null;
+  private authSessionsCollection: Collection<AuthSessionDocument> | null = null;
+  private commandsCollection: Collection<CommandDocument> | null = null;
+  private agentsCollection: Collection<AgentDocument> | null = null;
+  private pipelinesCollection: Collection<Pipeline & { workspaceId: string }> | null = null;
+  private sessionsCollection: Collection<SessionDocument> | null = null;
+  // Turned off when the server says $vectorSearch or its index doesn't exist (anything but Atlas)
+  private vectorSearchAvailable = true;
+  private embeddingBackfillStarted = false;
+  readonly sessionStore: session.Store;
 
   constructor() {
     const mongoUri = process.env.MONGODB_URI || "mongodb://localhost:27017";
@@ -65,27 +420,161 @@ export class MongoDBStorage implements IStorage {
       serverSelectionTimeoutMS: 5000,
       connectTimeoutMS: 10000,
     });
+    this.sessionStore = new MongoSessionStore(async () => {
+      await this.connect();
+      return this.authSessionsCollection!;
+    });
   }
 
   private async connect(): Promise<void> {
     if (!this.db) {
       await this.client.connect();
       this.db = this.client.db("cerebral_voice");
-      this.commandsCollection = this.db.collection<Command>("commands");
+      this.usersCollection = this.db.collection<User>("users");
+      // "sessions" already holds squad sessions
+      this.authSessionsCollection = this.db.collection<AuthSessionDocument>("auth_sessions");
+      this.commandsCollection = this.db.collection<CommandDocument>("commands");
+      this.workspacesCollection = this.db.collection<Workspace>("workspaces");
+      this.agentsCollection = this.db.collection<AgentDocument>("agents");
+      this.pipelinesCollection = this.db.collection<Pipeline & { workspaceId: string }>("pipelines");
+      this.sessionsCollection = this.db.collection<SessionDocument>("sessions");
+
+      try {
+        await this.usersCollection.createIndex({ username: 1 }, { unique: true });
+        await this.authSessionsCollection.createIndex({ expires: 1 }, { expireAfterSeconds: 0 });
+        await this.workspacesCollection.createIndex({ id: 1 }, { unique: true });
+        await this.workspacesCollection.createIndex({ 'members.userId': 1 });
+        await this.workspacesCollection.createIndex(
+          { personalFor: 1 },
+          { unique: true, partialFilterExpression: { personalFor: { $exists: true } } },
+        );
+      } catch (error: any) {
+        console.warn('[MongoDB] Failed to create user/workspace indexes:', error.message);
+      }
+
+      // New commands are embedded when saved; older ones are caught up once per process
+      if (!this.embeddingBackfillStarted) {
+        this.embeddingBackfillStarted = true;
+        this.backfillEmbeddings().catch((error: any) => {
+          console.warn('[Embeddings] Backfill failed:', error.message);
+        });
+      }
     }
   }
 
   async getUser(id: string): Promise<User | undefined> {
-    return undefined;
+    await this.connect();
+    if (!this.usersCollection) {
+      return undefined;
+    }
+
+    const user = await this.usersCollection.findOne({ id }, { projection: { _id: 0 } });
+    return user ?? undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return undefined;
+    await this.connect();
+    if (!this.usersCollection) {
+      return undefined;
+    }
+
+    const user = await this.usersCollection.findOne({ username }, { projection: { _id: 0 } });
+    return user ?? undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    return { ...insertUser, id };
+    await this.connect();
+    if (!this.usersCollection) {
+      throw new Error("Users collection not initialized");
+    }
+
+    const user: User = { ...insertUser, id: randomUUID() };
+    try {
+      // insertOne adds _id to the object it is given - keep the returned user clean
+      await this.usersCollection.insertOne({ ...user });
+    } catch (error: any) {
+      // Duplicate key on the unique username index
+      if (error.code === 11000) {
+        throw new UsernameTakenError(user.username);
+      }
+      throw error;
+    }
+    return user;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    await this.connect();
+    if (!this.workspacesCollection) {
+      return undefined;
+    }
+
+    const workspace = await this.workspacesCollection.findOne({ id }, { projection: { _id: 0 } });
+    return workspace ?? undefined;
+  }
+
+  async getUserWorkspaces(userId: string): Promise<Workspace[]> {
+    await this.connect();
+    if (!this.workspacesCollection) {
+      return [];
+    }
+
+    return this.workspacesCollection
+      .find({ 'members.userId': userId }, { projection: { _id: 0 } })
+      .sort({ createdAt: 1 })
+      .toArray();
+  }
+
+  async saveWorkspace(workspace: Workspace): Promise<Workspace> {
+    await this.connect();
+    if (!this.workspacesCollection) {
+      throw new Error("Workspaces collection not initialized");
+    }
+
+    await this.workspacesCollection.replaceOne(
+      { id: workspace.id },
+      { ...workspace, createdAt: new Date(workspace.createdAt) },
+      { upsert: true },
+    );
+    return workspace;
+  }
+
+  async createPersonalWorkspace(workspace: Workspace & { personalFor: string }): Promise<Workspace> {
+    await this.connect();
+    if (!this.workspacesCollection) {
+      throw new Error("Workspaces collection not initialized");
+    }
+
+    const filter = { personalFor: workspace.personalFor };
+    try {
+      const stored = await this.workspacesCollection.findOneAndUpdate(
+        filter,
+        { $setOnInsert: { ...workspace, createdAt: new Date(workspace.createdAt) } },
+        { upsert: true, returnDocument: 'after', projection: { _id: 0 } },
+      );
+      return stored ?? workspace;
+    } catch (error: any) {
+      // Parallel upserts: the unique index turns all but one away, and that one is the workspace
+      if (error.code !== 11000) throw error;
+      const stored = await this.workspacesCollection.findOne(filter, { projection: { _id: 0 } });
+      if (!stored) throw error;
+      return stored;
+    }
+  }
+
+  async deleteWorkspace(id: string): Promise<boolean> {
+    await this.connect();
+    if (!this.workspacesCollection) {
+      return false;
+    }
+
+    const result = await this.workspacesCollection.deleteOne({ id });
+    await Promise.all([
+      this.commandsCollection!.deleteMany({ workspaceId: id }),
+      this.agentsCollection!.deleteMany({ workspaceId: id }),
+      this.pipelinesCollection!.deleteMany({ workspaceId: id }),
+      this.sessionsCollection!.deleteMany({ workspaceId: id }),
+    ]);
+    return result.deletedCount > 0;
   }
 
   async saveCommand(command: InsertCommand): Promise<Command> {
@@ -94,59 +583,192 @@ export class MongoDBStorage implements IStorage {
       throw new Error("Commands collection not initialized");
     }
 
-    const doc = {
+    const doc: CommandDocument = {
       ...command,
-      timestamp: new Date(command.timestamp)
+      timestamp: new Date(command.timestamp),
+      ...(await this.embedCommand(command))
     };
 
-    const result = await this.commandsCollection.insertOne(doc as any);
+    const result = await this.commandsCollection.insertOne(doc);
     return {
       ...command,
       _id: result.insertedId.toString()
     };
   }
 
-  async getAllCommands(): Promise<Command[]> {
+  // An embedding failure should never block saving the command itself
+  private async embedCommand(command: InsertCommand): Promise<{ embedding?: number[]; embeddingModel?: string }> {
+    try {
+      const embedder = getEmbeddingProvider();
+      const embedding = await embedder.embed(commandEmbeddingText(command), 'document');
+      return { embedding, embeddingModel: embedder.model };
+    } catch (error: any) {
+      console.warn('[Embeddings] Failed to embed command, saving without vector:', error.message);
+      return {};
+    }
+  }
+
+  async getAllCommands(workspaceId: string): Promise<Command[]> {
     await this.connect();
     if (!this.commandsCollection) {
       return [];
     }
 
     const commands = await this.commandsCollection
-      .find({})
+      .find({ workspaceId }, { projection: { embedding: 0 } })
       .sort({ timestamp: -1 })
       .toArray();
 
-    return commands.map(cmd => ({
-      ...cmd,
-      _id: cmd._id?.toString()
-    }));
+    return commands.map(toCommand);
   }
 
-  async getRecentCommands(limit: number): Promise<Command[]> {
+  async getRecentCommands(workspaceId: string, limit: number): Promise<Command[]> {
     await this.connect();
     if (!this.commandsCollection) {
       return [];
     }
 
     const commands = await this.commandsCollection
-      .find({})
+      .find({ workspaceId }, { projection: { embedding: 0 } })
       .sort({ timestamp: -1 })
       .limit(limit)
       .toArray();
 
-    return commands.map(cmd => ({
-      ...cmd,
-      _id: cmd._id?.toString()
-    }));
+    return commands.map(toCommand);
   }
 
-  async searchCommands(query: string, limit: number = 10): Promise<Command[]> {
+  // Semantic search: $vectorSearch on Atlas, cosine similarity in-process everywhere else.
+  // Falls back to Atlas text search, then recent commands, if the query can't be embedded.
+  async searchCommands(workspaceId: string, query: string, limit: number = 10): Promise<Command[]> {
     await this.connect();
     if (!this.commandsCollection) {
       return [];
     }
 
+    let embedder: EmbeddingProvider | null = null;
+    let queryVector: number[] | null = null;
+    try {
+      embedder = getEmbeddingProvider();
+      queryVector = await embedder.embed(query, 'query');
+    } catch (error: any) {
+      console.warn('[Embeddings] Failed to embed search query:', error.message);
+    }
+
+    if (embedder && queryVector) {
+      const results = this.vectorSearchAvailable
+        ? await this.vectorSearchCommands(workspaceId, embedder, queryVector, limit)
+        : null;
+      return results ?? this.similaritySearchCommands(workspaceId, embedder, queryVector, limit);
+    }
+
+    return this.textSearchCommands(workspaceId, query, limit);
+  }
+
+  // Returns null when the query failed and the in-process scan should answer instead
+  private async vectorSearchCommands(workspaceId: string, embedder: EmbeddingProvider, queryVector: number[], limit: number): Promise<Command[] | null> {
+    try {
+      const commands = await this.commandsCollection!
+        .aggregate<CommandDocument>([
+          {
+            $vectorSearch: {
+              index: VECTOR_INDEX,
+              path: "embedding",
+              queryVector,
+              numCandidates: limit * 10,
+              limit,
+              filter: { embeddingModel: embedder.model, workspaceId }
+            }
+          },
+          { $addFields: { score: { $meta: "vectorSearchScore" } } },
+          { $match: { score: { $gte: embedder.minSimilarity } } },
+          { $project: { embedding: 0, score: 0 } }
+        ])
+        .toArray();
+
+      console.log(`[MongoDB Vector Search] Found ${commands.length} commands`);
+      return commands.map(toCommand);
+    } catch (error: any) {
+      // Remember a missing feature so every query doesn't pay for a failing round trip; anything
+      // else (a timeout, a dropped connection) only affects this query
+      if (isVectorSearchUnsupported(error)) {
+        this.vectorSearchAvailable = false;
+        console.log('[MongoDB Vector Search] Unavailable, using in-process similarity:', error.message);
+      } else {
+        console.warn('[MongoDB Vector Search] Query failed, using in-process similarity:', error.message);
+      }
+      return null;
+    }
+  }
+
+  private async similaritySearchCommands(workspaceId: string, embedder: EmbeddingProvider, queryVector: number[], limit: number): Promise<Command[]> {
+    const candidates = await this.commandsCollection!
+      .find({ embeddingModel: embedder.model, workspaceId })
+      .sort({ timestamp: -1 })
+      .limit(LOCAL_SEARCH_CANDIDATES)
+      .toArray();
+
+    const ranked = candidates
+      .map(doc => ({ doc, score: cosineSimilarity(queryVector, doc.embedding || []) }))
+      .filter(({ score }) => score >= embedder.minSimilarity)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    console.log(`[Local Vector Search] ${ranked.length} of ${candidates.length} commands above ${embedder.minSimilarity} similarity`);
+    return ranked.map(({ doc }) => toCommand(doc));
+  }
+
+  // Embed commands saved before embeddings existed (or with another embedding model). Runs once
+  // per process; a command that can't be embedded is marked so it isn't retried.
+  private async backfillEmbeddings(): Promise<void> {
+    const embedder = getEmbeddingProvider();
+    let backfilled = 0;
+    // Commands that failed since the last success
+    let failedRun: ObjectId[] = [];
+    for (;;) {
+      const missing = await this.commandsCollection!
+        .find(
+          { embeddingModel: { $ne: embedder.model }, embeddingFailedModel: { $ne: embedder.model } },
+          { projection: { embedding: 0 } }
+        )
+        .sort({ timestamp: -1 })
+        .limit(EMBEDDING_BACKFILL_BATCH)
+        .toArray();
+      if (missing.length === 0) break;
+
+      for (const doc of missing) {
+        try {
+          const embedding = await embedder.embed(commandEmbeddingText(doc), 'document');
+          await this.commandsCollection!.updateOne(
+            { _id: doc._id },
+            { $set: { embedding, embeddingModel: embedder.model } }
+          );
+          backfilled++;
+          failedRun = [];
+        } catch (error: any) {
+          console.warn('[Embeddings] Backfill failed for a command:', error.message);
+          await this.commandsCollection!.updateOne(
+            { _id: doc._id },
+            { $set: { embeddingFailedModel: embedder.model } }
+          );
+          failedRun.push(doc._id!);
+          if (failedRun.length >= EMBEDDING_BACKFILL_MAX_FAILURES) {
+            // Most likely the provider is down, not these commands - let the next start retry them
+            await this.commandsCollection!.updateMany(
+              { _id: { $in: failedRun } },
+              { $unset: { embeddingFailedModel: '' } }
+            );
+            console.warn('[Embeddings] Stopping backfill until the next restart');
+            return;
+          }
+        }
+      }
+    }
+    if (backfilled > 0) {
+      console.log(`[Embeddings] Backfilled ${backfilled} commands with ${embedder.model}`);
+    }
+  }
+
+  private async textSearchCommands(workspaceId: string, query: string, limit: number): Promise<Command[]> {
     try {
       // MongoDB Atlas Search aggregation pipeline
       const searchPipeline = [
@@ -161,26 +783,205 @@ export class MongoDBStorage implements IStorage {
             }
           }
         },
+        {
+          $match: { workspaceId }
+        },
         {
           $limit: limit
+        },
+        {
+          $project: { embedding: 0 }
         }
       ];
 
-      const commands = await this.commandsCollection
-        .aggregate(searchPipeline)
-        .toArray() as any[];
+      const commands = await this.commandsCollection!
+        .aggregate<CommandDocument>(searchPipeline)
+        .toArray();
 
-      return commands.map(cmd => ({
-        ...cmd,
-        _id: cmd._id?.toString()
-      })) as Command[];
+      return commands.map(toCommand);
     } catch (error: any) {
       console.error('[MongoDB Atlas Search] Search failed:', error.message);
       // Fallback to recent commands if search fails
       console.log('[MongoDB Atlas Search] Falling back to recent commands');
-      return this.getRecentCommands(limit);
+      return this.getRecentCommands(workspaceId, limit);
+    }
+  }
+
+  async getAgentDefinitions(workspaceId: string): Promise<AgentDefinition[]> {
+    await this.connect();
+    if (!this.agentsCollection) {
+      return [];
+    }
+
+    const agents = await this.agentsCollection
+      .find({ workspaceId }, { projection: { workspaceId: 0 } })
+      .sort({ position: 1 })
+      .toArray();
+
+    return agents.map(agent => ({
+      ...agent,
+      _id: agent._id?.toString()
+    }));
+  }
+
+  async getAgentDefinition(workspaceId: string, id: string): Promise<AgentDefinition | undefined> {
+    await this.connect();
+    if (!this.agentsCollection) {
+      return undefined;
+    }
+
+    const agent = await this.agentsCollection.findOne({ workspaceId, id }, { projection: { workspaceId: 0 } });
+    return agent ? { ...agent, _id: agent._id?.toString() } : undefined;
+  }
+
+  async saveAgentDefinition(workspaceId: string, agent: AgentDefinition): Promise<AgentDefinition> {
+    await this.connect();
+    if (!this.agentsCollection) {
+      throw new Error("Agents collection not initialized");
+    }
+
+    // Agents are keyed by workspace and id slug, so saving replaces any existing definition
+    const { _id, ...doc } = agent;
+    await this.agentsCollection.replaceOne({ workspaceId, id: agent.id }, { ...doc, workspaceId }, { upsert: true });
+    return (await this.getAgentDefinition(workspaceId, agent.id)) ?? agent;
+  }
+
+  async deleteAgentDefinition(workspaceId: string, id: string): Promise<boolean> {
+    await this.connect();
+    if (!this.agentsCollection) {
+      return false;
+    }
+
+    const result = await this.agentsCollection.deleteOne({ workspaceId, id });
+    return result.deletedCount > 0;
+  }
+
+  // One pipeline per workspace
+  async getPipeline(workspaceId: string): Promise<Pipeline | undefined> {
+    await this.connect();
+    if (!this.pipelinesCollection) {
+      return undefined;
+    }
+
+    const doc = await this.pipelinesCollection.findOne({ workspaceId });
+    return doc ? { nodes: doc.nodes, edges: doc.edges } : undefined;
+  }
+
+  async savePipeline(workspaceId: string, pipeline: Pipeline): Promise<Pipeline> {
+    await this.connect();
+    if (!this.pipelinesCollection) {
+      throw new Error("Pipelines collection not initialized");
+    }
+
+    await this.pipelinesCollection.replaceOne(
+      { workspaceId },
+      { workspaceId, nodes: pipeline.nodes, edges: pipeline.edges },
+      { upsert: true },
+    );
+    return pipeline;
+  }
+
+  async deletePipeline(workspaceId: string): Promise<boolean> {
+    await this.connect();
+    if (!this.pipelinesCollection) {
+      return false;
+    }
+
+    const result = await this.pipelinesCollection.deleteOne({ workspaceId });
+    return result.deletedCount > 0;
+  }
+
+  async saveSession(session: InsertSession): Promise<Session> {
+    await this.connect();
+    if (!this.sessionsCollection) {
+      throw new Error("Sessions collection not initialized");
+    }
+
+    const doc: SessionDocument = {
+      ...session,
+      createdAt: new Date(session.createdAt)
+    };
+
+    const result = await this.sessionsCollection.insertOne(doc);
+    return {
+      ...session,
+      _id: result.insertedId.toString()
+    };
+  }
+
+  async getSession(workspaceId: string, id: string): Promise<Session | undefined> {
+    await this.connect();
+    if (!this.sessionsCollection || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const session = await this.sessionsCollection.findOne({ _id: new ObjectId(id), workspaceId });
+    return session ? { ...session, _id: session._id?.toString() } : undefined;
+  }
+
+  async getRecentSessions(workspaceId: string, limit: number): Promise<Session[]> {
+    await this.connect();
+    if (!this.sessionsCollection) {
+      return [];
+    }
+
+    // Audio clips are large - they are only returned by getSession
+    const sessions = await this.sessionsCollection
+      .find({ workspaceId }, { projection: { 'agents.audioData': 0 } })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+
+    return sessions.map(session => ({
+      ...session,
+      _id: session._id?.toString()
+    }));
+  }
+
+  async getThreadSessions(workspaceId: string, threadId: string): Promise<Session[]> {
+    await this.connect();
+    if (!this.sessionsCollection) {
+      return [];
+    }
+
+    const sessions = await this.sessionsCollection
+      .find({ workspaceId, threadId }, { projection: { 'agents.audioData': 0 } })
+      .sort({ createdAt: 1 })
+      .toArray();
+
+    return sessions.map(session => ({
+      ...session,
+      _id: session._id?.toString()
+    }));
+  }
+}
+
+// STORAGE_BACKEND picks the implementation: "mongodb" (default), "memory" for a throwaway
+// in-process store, or "file" for the in-memory store persisted to STORAGE_FILE_PATH
+export function createStorage(): IStorage {
+  const backend = (process.env.STORAGE_BACKEND || 'mongodb').toLowerCase();
+  switch (backend) {
+    case 'mongodb':
+      console.log('[Storage] Using MongoDB');
+      return new MongoDBStorage();
+    case 'memory':
+      console.log('[Storage] Using in-memory storage (data is lost on restart)');
+      return new MemStorage();
+    case 'file': {
+      const filePath = process.env.STORAGE_FILE_PATH || path.join('.data', 'storage.json');
+      console.log(`[Storage] Using in-memory storage persisted to ${filePath}`);
+      const fileStorage = new MemStorage(filePath);
+      // Write pending changes before the process goes away, then let the signal end it
+      for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.once(signal, () => {
+          fileStorage.flush().finally(() => process.kill(process.pid, signal));
+        });
+      }
+      return fileStorage;
     }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}". Must be one of: mongodb, memory, file`);
   }
 }
 
-export const storage = new MongoDBStorage();
+export const storage = createStorage();
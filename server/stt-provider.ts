@@ -0,0 +1,58 @@
+import { GeminiSTTProvider } from "./gemini-provider";
+import { LocalSTTProvider } from "./local-stt-provider";
+import { FixtureSTTProvider } from "./fixture-stt-provider";
+
+export class STTError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'STTError';
+  }
+}
+
+export interface STTRequest {
+  audio: Buffer;
+  // Content type of the upload, e.g. audio/wav or audio/webm;codecs=opus
+  mimeType: string;
+  // BCP 47 tag such as en-US; providers that can detect the language may ignore it
+  language?: string;
+}
+
+export interface STTResult {
+  text: string;
+}
+
+// Turns recorded speech into text for browsers without the Web Speech API
+export interface STTProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  transcribe(request: STTRequest): Promise<STTResult>;
+}
+
+let provider: STTProvider | null = null;
+
+// STT_PROVIDER=local runs the whisper.cpp CLI as a child process (no network), STT_PROVIDER=fixture
+// returns canned transcripts. By default Gemini is used when configured, fixtures when running
+// scripted, and the local engine otherwise.
+export function getSTTProvider(): STTProvider {
+  if (!provider) {
+    const geminiConfigured = !!(process.env.AI_INTEGRATIONS_GEMINI_API_KEY && process.env.AI_INTEGRATIONS_GEMINI_BASE_URL);
+    const scripted = process.env.LLM_PROVIDER === 'scripted';
+    const defaultName = scripted ? 'fixture' : geminiConfigured ? 'gemini' : 'local';
+    const providerName = (process.env.STT_PROVIDER || defaultName).toLowerCase();
+    switch (providerName) {
+      case 'gemini':
+        provider = new GeminiSTTProvider();
+        break;
+      case 'local':
+        provider = new LocalSTTProvider();
+        break;
+      case 'fixture':
+        provider = new FixtureSTTProvider(process.env.STT_FIXTURES_PATH);
+        break;
+      default:
+        throw new Error(`Unknown STT_PROVIDER "${providerName}". Must be one of: gemini, local, fixture`);
+    }
+    console.log(`[STT] Using ${provider.name} provider${provider.isConfigured() ? '' : ' (not configured)'}`);
+  }
+  return provider;
+}
@@ -0,0 +1,236 @@
+// Script the test sandbox runs in its child process (see test-sandbox.ts):
+//   node __runner__.cjs <result.json> <test file>...
+// Generated tests are written against Jest or Vitest. They run on Node's built-in test runner,
+// with Jest's own expect and mock functions behind the globals (and the 'vitest' /
+// '@jest/globals' modules) those tests use.
+//
+// It is shipped to the sandbox as a single CommonJS file, so it may only import Node built-ins
+// and packages from node_modules.
+import Module from "node:module";
+import fs from "node:fs";
+import path from "node:path";
+import util from "node:util";
+import * as nodeTest from "node:test";
+import { expect } from "expect";
+import { ModuleMocker } from "jest-mock";
+import type { TestFailure } from "@shared/schema";
+
+type TestFn = (...args: any[]) => unknown;
+
+const [resultPath, ...testFiles] = process.argv.slice(2);
+const ROOT = process.cwd() + path.sep;
+// Jest's default per-test timeout
+const TEST_TIMEOUT_MS = 5000;
+
+// --- Modules: generated files are already transpiled to CommonJS under their original names
+
+// Loader internals patched below; they are not part of Node's typings
+interface ModuleInternals {
+  _extensions: Record<string, (module: NodeModule, filename: string) => void>;
+  _resolveFilename(request: string, parent: unknown, ...rest: unknown[]): string;
+  _load(request: string, ...rest: unknown[]): unknown;
+}
+const loader = Module as unknown as ModuleInternals;
+
+for (const extension of ['.ts', '.tsx', '.mts', '.cts', '.jsx', '.mjs']) {
+  loader._extensions[extension] = loader._extensions['.js'];
+}
+const originalResolve = loader._resolveFilename;
+loader._resolveFilename = function (request, parent, ...rest) {
+  try {
+    return originalResolve.call(this, request, parent, ...rest);
+  } catch (error) {
+    // "./user.js" written against "./user.ts" (NodeNext style imports)
+    if (request.startsWith('.') && /\.[cm]?jsx?$/.test(request)) {
+      return originalResolve.call(this, request.replace(/\.[cm]?jsx?$/, ''), parent, ...rest);
+    }
+    throw error;
+  }
+};
+const originalLoad = loader._load;
+loader._load = function (request, ...rest) {
+  if (request === 'vitest' || request === '@jest/globals') return testGlobals;
+  return originalLoad.call(this, request, ...rest);
+};
+
+// --- Results, collected as tests run and written when the process exits
+const results = { passed: 0, failed: 0, skipped: 0, failures: [] as TestFailure[] };
+
+function relative(file: string): string {
+  return file.startsWith(ROOT) ? file.slice(ROOT.length) : file;
+}
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return 'Thrown: ' + util.inspect(error, { depth: 4, breakLength: Infinity });
+  const frames = String(error.stack || '').split('\n').slice(1)
+    .filter(line => line.includes(ROOT) && !line.includes('__runner__') && !line.includes('node_modules'))
+    .slice(0, 3)
+    .map(line => line.split(ROOT).join(''));
+  // Node's "Require stack" repeats absolute sandbox paths
+  const message = String(error.message).split('\nRequire stack:')[0].split(ROOT).join('');
+  return [message, ...frames].join('\n');
+}
+function fail(file: string, name: string, error: unknown): void {
+  results.failed++;
+  results.failures.push({ file: relative(file), name, message: describeError(error) });
+}
+
+// Jest-style callback tests take `done`; the timeout is enforced here rather than by node:test
+// so that a test which times out is still recorded as a failure
+function runWithTimeout(fn: TestFn, timeout: number | undefined): Promise<void> {
+  const limit = typeof timeout === 'number' ? timeout : TEST_TIMEOUT_MS;
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${limit}ms`)), limit);
+    const done = () => { clearTimeout(timer); resolve(); };
+    const failed = (error: unknown) => { clearTimeout(timer); reject(error); };
+    try {
+      if (fn.length > 0) {
+        fn((error?: unknown) => error ? failed(error) : done());
+      } else {
+        Promise.resolve(fn()).then(done, failed);
+      }
+    } catch (error) {
+      failed(error);
+    }
+  });
+}
+
+// --- Suites and tests, registered with node:test
+let currentFile = '';
+const suitePath: string[] = [];
+// describe.skip still runs its body so the tests inside are counted as skipped
+let skipDepth = 0;
+
+function titleOf(name: string): string {
+  return [...suitePath, name].join(' > ');
+}
+
+function describe(name: unknown, fn: () => void, skip = false): void {
+  const title = String(name);
+  const file = currentFile;
+  nodeTest.describe(title, () => {
+    suitePath.push(title);
+    if (skip) skipDepth++;
+    try {
+      fn();
+    } catch (error) {
+      fail(file, titleOf('(describe)'), error);
+    } finally {
+      if (skip) skipDepth--;
+      suitePath.pop();
+    }
+  });
+}
+
+function test(name: unknown, fn?: TestFn, timeout?: number, skip = false): void {
+  const title = titleOf(String(name));
+  const file = currentFile;
+  if (!fn || skip || skipDepth > 0) {
+    results.skipped++;
+    nodeTest.it(String(name), { skip: true });
+    return;
+  }
+  nodeTest.it(String(name), async () => {
+    try {
+      await runWithTimeout(fn, timeout);
+      // expect.assertions(n) / expect.hasAssertions()
+      const [unmet] = expect.extractExpectedAssertionsErrors();
+      if (unmet) throw unmet.error;
+      results.passed++;
+    } catch (error) {
+      fail(file, title, error);
+      throw error;
+    }
+  });
+}
+
+function hook(register: (fn: () => Promise<void>) => void, kind: string) {
+  return (fn: TestFn, timeout?: number): void => {
+    const title = titleOf(kind);
+    const file = currentFile;
+    register(async () => {
+      try {
+        await runWithTimeout(fn, timeout);
+      } catch (error) {
+        fail(file, title, error);
+        throw error;
+      }
+    });
+  };
+}
+
+// it.each / describe.each: printf-style (%s, %d...) or $name placeholders in the title
+function formatTitle(title: unknown, args: unknown[]): string {
+  let index = 0;
+  return String(title).replace(/%[sdifjo]/g, () => {
+    const value = args[index++];
+    return typeof value === 'string' ? value : util.inspect(value);
+  }).replace(/\$(\w+)/g, (match, key: string) => {
+    const row = args[0];
+    return args.length === 1 && row && typeof row === 'object' && key in row ? String((row as Record<string, unknown>)[key]) : match;
+  });
+}
+function each(register: (name: string, fn: TestFn | undefined, timeout?: number) => void) {
+  return (table: unknown[]) => (title: unknown, fn?: TestFn, timeout?: number) => {
+    table.forEach(row => {
+      const args = Array.isArray(row) ? row : [row];
+      register(formatTitle(title, args), fn && (() => fn(...args)), timeout);
+    });
+  };
+}
+
+describe.skip = (name: unknown, fn: () => void) => describe(name, fn, true);
+describe.only = (name: unknown, fn: () => void) => describe(name, fn);
+describe.each = each((name, fn) => describe(name, fn as () => void));
+test.skip = (name: unknown, fn?: TestFn) => test(name, fn, undefined, true);
+test.only = (name: unknown, fn?: TestFn, timeout?: number) => test(name, fn, timeout);
+test.todo = (name: unknown) => test(name, undefined, undefined, true);
+test.each = each(test);
+
+// --- Mocks: jest-mock, the implementation behind jest.fn and vi.fn
+const mocker = new ModuleMocker(globalThis);
+
+function unsupported(name: string) {
+  return () => {
+    throw new Error(`${name} is not supported in the test sandbox`);
+  };
+}
+const mockApi = {
+  fn: mocker.fn.bind(mocker),
+  spyOn: mocker.spyOn.bind(mocker),
+  mocked: <T>(value: T) => value,
+  isMockFunction: mocker.isMockFunction.bind(mocker),
+  clearAllMocks: () => mocker.clearAllMocks(),
+  resetAllMocks: () => mocker.resetAllMocks(),
+  restoreAllMocks: () => mocker.restoreAllMocks(),
+  setTimeout: () => {},
+  mock: unsupported('Module mocking'),
+  doMock: unsupported('Module mocking'),
+  useFakeTimers: unsupported('Fake timers'),
+};
+
+const testGlobals = {
+  describe, suite: describe, it: test, test, expect,
+  beforeAll: hook(fn => nodeTest.before(fn), 'beforeAll'),
+  afterAll: hook(fn => nodeTest.after(fn), 'afterAll'),
+  beforeEach: hook(fn => nodeTest.beforeEach(fn), 'beforeEach'),
+  afterEach: hook(fn => nodeTest.afterEach(fn), 'afterEach'),
+  vi: mockApi, jest: mockApi,
+};
+Object.assign(globalThis, testGlobals);
+
+// --- Running: node:test starts the registered tests once the files have loaded
+process.on('unhandledRejection', error => {
+  console.error('Unhandled rejection:', describeError(error));
+});
+process.on('exit', () => {
+  fs.writeFileSync(resultPath, JSON.stringify(results));
+});
+
+for (const file of testFiles) {
+  currentFile = path.resolve(file);
+  try {
+    require(currentFile);
+  } catch (error) {
+    fail(currentFile, '(file failed to load)', error);
+  }
+}
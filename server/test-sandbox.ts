@@ -0,0 +1,227 @@
+import { execFile, spawn } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+import type { AgentOutputFile, TestFailure, TestRun } from "@shared/schema";
+
+// Wall-clock limit for the whole run; the child is killed when it is reached
+export const TEST_SANDBOX_TIMEOUT_MS = Number(process.env.TEST_SANDBOX_TIMEOUT_MS) || 20000;
+// V8 heap limit of the child process
+export const TEST_SANDBOX_MEMORY_MB = Number(process.env.TEST_SANDBOX_MEMORY_MB) || 256;
+
+const CODE_FILE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i;
+const TEST_FILE = /\.(test|spec)\.[cm]?[jt]sx?$|(^|\/)__tests__\//i;
+const RUNNER_FILE = '__runner__.cjs';
+const RESULT_FILE = '__result__.json';
+// node:test's own report; the recorded results come from RESULT_FILE
+const REPORT_FILE = '__report__.tap';
+const MAX_OUTPUT_CHARS = 4000;
+const MAX_FAILURES = 20;
+
+// The app's own packages (express, zod, react...) are readable so tests can import them
+const NODE_MODULES = path.resolve('node_modules');
+
+export function isTestFile(filePath: string): boolean {
+  return CODE_FILE.test(filePath) && TEST_FILE.test(filePath);
+}
+
+// Paths come from the LLM - anything that would land outside the sandbox directory is dropped
+function sandboxPath(dir: string, filePath: string): string | undefined {
+  const target = path.resolve(dir, filePath);
+  return target.startsWith(dir + path.sep) ? target : undefined;
+}
+
+// The child gets its own network namespace (unshare with an unprivileged user namespace), which
+// has no interfaces up, so generated code can't reach the network or even localhost
+const NETWORK_ISOLATION = ['unshare', '--user', '--net', '--'];
+
+let isolationCheck: Promise<boolean> | null = null;
+function networkIsolationAvailable(): Promise<boolean> {
+  if (!isolationCheck) {
+    isolationCheck = new Promise(resolve => {
+      execFile(NETWORK_ISOLATION[0], [...NETWORK_ISOLATION.slice(1), 'true'], { timeout: 5000 }, error => {
+        if (error) console.log(`[Test Sandbox] Network isolation is unavailable: ${error.message}`);
+        resolve(!error);
+      });
+    });
+  }
+  return isolationCheck;
+}
+
+// test-sandbox-runner.ts is transpiled on first use in development; the production build
+// bundles it as test-sandbox-runner.cjs next to the server bundle
+let runnerSource: Promise<string> | null = null;
+function loadRunnerSource(): Promise<string> {
+  if (!runnerSource) {
+    const here = fileURLToPath(import.meta.url);
+    if (path.extname(here) === '.ts') {
+      const runnerPath = path.join(path.dirname(here), 'test-sandbox-runner.ts');
+      runnerSource = fs.readFile(runnerPath, 'utf-8').then(source => ts.transpileModule(source, {
+        fileName: runnerPath,
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+      }).outputText);
+    } else {
+      runnerSource = fs.readFile(path.join(path.dirname(here), 'test-sandbox-runner.cjs'), 'utf-8');
+    }
+  }
+  return runnerSource;
+}
+
+function transpile(file: AgentOutputFile): string {
+  return ts.transpileModule(file.content, {
+    fileName: file.path,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      jsx: ts.JsxEmit.ReactJSX,
+      esModuleInterop: true,
+      allowJs: true,
+      inlineSourceMap: true,
+    },
+  }).outputText;
+}
+
+// Code files are written as CommonJS under their original names; the generated package.json
+// is left out so "type": "module" can't change how they load
+async function writeProject(dir: string, files: AgentOutputFile[]): Promise<void> {
+  await fs.writeFile(path.join(dir, 'package.json'), JSON.stringify({ private: true, type: 'commonjs' }));
+  await fs.writeFile(path.join(dir, RUNNER_FILE), await loadRunnerSource());
+  for (const file of files) {
+    const target = sandboxPath(dir, file.path);
+    const isCode = CODE_FILE.test(file.path);
+    if (!target || path.basename(file.path) === 'package.json' || (!isCode && !/\.json$/i.test(file.path))) continue;
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, isCode ? transpile(file) : file.content);
+  }
+}
+
+interface ChildOutcome {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  output: string;
+}
+
+// Node's permission model keeps the child inside the sandbox directory (plus read access to
+// node_modules) and stops it spawning processes, and the network namespace cuts it off from
+// the network. The environment is replaced so API keys and database URLs never reach generated code.
+function runChild(dir: string, testPaths: string[]): Promise<ChildOutcome> {
+  const args = [
+    '--experimental-permission',
+    `--allow-fs-read=${dir}${path.sep}`,
+    `--allow-fs-read=${NODE_MODULES}${path.sep}`,
+    `--allow-fs-write=${dir}${path.sep}`,
+    `--max-old-space-size=${TEST_SANDBOX_MEMORY_MB}`,
+    '--enable-source-maps',
+    '--no-warnings',
+    '--test-reporter=tap',
+    `--test-reporter-destination=${REPORT_FILE}`,
+    RUNNER_FILE,
+    RESULT_FILE,
+    ...testPaths,
+  ];
+
+  return new Promise(resolve => {
+    const child = spawn(NETWORK_ISOLATION[0], [...NETWORK_ISOLATION.slice(1), process.execPath, ...args], {
+      cwd: dir,
+      env: { NODE_ENV: 'test', NODE_PATH: NODE_MODULES, TZ: 'UTC' },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let output = '';
+    const collect = (chunk: Buffer) => {
+      if (output.length < MAX_OUTPUT_CHARS) output += chunk.toString();
+    };
+    child.stdout.on('data', collect);
+    child.stderr.on('data', collect);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, TEST_SANDBOX_TIMEOUT_MS);
+
+    child.on('error', error => {
+      output += `\n${error.message}`;
+    });
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      resolve({ exitCode, signal, timedOut, output: output.slice(0, MAX_OUTPUT_CHARS).trim() });
+    });
+  });
+}
+
+async function readResults(dir: string): Promise<{ passed: number; failed: number; skipped: number; failures: TestFailure[] } | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, RESULT_FILE), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// Write the files to a temporary directory and run every test file among them in a locked-down
+// child process. Returns undefined when there are no test files.
+export async function runGeneratedTests(files: AgentOutputFile[]): Promise<TestRun | undefined> {
+  const testFiles = files.filter(file => isTestFile(file.path)).map(file => file.path);
+  if (testFiles.length === 0) {
+    return undefined;
+  }
+
+  const startedAt = Date.now();
+  if (!(await networkIsolationAvailable())) {
+    return {
+      status: 'error',
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      testFiles,
+      failures: [],
+      output: 'Tests were not run: network isolation is unavailable (needs unshare and unprivileged user namespaces)',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  const dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'squad-tests-')));
+  try {
+    await writeProject(dir, files);
+    const testPaths = testFiles.filter(file => sandboxPath(dir, file));
+    const outcome = await runChild(dir, testPaths);
+    const results = outcome.timedOut ? undefined : await readResults(dir);
+    const durationMs = Date.now() - startedAt;
+
+    if (!results) {
+      const reason = outcome.timedOut
+        ? `Timed out after ${TEST_SANDBOX_TIMEOUT_MS}ms`
+        : /heap out of memory/i.test(outcome.output)
+        ? `Ran out of memory (${TEST_SANDBOX_MEMORY_MB}MB heap limit)`
+        : `Test process exited with ${outcome.signal ?? `code ${outcome.exitCode}`}`;
+      console.log(`[Test Sandbox] ${testPaths.length} test files: ${reason}`);
+      return {
+        status: outcome.timedOut ? 'timeout' : 'error',
+        passed: 0,
+        failed: 0,
+        skipped: 0,
+        testFiles: testPaths,
+        failures: [],
+        output: [reason, outcome.output].filter(Boolean).join('\n'),
+        durationMs,
+      };
+    }
+
+    console.log(`[Test Sandbox] ${testPaths.length} test files: ${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped in ${durationMs}ms`);
+    return {
+      status: results.failed > 0 ? 'failed' : results.passed > 0 ? 'passed' : 'error',
+      passed: results.passed,
+      failed: results.failed,
+      skipped: results.skipped,
+      testFiles: testPaths,
+      failures: results.failures.slice(0, MAX_FAILURES),
+      output: outcome.output || (results.passed + results.failed === 0 ? 'No tests found' : undefined),
+      durationMs,
+    };
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
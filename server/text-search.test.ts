@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { rankByText, tokenize } from "./text-search";
+
+describe('tokenize', () => {
+  it('lowercases, drops stopwords and stems', () => {
+    assert.deepEqual(tokenize('Please add the Endpoints for paginating users'), ['add', 'endpoint', 'paginat', 'user']);
+  });
+
+  it('folds accents and keeps non-Latin words whole', () => {
+    assert.deepEqual(tokenize('Créer une API'), ['creer', 'une', 'api']);
+    assert.deepEqual(tokenize('сервер'), ['сервер']);
+  });
+
+  it('indexes Chinese, Japanese and Korean runs as character bigrams', () => {
+    assert.deepEqual(tokenize('用户登录'), ['用户', '户登', '登录']);
+    assert.deepEqual(tokenize('ログイン画面'), ['ログ', 'グイ', 'イン', 'ン画', '画面']);
+    assert.deepEqual(tokenize('로그인'), ['로그', '그인']);
+  });
+
+  it('splits CJK runs out of mixed text', () => {
+    assert.deepEqual(tokenize('React组件'), ['react', '组件']);
+    assert.deepEqual(tokenize('字'), ['字']);
+  });
+});
+
+describe('rankByText', () => {
+  const docs = [
+    { id: 'auth', text: 'Add login and signup endpoints with JWT auth' },
+    { id: 'todo', text: 'Build a todo list with drag and drop' },
+    { id: 'auth-ui', text: 'Style the login page' },
+    { id: 'zh', text: '实现用户登录功能' },
+  ];
+  const rank = (query: string, limit = 10) =>
+    rankByText(query, docs, doc => [{ text: doc.text, weight: 1 }], limit).map(doc => doc.id);
+
+  it('drops items that share no terms with the query', () => {
+    assert.deepEqual(rank('drag and drop'), ['todo']);
+    assert.deepEqual(rank('kubernetes'), []);
+  });
+
+  it('ranks items matching more query terms first', () => {
+    assert.deepEqual(rank('login endpoints'), ['auth', 'auth-ui']);
+  });
+
+  it('prefers rarer terms', () => {
+    // "login" is in two documents, "style" in one
+    assert.deepEqual(rank('style login'), ['auth-ui', 'auth']);
+  });
+
+  it('weights fields', () => {
+    const items = [
+      { id: 'response', transcript: 'Build a dashboard', response: 'Added charts with pagination' },
+      { id: 'transcript', transcript: 'Add pagination', response: 'Done' },
+    ];
+    const ranked = rankByText('pagination', items, item => [
+      { text: item.transcript, weight: 3 },
+      { text: item.response, weight: 1 },
+    ], 10);
+    assert.deepEqual(ranked.map(item => item.id), ['transcript', 'response']);
+  });
+
+  it('finds Chinese text by a word inside a sentence', () => {
+    assert.deepEqual(rank('登录'), ['zh']);
+  });
+
+  it('honours the limit and returns nothing for a stopword-only query', () => {
+    assert.deepEqual(rank('login', 1).length, 1);
+    assert.deepEqual(rank('the and of'), []);
+  });
+});
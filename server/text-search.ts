@@ -0,0 +1,98 @@
+import { foldText } from "@shared/languages";
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'me', 'my', 'of', 'on', 'or', 'please', 'so', 'that', 'the', 'this', 'to', 'we',
+  'what', 'with', 'you', 'your',
+]);
+
+// BM25 tuning - standard defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Built with RegExp: the compile target predates the regex `u` flag
+const NON_WORD = new RegExp('[^\\p{L}\\p{M}\\p{N}]+', 'u');
+// Chinese, Japanese and Korean are written without spaces between words (or with particles
+// attached), so their runs are split out and indexed as character bigrams
+const CJK_RUN = new RegExp('([\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}\\u30fc]+)', 'u');
+
+// Lowercased, accent-free, stopword-free, lightly stemmed terms in text order
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  // foldText leaves NFD; recompose so Hangul syllables and kana stay single characters
+  foldText(text).normalize('NFC').split(NON_WORD).forEach(word => {
+    // Odd parts are the CJK runs
+    word.split(CJK_RUN).forEach((part, i) => {
+      if (i % 2 === 1) {
+        tokens.push(...cjkBigrams(part));
+      } else if (part.length > 1 && !STOPWORDS.has(part)) {
+        tokens.push(stem(part));
+      }
+    });
+  });
+  return tokens;
+}
+
+function cjkBigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length === 1) return chars;
+  return chars.slice(1).map((char, i) => chars[i] + char);
+}
+
+// Light suffix stripping so "endpoints"/"endpoint" and "paginating"/"paginate" share terms
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  if (token.length > 4 && token.endsWith('es')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+export interface SearchField {
+  text: string;
+  // Term counts in this field are multiplied by the weight (e.g. transcript > responses)
+  weight: number;
+}
+
+// Rank items against a query with BM25 over weighted fields. Items that share no terms
+// with the query are dropped; an exact phrase match in any field gets a boost.
+export function rankByText<T>(query: string, items: T[], getFields: (item: T) => SearchField[], limit: number): T[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || items.length === 0) return [];
+
+  const phrase = query.trim().toLowerCase();
+  const docs = items.map(item => {
+    const fields = getFields(item);
+    const termFreq = new Map<string, number>();
+    let length = 0;
+    for (const field of fields) {
+      for (const term of tokenize(field.text)) {
+        termFreq.set(term, (termFreq.get(term) || 0) + field.weight);
+        length += field.weight;
+      }
+    }
+    const hasPhrase = phrase.length > 0 && fields.some(field => field.text.toLowerCase().includes(phrase));
+    return { item, termFreq, length, hasPhrase };
+  });
+
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const df = docs.filter(doc => doc.termFreq.has(term)).length;
+    return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  return docs
+    .map(doc => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.termFreq.get(term) || 0;
+        if (tf === 0) continue;
+        score += idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / avgLength));
+      }
+      return { item: doc.item, score: doc.hasPhrase ? score * 1.5 : score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,209 @@
+import type { NextFunction, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import {
+  insertWorkspaceSchema,
+  inviteWorkspaceMemberSchema,
+  updateWorkspaceMemberSchema,
+  type InsertWorkspace,
+  type InviteWorkspaceMember,
+  type PublicUser,
+  type Workspace,
+  type WorkspaceRole,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Error with an HTTP status so routes can map workspace failures to responses
+export class WorkspaceError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+export interface ActiveWorkspace {
+  workspace: Workspace;
+  role: WorkspaceRole;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      activeWorkspace?: ActiveWorkspace;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // The workspace picked in the header; falls back to the user's first workspace
+    workspaceId?: string;
+  }
+}
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export function getMemberRole(workspace: Workspace, userId: string): WorkspaceRole | undefined {
+  return workspace.members.find(member => member.userId === userId)?.role;
+}
+
+function hasRole(role: WorkspaceRole | undefined, required: WorkspaceRole): boolean {
+  return role !== undefined && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// Non-members get a 404 so workspace ids can't be probed
+async function getMemberWorkspace(userId: string, workspaceId: string, required: WorkspaceRole = 'viewer'): Promise<Workspace> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  const role = workspace && getMemberRole(workspace, userId);
+  if (!workspace || !role) {
+    throw new WorkspaceError('Workspace not found', 404);
+  }
+  if (!hasRole(role, required)) {
+    throw new WorkspaceError(`Only a workspace ${required} can do this`, 403);
+  }
+  return workspace;
+}
+
+function countOwners(workspace: Workspace): number {
+  return workspace.members.filter(member => member.role === 'owner').length;
+}
+
+function newWorkspace(user: PublicUser, name: string): Workspace {
+  return {
+    id: randomUUID(),
+    name,
+    members: [{ userId: user.id, username: user.username, role: 'owner' }],
+    createdAt: new Date(),
+  };
+}
+
+// Every user has at least one workspace: created on registration, or on first use
+// for accounts that predate workspaces. The client's first requests arrive in parallel, so
+// the personal workspace is keyed by user and only the first of them creates it.
+export async function listWorkspaces(user: PublicUser): Promise<Workspace[]> {
+  const workspaces = await storage.getUserWorkspaces(user.id);
+  if (workspaces.length > 0) {
+    return workspaces;
+  }
+  const created = { ...newWorkspace(user, `${user.username}'s workspace`), personalFor: user.id };
+  const workspace = await storage.createPersonalWorkspace(created);
+  if (workspace.id === created.id) {
+    console.log(`[Workspaces] Created a personal workspace for ${user.username}`);
+  }
+  return [workspace];
+}
+
+export async function createWorkspace(user: PublicUser, input: InsertWorkspace): Promise<Workspace> {
+  const { name } = insertWorkspaceSchema.parse(input);
+  console.log(`[Workspaces] ${user.username} created workspace "${name}"`);
+  return storage.saveWorkspace(newWorkspace(user, name));
+}
+
+export async function renameWorkspace(userId: string, workspaceId: string, input: InsertWorkspace): Promise<Workspace> {
+  const workspace = await getMemberWorkspace(userId, workspaceId, 'owner');
+  const { name } = insertWorkspaceSchema.parse(input);
+  return storage.saveWorkspace({ ...workspace, name });
+}
+
+// Deletes the workspace with its history, sessions, agents and pipeline
+export async function deleteWorkspace(userId: string, workspaceId: string): Promise<void> {
+  const workspace = await getMemberWorkspace(userId, workspaceId, 'owner');
+  await storage.deleteWorkspace(workspaceId);
+  console.log(`[Workspaces] Deleted workspace "${workspace.name}"`);
+}
+
+export async function inviteMember(userId: string, workspaceId: string, input: InviteWorkspaceMember): Promise<Workspace> {
+  const workspace = await getMemberWorkspace(userId, workspaceId, 'owner');
+  const { username, role } = inviteWorkspaceMemberSchema.parse(input);
+
+  const invitee = await storage.getUserByUsername(username);
+  if (!invitee) {
+    throw new WorkspaceError(`No user named "${username}"`, 404);
+  }
+  if (getMemberRole(workspace, invitee.id)) {
+    throw new WorkspaceError(`${invitee.username} is already a member`, 409);
+  }
+
+  console.log(`[Workspaces] Added ${invitee.username} to "${workspace.name}" as ${role}`);
+  return storage.saveWorkspace({
+    ...workspace,
+    members: [...workspace.members, { userId: invitee.id, username: invitee.username, role }],
+  });
+}
+
+export async function updateMemberRole(userId: string, workspaceId: string, memberId: string, input: { role: WorkspaceRole }): Promise<Workspace> {
+  const workspace = await getMemberWorkspace(userId, workspaceId, 'owner');
+  const { role } = updateWorkspaceMemberSchema.parse(input);
+
+  const current = getMemberRole(workspace, memberId);
+  if (!current) {
+    throw new WorkspaceError('Member not found', 404);
+  }
+  if (current === 'owner' && role !== 'owner' && countOwners(workspace) === 1) {
+    throw new WorkspaceError('A workspace needs at least one owner', 400);
+  }
+
+  return storage.saveWorkspace({
+    ...workspace,
+    members: workspace.members.map(member => member.userId === memberId ? { ...member, role } : member),
+  });
+}
+
+// Owners can remove anyone; every member can remove themselves (leave)
+export async function removeMember(userId: string, workspaceId: string, memberId: string): Promise<Workspace> {
+  const workspace = await getMemberWorkspace(userId, workspaceId, memberId === userId ? 'viewer' : 'owner');
+
+  const role = getMemberRole(workspace, memberId);
+  if (!role) {
+    throw new WorkspaceError('Member not found', 404);
+  }
+  if (role === 'owner' && countOwners(workspace) === 1) {
+    throw new WorkspaceError('A workspace needs at least one owner - make someone else owner first, or delete the workspace', 400);
+  }
+
+  // A personal workspace stops being the member's once they leave it, so they can get a new one
+  const { personalFor, ...rest } = workspace;
+  return storage.saveWorkspace({
+    ...rest,
+    ...(personalFor && personalFor !== memberId ? { personalFor } : {}),
+    members: workspace.members.filter(member => member.userId !== memberId),
+  });
+}
+
+// Make a workspace the one every scoped route uses for this login session
+export async function switchWorkspace(req: Request, workspaceId: string): Promise<Workspace> {
+  const workspace = await getMemberWorkspace(req.user!.id, workspaceId);
+  req.session.workspaceId = workspace.id;
+  return workspace;
+}
+
+// Resolve the active workspace for every request behind requireAuth
+export async function loadActiveWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    const workspaces = await listWorkspaces(req.user!);
+    // The stored choice may point at a workspace the user has since left or that was deleted
+    const workspace = workspaces.find(w => w.id === req.session.workspaceId) || workspaces[0];
+    req.session.workspaceId = workspace.id;
+    req.activeWorkspace = { workspace, role: getMemberRole(workspace, req.user!.id)! };
+    next();
+  } catch (error: any) {
+    console.error('Load workspace error:', error);
+    res.status(500).json({
+      error: 'Failed to load workspace',
+      details: error.message
+    });
+  }
+}
+
+// The active workspace's id - only valid behind loadActiveWorkspace
+export function currentWorkspaceId(req: Request): string {
+  return req.activeWorkspace!.workspace.id;
+}
+
+export function requireWorkspaceRole(required: WorkspaceRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(req.activeWorkspace?.role, required)) {
+      return res.status(403).json({ error: `This needs the ${required} role in the current workspace` });
+    }
+    next();
+  };
+}
@@ -0,0 +1,222 @@
+// Turns agent responses into a project file tree. Pure - used by the code preview on the
+// client and by the ZIP export on the server, so both show the same paths.
+
+export interface AgentOutput {
+  agentId: string;
+  agentName: string;
+  message: string;
+}
+
+export interface CodeFile {
+  path: string;
+  language: string;
+  code: string;
+  // The agent whose version is kept
+  agentId: string;
+  agentName: string;
+  // Names of every agent that produced this path, in order
+  contributors: string[];
+  // True for code blocks that didn't name a file - they live under snippets/
+  snippet: boolean;
+}
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript', mts: 'typescript', cts: 'typescript', tsx: 'tsx',
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript', jsx: 'jsx',
+  json: 'json', md: 'markdown', mdx: 'mdx',
+  css: 'css', scss: 'scss', sass: 'sass', less: 'less',
+  html: 'html', htm: 'html', vue: 'vue', svelte: 'svelte', astro: 'astro',
+  py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', kts: 'kotlin',
+  swift: 'swift', c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', hpp: 'cpp', cs: 'csharp', php: 'php',
+  dart: 'dart', scala: 'scala', ex: 'elixir', exs: 'elixir', lua: 'lua', r: 'r',
+  sh: 'bash', bash: 'bash', zsh: 'bash', ps1: 'powershell',
+  sql: 'sql', prisma: 'prisma', graphql: 'graphql', gql: 'graphql', proto: 'protobuf',
+  yaml: 'yaml', yml: 'yaml', toml: 'toml', ini: 'ini', xml: 'xml', svg: 'xml',
+  env: 'dotenv', txt: 'text', csv: 'csv', tf: 'hcl', lock: 'text',
+};
+
+// Files recognized by name rather than extension
+const SPECIAL_FILES: Record<string, string> = {
+  'Dockerfile': 'dockerfile',
+  'Makefile': 'makefile',
+  'Procfile': 'text',
+  '.env': 'dotenv',
+  '.env.example': 'dotenv',
+  '.env.local': 'dotenv',
+  '.gitignore': 'text',
+  '.dockerignore': 'text',
+  '.npmrc': 'ini',
+  '.prettierrc': 'json',
+  '.eslintrc': 'json',
+};
+
+// Fence language -> [language, extension for snippets]
+const FENCE_LANGUAGES: Record<string, [string, string]> = {
+  typescript: ['typescript', 'ts'], ts: ['typescript', 'ts'], tsx: ['tsx', 'tsx'],
+  javascript: ['javascript', 'js'], js: ['javascript', 'js'], jsx: ['jsx', 'jsx'],
+  json: ['json', 'json'], jsonc: ['json', 'json'],
+  python: ['python', 'py'], py: ['python', 'py'],
+  bash: ['bash', 'sh'], sh: ['bash', 'sh'], shell: ['bash', 'sh'], zsh: ['bash', 'sh'], console: ['bash', 'sh'],
+  powershell: ['powershell', 'ps1'],
+  yaml: ['yaml', 'yml'], yml: ['yaml', 'yml'], toml: ['toml', 'toml'], ini: ['ini', 'ini'],
+  html: ['html', 'html'], xml: ['xml', 'xml'], css: ['css', 'css'], scss: ['scss', 'scss'], less: ['less', 'less'],
+  markdown: ['markdown', 'md'], md: ['markdown', 'md'],
+  sql: ['sql', 'sql'], prisma: ['prisma', 'prisma'], graphql: ['graphql', 'graphql'],
+  go: ['go', 'go'], golang: ['go', 'go'], rust: ['rust', 'rs'], rs: ['rust', 'rs'],
+  java: ['java', 'java'], kotlin: ['kotlin', 'kt'], swift: ['swift', 'swift'],
+  ruby: ['ruby', 'rb'], rb: ['ruby', 'rb'], php: ['php', 'php'],
+  c: ['c', 'c'], cpp: ['cpp', 'cpp'], 'c++': ['cpp', 'cpp'], csharp: ['csharp', 'cs'], cs: ['csharp', 'cs'],
+  dockerfile: ['dockerfile', 'Dockerfile'], docker: ['dockerfile', 'Dockerfile'],
+  makefile: ['makefile', 'Makefile'], vue: ['vue', 'vue'], svelte: ['svelte', 'svelte'],
+  dotenv: ['dotenv', 'env'], env: ['dotenv', 'env'], hcl: ['hcl', 'tf'], terraform: ['hcl', 'tf'],
+  proto: ['protobuf', 'proto'], protobuf: ['protobuf', 'proto'],
+  text: ['text', 'txt'], txt: ['text', 'txt'], plaintext: ['text', 'txt'],
+};
+
+// Library names that look like file names in prose ("built with Next.js")
+const NOT_FILES = /^(node|next|nuxt|vue|react|express|three|d3|chart|socket|angular|ember|backbone|deno|bun|solid|alpine|p5|anime|moment|day|video|pixi|ml5|tone|paper|fabric|matter|hammer|swiper|plotly|leaflet|handlebars|mustache)\.js$/i;
+
+const FENCE_REGEX = /```([^\n`]*)\n([\s\S]*?)```/g;
+const PATH_CHARS = /^[\w@$+.\-\[\]()/]+$/;
+
+export function languageForPath(path: string): string | undefined {
+  const name = path.split('/').pop() || path;
+  if (SPECIAL_FILES[name]) return SPECIAL_FILES[name];
+  const dot = name.lastIndexOf('.');
+  if (dot <= 0) return undefined;
+  return EXTENSION_LANGUAGES[name.slice(dot + 1).toLowerCase()];
+}
+
+// Clean up a path candidate; undefined if it isn't a plausible relative file path
+export function normalizePath(candidate: string): string | undefined {
+  const path = candidate
+    .trim()
+    .replace(/^["'`*]+|["'`*:,;)]+$/g, '')
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/^\/+/, '');
+
+  if (!path || path.length > 200 || !PATH_CHARS.test(path)) return undefined;
+  const segments = path.split('/');
+  if (segments.some(segment => !segment || segment === '.' || segment === '..')) return undefined;
+  if (NOT_FILES.test(path) || !languageForPath(path)) return undefined;
+  return path;
+}
+
+function firstPath(candidates: Array<string | undefined>): string | undefined {
+  for (const candidate of candidates) {
+    const path = candidate && normalizePath(candidate);
+    if (path) return path;
+  }
+  return undefined;
+}
+
+// ```ts title="src/a.ts"  ```ts:src/a.ts  ```src/a.ts  ```tsx filename=src/App.tsx
+function parseInfoString(info: string): { fence?: string; path?: string } {
+  const attribute = info.match(/\b(?:title|file|filename|path|name)=["']?([^"'\s]+)/i);
+  const [first = '', ...rest] = info.trim().split(/\s+/);
+  const [fence, inlinePath] = first.includes(':') ? first.split(/:(.+)/) : [first, undefined];
+
+  if (!FENCE_LANGUAGES[fence.toLowerCase()] && normalizePath(fence)) {
+    return { path: normalizePath(fence) };
+  }
+  return {
+    fence: fence.toLowerCase() || undefined,
+    path: firstPath([attribute?.[1], inlinePath, ...rest]),
+  };
+}
+
+// A leading comment naming the file: "// src/a.ts", "# file: app.py", "<!-- index.html -->"
+function pathFromFirstLine(code: string): string | undefined {
+  const firstLine = code.split('\n', 1)[0].trim();
+  const match = firstLine.match(/^(?:\/\/|#|--|\/\*|<!--|;)\s*(?:(?:file(?:name)?|path)\s*:\s*)?([^\s*]+)\s*(?:\*\/|-->)?$/i);
+  return match ? normalizePath(match[1]) : undefined;
+}
+
+// The text right before a block: "### `server/routes/auth.ts`", "**File: app.py**", "Create `src/db.ts`:"
+function pathFromPrecedingText(before: string): string | undefined {
+  const lines = before.split('\n').map(line => line.trim()).filter(Boolean).slice(-2).reverse();
+  for (const line of lines) {
+    const quoted = Array.from(line.matchAll(/`([^`\n]+)`|\*\*([^*\n]+)\*\*/g))
+      .map(match => (match[1] || match[2]).replace(/^(?:file(?:name)?|path)\s*:\s*/i, ''))
+      .reverse();
+    const keyword = line.match(/(?:file(?:name)?|path)\s*[:\-]\s*([^\s`*]+)/i)?.[1];
+    const heading = line.match(/^#{1,6}\s+(?:\d+\.\s*)?([^\s`*]+)\s*$/)?.[1];
+    const bare = line.match(/^([^\s`*]+):?$/)?.[1];
+    // "Updated server/db.ts:" - a path ending a sentence that introduces the block
+    const trailing = line.match(/\s([^\s`*]+):$/)?.[1];
+    const path = firstPath([...quoted, keyword, heading, bare, trailing]);
+    if (path) return path;
+  }
+  return undefined;
+}
+
+function snippetPath(agentId: string, index: number, extension: string): string {
+  // Extension-less names like Dockerfile become "snippet-1.Dockerfile"
+  return `snippets/${agentId}/snippet-${index}.${extension}`;
+}
+
+// Parse every fenced block into files. The same path from several blocks (or agents) is merged:
+// identical or contained code is kept once, otherwise the latest version wins.
+export function extractCodeFiles(outputs: AgentOutput[]): CodeFile[] {
+  const files = new Map<string, CodeFile>();
+
+  for (const output of outputs) {
+    let snippetCount = 0;
+    FENCE_REGEX.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = FENCE_REGEX.exec(output.message)) !== null) {
+      const code = match[2].replace(/\s+$/, '');
+      if (!code.trim()) continue;
+
+      const info = parseInfoString(match[1]);
+      const before = output.message.slice(Math.max(0, match.index - 300), match.index);
+      const path = info.path || pathFromFirstLine(code) || pathFromPrecedingText(before);
+      const [fenceLanguage, extension] = FENCE_LANGUAGES[info.fence || ''] || [info.fence || 'text', 'txt'];
+
+      if (!path) {
+        // Repeated snippets (e.g. the same install command from two agents) are kept once
+        if (Array.from(files.values()).some(file => file.code === code)) continue;
+        snippetCount++;
+        const snippet = snippetPath(output.agentId, snippetCount, extension);
+        files.set(snippet, {
+          path: snippet,
+          language: fenceLanguage,
+          code,
+          agentId: output.agentId,
+          agentName: output.agentName,
+          contributors: [output.agentName],
+          snippet: true,
+        });
+        continue;
+      }
+
+      const language = languageForPath(path) || fenceLanguage;
+      const existing = files.get(path);
+      if (!existing) {
+        files.set(path, {
+          path,
+          language,
+          code,
+          agentId: output.agentId,
+          agentName: output.agentName,
+          contributors: [output.agentName],
+          snippet: false,
+        });
+        continue;
+      }
+
+      const contributors = existing.contributors.includes(output.agentName)
+        ? existing.contributors
+        : [...existing.contributors, output.agentName];
+      // A shorter excerpt of a file we already have doesn't replace it
+      const keepExisting = existing.code.includes(code);
+      files.set(path, keepExisting
+        ? { ...existing, contributors }
+        : { ...existing, code, language, agentId: output.agentId, agentName: output.agentName, contributors });
+    }
+  }
+
+  return Array.from(files.values());
+}
@@ -0,0 +1,133 @@
+// Languages the squad can be used in end-to-end: speech recognition, agent responses, research
+// locale and agent voices all follow the selected language.
+export interface SquadLanguage {
+  // BCP 47 tag for speech recognition and /api/stt, e.g. es-ES
+  code: string;
+  // English name, used in prompts ("Respond in Spanish") and as the MiniMax language boost
+  name: string;
+  // Shown in the language picker
+  nativeName: string;
+  // Brave Search locale
+  searchLang: string;
+  country: string;
+  // Lowercase phrases (without accents) that ask for research, in addition to the English ones.
+  // They are matched as substrings, so they must be question-style - bare words like "busca" or
+  // "推荐" also appear in ordinary build requests
+  researchPhrases: string[];
+}
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+export const SQUAD_LANGUAGES: SquadLanguage[] = [
+  {
+    code: 'en-US',
+    name: 'English',
+    nativeName: 'English',
+    searchLang: 'en',
+    country: 'US',
+    researchPhrases: [],
+  },
+  {
+    code: 'es-ES',
+    name: 'Spanish',
+    nativeName: 'Español',
+    searchLang: 'es',
+    country: 'ES',
+    researchPhrases: [
+      'cual es la mejor', 'cual es el mejor', 'cuales son las mejores', 'cuales son los mejores',
+      'mejores practicas', 'buenas practicas', 'que se recomienda', 'que es lo recomendado',
+      'como deberia', 'como deberiamos', 'que enfoque', 'cual es mejor', 'investiga sobre', 'busca informacion sobre',
+    ],
+  },
+  {
+    code: 'fr-FR',
+    name: 'French',
+    nativeName: 'Français',
+    searchLang: 'fr',
+    country: 'FR',
+    researchPhrases: [
+      'quelle est la meilleure', 'quel est le meilleur', 'quelles sont les meilleures', 'quels sont les meilleurs',
+      'meilleures pratiques', 'bonnes pratiques', 'que recommandes', 'comment devrais-je', 'comment devrions-nous',
+      'quelle approche', 'lequel est le meilleur', 'fais des recherches sur', 'cherche des informations sur',
+    ],
+  },
+  {
+    code: 'de-DE',
+    name: 'German',
+    nativeName: 'Deutsch',
+    searchLang: 'de',
+    country: 'DE',
+    researchPhrases: [
+      'was ist der beste', 'was ist die beste', 'was ist das beste', 'was sind die besten',
+      'was wird empfohlen', 'was empfiehlst du', 'wie sollte ich', 'wie sollten wir', 'welcher ansatz',
+      'welche methode', 'was ist besser', 'recherchiere zu', 'suche informationen zu',
+    ],
+  },
+  {
+    code: 'pt-BR',
+    name: 'Portuguese',
+    nativeName: 'Português (Brasil)',
+    searchLang: 'pt-br',
+    country: 'BR',
+    researchPhrases: [
+      'qual e a melhor', 'qual e o melhor', 'quais sao as melhores', 'quais sao os melhores',
+      'melhores praticas', 'boas praticas', 'o que e recomendado', 'como devo', 'como devemos',
+      'qual abordagem', 'qual e melhor', 'pesquise sobre', 'procure informacoes sobre',
+    ],
+  },
+  {
+    code: 'it-IT',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    searchLang: 'it',
+    country: 'IT',
+    researchPhrases: [
+      'qual e il migliore', 'qual e la migliore', 'quali sono i migliori', 'quali sono le migliori',
+      'migliori pratiche', 'buone pratiche', 'cosa si consiglia', 'come dovrei', 'come dovremmo',
+      'quale approccio', 'quale e meglio', 'fai una ricerca su', 'cerca informazioni su',
+    ],
+  },
+  {
+    code: 'ja-JP',
+    name: 'Japanese',
+    nativeName: '日本語',
+    searchLang: 'jp',
+    country: 'JP',
+    researchPhrases: ['ベストプラクティスは', '一番良い方法', '最適な方法は', 'おすすめは', 'どうすべき', 'どちらが良い', 'について調べて'],
+  },
+  {
+    code: 'zh-CN',
+    name: 'Chinese',
+    nativeName: '中文（简体）',
+    searchLang: 'zh-hans',
+    country: 'CN',
+    researchPhrases: ['最佳实践是', '最好的方法', '推荐哪个', '有什么推荐', '应该如何', '哪个更好', '哪种方法更'],
+  },
+  {
+    code: 'ko-KR',
+    name: 'Korean',
+    nativeName: '한국어',
+    searchLang: 'ko',
+    country: 'KR',
+    researchPhrases: ['모범 사례는', '가장 좋은 방법', '무엇을 추천', '어떻게 해야', '어느 것이 더', '에 대해 조사해'],
+  },
+];
+
+// Exact tag, else the same language in another region (es-MX -> es-ES), else English
+export function getSquadLanguage(code?: string | null): SquadLanguage {
+  if (!code) return SQUAD_LANGUAGES[0];
+  const lower = code.toLowerCase();
+  const primary = lower.split('-')[0];
+  return SQUAD_LANGUAGES.find(language => language.code.toLowerCase() === lower)
+    || SQUAD_LANGUAGES.find(language => language.code.toLowerCase().split('-')[0] === primary)
+    || SQUAD_LANGUAGES[0];
+}
+
+export function isEnglish(language: SquadLanguage): boolean {
+  return language.code.startsWith('en');
+}
+
+// Lowercase and strip accents so "cuál" matches "cual"
+export function foldText(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
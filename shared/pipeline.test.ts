@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { derivePipeline, executePipeline, resolvePipeline, validatePipeline } from "./pipeline";
+
+const squad = [
+  { id: 'architect', position: 0 },
+  { id: 'backend', position: 1 },
+  { id: 'frontend', position: 1 },
+  { id: 'qa', position: 2 },
+];
+
+describe('derivePipeline', () => {
+  it('makes every agent depend on the agents at lower positions', () => {
+    const pipeline = derivePipeline(squad);
+    assert.deepEqual(pipeline.nodes, ['architect', 'backend', 'frontend', 'qa']);
+    assert.deepEqual(pipeline.edges, [
+      { from: 'architect', to: 'backend' },
+      { from: 'architect', to: 'frontend' },
+      { from: 'architect', to: 'qa' },
+      { from: 'backend', to: 'qa' },
+      { from: 'frontend', to: 'qa' },
+    ]);
+  });
+});
+
+describe('resolvePipeline', () => {
+  it('drops deleted agents and attaches new ones by position', () => {
+    const stored = { nodes: ['architect', 'removed', 'qa'], edges: [{ from: 'architect', to: 'qa' }, { from: 'removed', to: 'qa' }] };
+    const pipeline = resolvePipeline(stored, [...squad.filter(agent => agent.id !== 'backend' && agent.id !== 'frontend'), { id: 'docs', position: 3 }]);
+    assert.deepEqual(pipeline.nodes, ['architect', 'qa', 'docs']);
+    assert.deepEqual(pipeline.edges, [
+      { from: 'architect', to: 'qa' },
+      { from: 'architect', to: 'docs' },
+      { from: 'qa', to: 'docs' },
+    ]);
+  });
+});
+
+describe('validatePipeline', () => {
+  it('accepts a DAG', () => {
+    assert.equal(validatePipeline(derivePipeline(squad)), null);
+  });
+
+  it('reports the agents on a cycle', () => {
+    const error = validatePipeline({
+      nodes: ['a', 'b', 'c', 'd'],
+      edges: [{ from: 'a', to: 'b' }, { from: 'b', to: 'c' }, { from: 'c', to: 'b' }, { from: 'c', to: 'd' }],
+    });
+    assert.equal(error, 'Pipeline has a dependency cycle involving: b, c, d');
+  });
+
+  it('rejects self-dependencies, unknown agents and duplicate nodes', () => {
+    assert.match(validatePipeline({ nodes: ['a'], edges: [{ from: 'a', to: 'a' }] })!, /cannot depend on itself/);
+    assert.match(validatePipeline({ nodes: ['a'], edges: [{ from: 'a', to: 'x' }] })!, /not in the pipeline/);
+    assert.match(validatePipeline({ nodes: ['a', 'a'], edges: [] })!, /must be unique/);
+  });
+});
+
+describe('executePipeline', () => {
+  it('passes each node its dependencies\' results', async () => {
+    const seen: Record<string, string[]> = {};
+    const { results, stopped } = await executePipeline<string>(derivePipeline(squad), async (id, dependencies) => {
+      seen[id] = dependencies.map(dependency => dependency.result);
+      return `${id} done`;
+    });
+    assert.equal(stopped, false);
+    assert.equal(Object.keys(results).length, 4);
+    assert.deepEqual(seen.qa, ['architect done', 'backend done', 'frontend done']);
+  });
+
+  it('starts nothing new once shouldStop returns true', async () => {
+    const ran: string[] = [];
+    const { results, stopped } = await executePipeline(
+      derivePipeline(squad),
+      async id => {
+        ran.push(id);
+        return id === 'backend' ? null : id;
+      },
+      (_id, result) => result === null,
+    );
+    assert.equal(stopped, true);
+    assert.deepEqual(ran, ['architect', 'backend', 'frontend']);
+    assert.equal('qa' in results, false);
+  });
+
+  it('rejects a cyclic pipeline without running it', async () => {
+    let ran = false;
+    await assert.rejects(
+      executePipeline({ nodes: ['a', 'b'], edges: [{ from: 'a', to: 'b' }, { from: 'b', to: 'a' }] }, async () => { ran = true; }),
+      /dependency cycle/,
+    );
+    assert.equal(ran, false);
+  });
+
+  it('rejects when a node fails', async () => {
+    await assert.rejects(
+      executePipeline(derivePipeline(squad), async id => {
+        if (id === 'frontend') throw new Error('frontend broke');
+        return id;
+      }),
+      /frontend broke/,
+    );
+  });
+});
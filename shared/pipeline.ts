@@ -0,0 +1,147 @@
+import type { Pipeline } from "./schema";
+
+interface PipelineAgent {
+  id: string;
+  position: number;
+}
+
+// Default graph from pipeline positions: every agent depends on all agents at lower positions
+// (built-in squad: architect -> backend + frontend -> qa)
+export function derivePipeline(agents: PipelineAgent[]): Pipeline {
+  const edges = agents.flatMap(to =>
+    agents
+      .filter(from => from.position < to.position)
+      .map(from => ({ from: from.id, to: to.id }))
+  );
+  return { nodes: agents.map(agent => agent.id), edges };
+}
+
+// Fit a stored pipeline to the current agents: drop deleted agents and attach new ones
+// using their position, the same way the default pipeline does
+export function resolvePipeline(stored: Pipeline | undefined, agents: PipelineAgent[]): Pipeline {
+  if (!stored) {
+    return derivePipeline(agents);
+  }
+
+  const agentIds = new Set(agents.map(agent => agent.id));
+  const nodes = stored.nodes.filter(id => agentIds.has(id));
+  const edges = stored.edges.filter(edge => agentIds.has(edge.from) && agentIds.has(edge.to));
+
+  for (const agent of agents) {
+    if (nodes.includes(agent.id)) continue;
+    for (const other of agents) {
+      if (other.position < agent.position && nodes.includes(other.id)) {
+        edges.push({ from: other.id, to: agent.id });
+      }
+    }
+    nodes.push(agent.id);
+  }
+
+  return { nodes, edges };
+}
+
+export function getDependencies(pipeline: Pipeline, nodeId: string): string[] {
+  return pipeline.edges.filter(edge => edge.to === nodeId).map(edge => edge.from);
+}
+
+// Returns an error message, or null when the pipeline is a valid DAG
+export function validatePipeline(pipeline: Pipeline): string | null {
+  const nodes = new Set(pipeline.nodes);
+  if (nodes.size !== pipeline.nodes.length) {
+    return 'Pipeline nodes must be unique';
+  }
+
+  for (const edge of pipeline.edges) {
+    if (!nodes.has(edge.from) || !nodes.has(edge.to)) {
+      return `Edge ${edge.from} -> ${edge.to} references an agent that is not in the pipeline`;
+    }
+    if (edge.from === edge.to) {
+      return `Agent "${edge.from}" cannot depend on itself`;
+    }
+  }
+
+  // Kahn's algorithm - anything left unvisited is part of a cycle
+  const inDegree = new Map(pipeline.nodes.map(id => [id, 0]));
+  for (const edge of pipeline.edges) {
+    inDegree.set(edge.to, (inDegree.get(edge.to) || 0) + 1);
+  }
+  const queue = pipeline.nodes.filter(id => inDegree.get(id) === 0);
+  let visited = 0;
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    visited++;
+    for (const edge of pipeline.edges) {
+      if (edge.from !== id) continue;
+      const degree = inDegree.get(edge.to)! - 1;
+      inDegree.set(edge.to, degree);
+      if (degree === 0) queue.push(edge.to);
+    }
+  }
+
+  if (visited !== pipeline.nodes.length) {
+    const cyclic = pipeline.nodes.filter(id => inDegree.get(id)! > 0);
+    return `Pipeline has a dependency cycle involving: ${cyclic.join(', ')}`;
+  }
+  return null;
+}
+
+export interface PipelineExecution<T> {
+  results: Record<string, T>;
+  // True when shouldStop ended the run before every node executed
+  stopped: boolean;
+}
+
+// Run every node as soon as all of its dependencies have finished (maximal parallelism).
+// Each node receives its direct dependencies' results in pipeline order.
+export function executePipeline<T>(
+  pipeline: Pipeline,
+  runNode: (nodeId: string, dependencies: Array<{ id: string; result: T }>) => Promise<T>,
+  shouldStop?: (nodeId: string, result: T) => boolean,
+): Promise<PipelineExecution<T>> {
+  const error = validatePipeline(pipeline);
+  if (error) {
+    return Promise.reject(new Error(error));
+  }
+
+  return new Promise((resolve, reject) => {
+    const results: Record<string, T> = {};
+    const pending = new Set(pipeline.nodes);
+    let running = 0;
+    let stopped = false;
+    let failed = false;
+
+    const schedule = () => {
+      if (failed) return;
+
+      if (!stopped) {
+        for (const nodeId of pipeline.nodes) {
+          if (!pending.has(nodeId)) continue;
+          const dependencies = getDependencies(pipeline, nodeId);
+          if (!dependencies.every(dep => dep in results)) continue;
+
+          pending.delete(nodeId);
+          running++;
+          runNode(nodeId, dependencies.map(dep => ({ id: dep, result: results[dep] })))
+            .then(result => {
+              results[nodeId] = result;
+              running--;
+              if (shouldStop?.(nodeId, result)) {
+                stopped = true;
+              }
+              schedule();
+            })
+            .catch(err => {
+              failed = true;
+              reject(err);
+            });
+        }
+      }
+
+      if (running === 0) {
+        resolve({ results, stopped });
+      }
+    };
+
+    schedule();
+  });
+}
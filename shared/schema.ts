@@ -14,20 +14,332 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Registration and login payloads - the stored password is a hash, never this value
+export const registerUserSchema = z.object({
+  username: z.string().trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be at most 128 characters"),
+});
+
+export const loginUserSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type LoginUser = z.infer<typeof loginUserSchema>;
+// What the API returns for a user
+export type PublicUser = Omit<User, "password">;
+
+export const workspaceRoles = ['owner', 'editor', 'viewer'] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export const workspaceMemberSchema = z.object({
+  userId: z.string(),
+  username: z.string(),
+  // owner: manage members and the workspace; editor: run the squad and edit agents; viewer: read only
+  role: z.enum(workspaceRoles),
+});
+
+export const workspaceSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, "Workspace name is required").max(64, "Workspace name must be at most 64 characters"),
+  members: z.array(workspaceMemberSchema),
+  createdAt: z.coerce.date(),
+  // Set on the workspace created automatically for a user, so only one is ever created
+  personalFor: z.string().optional(),
+});
+
+export const insertWorkspaceSchema = workspaceSchema.pick({ name: true });
+// Invitations add an existing user by username; ownership can't be handed out this way
+export const inviteWorkspaceMemberSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  role: z.enum(['editor', 'viewer']).default('editor'),
+});
+export const updateWorkspaceMemberSchema = z.object({
+  role: z.enum(workspaceRoles),
+});
+
+export type WorkspaceMember = z.infer<typeof workspaceMemberSchema>;
+export type Workspace = z.infer<typeof workspaceSchema>;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type InviteWorkspaceMember = z.infer<typeof inviteWorkspaceMemberSchema>;
 
 export const commandSchema = z.object({
   _id: z.string().optional(),
+  // Workspace whose history this belongs to, and the user who ran it
+  workspaceId: z.string().optional(),
+  userId: z.string().optional(),
   transcript: z.string(),
   timestamp: z.date(),
   agentResponses: z.array(z.object({
     role: z.string(),
     message: z.string()
-  }))
+  })),
+  // The full squad session this command was recorded from
+  sessionId: z.string().optional(),
+  // Semantic search vector - stored in the database, never returned by the API
+  embedding: z.array(z.number()).optional(),
+  embeddingModel: z.string().optional()
 });
 
 export const insertCommandSchema = commandSchema.omit({ _id: true });
 
 export type Command = z.infer<typeof commandSchema>;
 export type InsertCommand = z.infer<typeof insertCommandSchema>;
+
+export const agentColors = ['blue', 'purple', 'pink', 'green', 'orange', 'red', 'teal', 'yellow', 'slate'] as const;
+export type AgentColor = typeof agentColors[number];
+
+export const agentVoiceSchema = z.object({
+  voiceId: z.string().optional(),
+  emotion: z.enum(['neutral', 'happy', 'sad', 'angry', 'fearful', 'disgusted', 'surprised']).optional(),
+  speed: z.number().min(0.5).max(2).optional(),
+  // Voice per squad language, keyed by primary subtag ("es", "ja"); voiceId is used otherwise
+  languageVoiceIds: z.record(z.string(), z.string()).optional(),
+});
+
+export const agentDefinitionSchema = z.object({
+  _id: z.string().optional(),
+  // Stable key used in API calls, e.g. "architect" or "devops"
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Agent id must be lowercase letters, numbers and dashes"),
+  name: z.string().min(1),
+  role: z.string().min(1),
+  systemPrompt: z.string().min(1),
+  demoPrompt: z.string().min(1),
+  voice: agentVoiceSchema.default({}),
+  color: z.enum(agentColors).default('slate'),
+  // Image URL or a short emoji/initials shown in the agent card
+  avatar: z.string().optional(),
+  // Agents with the same position run in parallel; lower positions run first
+  position: z.number().int().min(0),
+  builtIn: z.boolean().default(false),
+});
+
+export const insertAgentDefinitionSchema = agentDefinitionSchema
+  .omit({ _id: true, builtIn: true })
+  .extend({ id: agentDefinitionSchema.shape.id.optional() });
+export const updateAgentDefinitionSchema = insertAgentDefinitionSchema.omit({ id: true }).partial();
+
+export type AgentVoice = z.infer<typeof agentVoiceSchema>;
+export type AgentDefinition = z.infer<typeof agentDefinitionSchema>;
+export type InsertAgentDefinition = z.infer<typeof insertAgentDefinitionSchema>;
+export type UpdateAgentDefinition = z.infer<typeof updateAgentDefinitionSchema>;
+
+export const pipelineEdgeSchema = z.object({
+  // The output of `from` is passed as context into the prompt of `to`
+  from: z.string(),
+  to: z.string(),
+});
+
+export const pipelineSchema = z.object({
+  nodes: z.array(z.string()).min(1),
+  edges: z.array(pipelineEdgeSchema),
+});
+
+export type PipelineEdge = z.infer<typeof pipelineEdgeSchema>;
+export type Pipeline = z.infer<typeof pipelineSchema>;
+
+export const MAX_DEBATE_ROUNDS = 3;
+
+export const debateEntrySchema = z.object({
+  agentId: z.string(),
+  agentName: z.string(),
+  message: z.string(),
+});
+
+// Round 1 is the normal pipeline pass; rounds 2+ are critiques and revisions
+export const debateRoundSchema = z.object({
+  round: z.number().int().min(1),
+  entries: z.array(debateEntrySchema),
+});
+
+export const debateConsensusRequestSchema = z.object({
+  transcript: z.string().min(1),
+  rounds: z.array(debateRoundSchema).min(1),
+  demoMode: z.boolean().optional(),
+  // BCP 47 tag of the squad language; the summary is written in it
+  language: z.string().optional(),
+});
+
+export type DebateEntry = z.infer<typeof debateEntrySchema>;
+export type DebateRound = z.infer<typeof debateRoundSchema>;
+export type DebateConsensusRequest = z.infer<typeof debateConsensusRequestSchema>;
+
+// Agent responses to turn into a downloadable project
+export const codeExportRequestSchema = z.object({
+  transcript: z.string().default(''),
+  agents: z.array(z.object({
+    agentId: z.string(),
+    agentName: z.string(),
+    message: z.string(),
+  })).min(1),
+});
+
+export type CodeExportRequest = z.infer<typeof codeExportRequestSchema>;
+
+// The response contract every agent is asked to fill in (Gemini structured output).
+// `message` stays the human-readable markdown; this is the typed version of the same turn.
+export const agentOutputFileSchema = z.object({
+  path: z.string().min(1),
+  language: z.string().default('text'),
+  content: z.string(),
+});
+
+export const structuredAgentOutputSchema = z.object({
+  summary: z.string(),
+  decisions: z.array(z.string()).default([]),
+  files: z.array(agentOutputFileSchema).default([]),
+  openQuestions: z.array(z.string()).default([]),
+  risks: z.array(z.string()).default([]),
+});
+
+// schema: the model's JSON validated as-is; partial: JSON repaired after truncation;
+// text: the model answered in markdown and the fields were parsed out of it
+export const structuredOutputSources = ['schema', 'partial', 'text'] as const;
+
+export type AgentOutputFile = z.infer<typeof agentOutputFileSchema>;
+export type StructuredAgentOutput = z.infer<typeof structuredAgentOutputSchema>;
+export type StructuredOutputSource = typeof structuredOutputSources[number];
+
+// A problem found when type-checking or parsing a generated file
+export const codeDiagnosticSchema = z.object({
+  file: z.string(),
+  // 1-based position in the file
+  line: z.number().int(),
+  column: z.number().int(),
+  message: z.string(),
+  // TypeScript error number (TS2322); absent for JSON parse errors
+  code: z.number().int().optional(),
+  severity: z.enum(['error', 'warning']),
+});
+
+// Result of checking one agent's TypeScript/TSX/JSON files
+export const codeCheckSchema = z.object({
+  checkedFiles: z.number().int(),
+  diagnostics: z.array(codeDiagnosticSchema),
+});
+
+// One self-repair turn: the agent was sent its errors and asked for corrected files
+export const codeRepairAttemptSchema = z.object({
+  attempt: z.number().int().min(1),
+  // Errors the agent was asked to fix
+  diagnostics: z.array(codeDiagnosticSchema),
+  // The agent's description of what it changed
+  summary: z.string(),
+  // Files the agent rewrote
+  files: z.array(z.string()),
+  // Errors left after re-checking. Attempts that don't reduce them are discarded.
+  remainingErrors: z.number().int(),
+  accepted: z.boolean(),
+  durationMs: z.number().optional(),
+});
+
+export const testFailureSchema = z.object({
+  file: z.string(),
+  // Enclosing describe blocks and the test name, "suite > test"
+  name: z.string(),
+  message: z.string(),
+});
+
+// 'error' means the run produced no results (crash, out of memory, no tests found)
+export const testRunStatuses = ['passed', 'failed', 'error', 'timeout'] as const;
+
+// Result of running an agent's generated tests in the local sandbox
+export const testRunSchema = z.object({
+  status: z.enum(testRunStatuses),
+  passed: z.number().int(),
+  failed: z.number().int(),
+  skipped: z.number().int(),
+  testFiles: z.array(z.string()),
+  failures: z.array(testFailureSchema),
+  // Console output of the run, truncated
+  output: z.string().optional(),
+  durationMs: z.number(),
+});
+
+export type CodeDiagnostic = z.infer<typeof codeDiagnosticSchema>;
+export type CodeCheck = z.infer<typeof codeCheckSchema>;
+export type CodeRepairAttempt = z.infer<typeof codeRepairAttemptSchema>;
+export type TestFailure = z.infer<typeof testFailureSchema>;
+export type TestRunStatus = typeof testRunStatuses[number];
+export type TestRun = z.infer<typeof testRunSchema>;
+
+export const searchResultSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  description: z.string(),
+});
+
+export const researchDataSchema = z.object({
+  query: z.string(),
+  results: z.array(searchResultSchema),
+  allResults: z.array(searchResultSchema).optional(),
+  totalAvailable: z.number().optional(),
+  summary: z.string(),
+});
+
+export const agentTokenInfoSchema = z.object({
+  promptTokens: z.number(),
+  allocatedOutputTokens: z.number(),
+  finishReason: z.string().optional(),
+  model: z.string().optional(),
+});
+
+// One agent's turn as recorded in a session
+export const sessionAgentResultSchema = z.object({
+  agentId: z.string(),
+  agentName: z.string(),
+  message: z.string(),
+  warning: z.string().optional(),
+  truncated: z.boolean().optional(),
+  finishReason: z.string().optional(),
+  tokenInfo: agentTokenInfoSchema.optional(),
+  durationMs: z.number().optional(),
+  structured: structuredAgentOutputSchema.optional(),
+  structuredSource: z.enum(structuredOutputSources).optional(),
+  codeCheck: codeCheckSchema.optional(),
+  repairs: z.array(codeRepairAttemptSchema).optional(),
+  testRun: testRunSchema.optional(),
+  // Base64 encoded MP3 audio - omitted from session lists
+  audioData: z.string().optional(),
+});
+
+export const sessionSchema = z.object({
+  _id: z.string().optional(),
+  // Set by the server from the active workspace and the logged-in user
+  workspaceId: z.string().optional(),
+  userId: z.string().optional(),
+  transcript: z.string().min(1),
+  // 'research' means the squad stopped after a research-only turn
+  status: z.enum(['completed', 'research', 'failed']),
+  demoMode: z.boolean(),
+  // BCP 47 tag of the language the request was spoken and answered in
+  language: z.string().optional(),
+  model: z.string().optional(),
+  createdAt: z.coerce.date(),
+  durationMs: z.number().optional(),
+  agents: z.array(sessionAgentResultSchema),
+  researchData: researchDataSchema.nullable(),
+  previousResearchApplied: z.boolean().optional(),
+  // Multi-turn conversation this session belongs to, and its 1-based position in it
+  threadId: z.string().optional(),
+  turn: z.number().int().min(1).optional(),
+  debate: z.object({
+    rounds: z.array(debateRoundSchema),
+    consensus: z.string().nullable(),
+  }).optional(),
+  error: z.string().optional(),
+});
+
+export const insertSessionSchema = sessionSchema.omit({ _id: true });
+
+export type SessionAgentResult = z.infer<typeof sessionAgentResultSchema>;
+export type Session = z.infer<typeof sessionSchema>;
+export type InsertSession = z.infer<typeof insertSessionSchema>;